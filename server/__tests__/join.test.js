@@ -0,0 +1,94 @@
+// @vitest-environment node
+/**
+ * Joining a room with a passcode: every attempt, failed guesses included, counts against the
+ * per-IP join rate limit, shared by every connection from the address. Each test runs a fresh
+ * server in a child process on a spare port, so the limit starts over.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { io } from 'socket.io-client';
+
+const PORT = 4100 + Math.floor(Math.random() * 800);
+const SERVER_URL = `http://localhost:${PORT}`;
+const JOIN_RATE_LIMIT = 3;
+
+let server;
+let sockets = [];
+
+function connect() {
+  const socket = io(SERVER_URL, { transports: ['websocket'], forceNew: true });
+  sockets.push(socket);
+  return socket;
+}
+
+const request = (socket, event, payload) => new Promise((resolve) => socket.emit(event, payload, resolve));
+
+beforeEach(async () => {
+  server = spawn(process.execPath, [fileURLToPath(new URL('../index.js', import.meta.url))], {
+    env: { ...process.env, PORT: String(PORT), JOIN_RATE_LIMIT: String(JOIN_RATE_LIMIT) },
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', (chunk) => {
+      if (String(chunk).includes('Server listening')) resolve();
+    });
+    server.on('exit', () => reject(new Error('server exited')));
+  });
+});
+
+afterEach(async () => {
+  for (const socket of sockets) socket.disconnect();
+  sockets = [];
+  // Wait for the port to be free before the next test starts a server on it
+  await new Promise((resolve) => {
+    server.once('exit', resolve);
+    server.kill();
+  });
+});
+
+async function passcodeRoom() {
+  const host = connect();
+  const { code } = await request(host, 'host-room', { nickname: 'Hosty' });
+  host.emit('update-settings', { code, passcode: 'secret' });
+  await new Promise((resolve) => host.once('settings-update', resolve));
+  return code;
+}
+
+describe('join-room passcode', () => {
+  it('rate limits repeated wrong passcodes', async () => {
+    // Arrange: a room with a passcode
+    const code = await passcodeRoom();
+
+    // Act: guess wrong until the limit is reached, then try the right passcode
+    const guest = connect();
+    const results = [];
+    for (let i = 0; i < JOIN_RATE_LIMIT; i++) {
+      results.push(await request(guest, 'join-room', { code, nickname: 'Guest', passcode: `guess${i}` }));
+    }
+    const last = await request(guest, 'join-room', { code, nickname: 'Guest', passcode: 'secret' });
+
+    // Assert
+    expect(results.map((r) => r.error)).toEqual(Array(JOIN_RATE_LIMIT).fill('wrong-passcode'));
+    expect(last).toEqual({ success: false, error: 'Too many join attempts' });
+  });
+
+  it('keeps the limit for a new connection from the same address', async () => {
+    const code = await passcodeRoom();
+    const guest = connect();
+    for (let i = 0; i < JOIN_RATE_LIMIT; i++) {
+      await request(guest, 'join-room', { code, nickname: 'Guest', passcode: `guess${i}` });
+    }
+    guest.disconnect();
+
+    // Reconnecting does not buy more guesses
+    const again = connect();
+    expect(await request(again, 'join-room', { code, nickname: 'Guest', passcode: 'secret' })).toEqual({ success: false, error: 'Too many join attempts' });
+  });
+
+  it('joins with the right passcode', async () => {
+    const code = await passcodeRoom();
+    const guest = connect();
+    expect((await request(guest, 'join-room', { code, nickname: 'Guest', passcode: 'secret' })).success).toBe(true);
+  });
+});
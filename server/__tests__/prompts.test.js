@@ -0,0 +1,85 @@
+/**
+ * Prompt decks: seeded decks deal in a fixed order, never repeat before the pile runs out,
+ * and reshuffle afterwards. A difficulty filter picks from the same piles.
+ */
+import { describe, it, expect } from 'vitest';
+import { prompts, createRandom, createDeck, dealPrompt, dealPrompts, deckStatus, resetDeck, parsePromptPack } from '../prompts.js';
+
+const count = (category) => Object.values(prompts[category]).flat().length;
+const dealAll = (deck, categories, pack, n, difficulties) => Array.from({ length: n }, () => dealPrompt(deck, categories, pack, difficulties).prompt);
+
+describe('prompt deck', () => {
+  it('deals the same order for the same seed', () => {
+    const a = dealAll(createDeck(createRandom(42)), ['animals'], null, 10);
+    const b = dealAll(createDeck(createRandom(42)), ['animals'], null, 10);
+    const c = dealAll(createDeck(createRandom(7)), ['animals'], null, 10);
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('deals every prompt once before reshuffling', () => {
+    const deck = createDeck(createRandom(1));
+    const total = count('animals');
+    const first = dealAll(deck, ['animals'], null, total);
+    expect(new Set(first).size).toBe(total);
+    expect(deckStatus(deck, ['animals'], null)).toEqual({ remaining: 0, total });
+
+    // The next pile starts over without opening on the last prompt
+    const next = dealPrompt(deck, ['animals'], null).prompt;
+    expect(next).not.toBe(first[total - 1]);
+    expect(deckStatus(deck, ['animals'], null)).toEqual({ remaining: total - 1, total });
+  });
+
+  it('keeps a separate pile per category selection and deals random from every category', () => {
+    const deck = createDeck(createRandom(3));
+    dealPrompt(deck, ['food'], null);
+    const card = dealPrompt(deck, [], null);
+    expect(Object.keys(prompts)).toContain(card.category);
+    expect(deckStatus(deck, ['food'], null).remaining).toBe(count('food') - 1);
+  });
+
+  it('deals only the allowed difficulties, and custom prompts whatever the filter', () => {
+    const deck = createDeck(createRandom(9));
+    const hard = prompts.nature.hard;
+    const dealt = dealAll(deck, ['nature'], null, hard.length, ['hard']);
+    expect(dealt.sort()).toEqual(hard.slice().sort());
+    expect(deckStatus(deck, ['nature'], null, ['hard'])).toEqual({ remaining: 0, total: hard.length });
+    // The easier prompts were not used up by the filtered deals
+    expect(deckStatus(deck, ['nature'], null, ['easy', 'medium']).remaining).toBe(count('nature') - hard.length);
+
+    const pack = parsePromptPack('jaws\nup\ncars');
+    expect(dealPrompt(deck, ['custom'], pack, ['hard'])).toMatchObject({ category: 'custom', difficulty: null });
+  });
+
+  it('deals custom prompts with their category and starts over after a reset', () => {
+    const pack = parsePromptPack('{"Movies": ["jaws", "up"], "Games": ["chess", "go"]}');
+    const deck = createDeck(createRandom(5));
+    const card = dealPrompt(deck, ['custom:Movies'], pack);
+    expect(card.category).toBe('custom:Movies');
+    expect(['jaws', 'up']).toContain(card.prompt);
+    expect(deckStatus(deck, ['custom'], pack)).toEqual({ remaining: 4, total: 4 });
+
+    resetDeck(deck);
+    expect(deckStatus(deck, ['custom:Movies'], pack)).toEqual({ remaining: 2, total: 2 });
+  });
+
+  it('deals a hand of different prompts, fewer when the filter has not enough', () => {
+    const deck = createDeck(createRandom(11));
+    const hand = dealPrompts(deck, ['animals'], null, null, 3).map(card => card.prompt);
+    expect(new Set(hand).size).toBe(3);
+    expect(dealPrompts(deck, ['food'], null, ['hard'], 3)).toHaveLength(prompts.food.hard.length);
+  });
+
+  it('deals from the union of several categories', () => {
+    const deck = createDeck(createRandom(13));
+    const total = count('animals') + count('food');
+    const dealt = dealPrompt(deck, ['food', 'animals'], null);
+    expect(['animals', 'food']).toContain(dealt.category);
+    // The order of the selection does not matter
+    expect(deckStatus(deck, ['animals', 'food'], null)).toEqual({ remaining: total - 1, total });
+
+    // 'custom' already holds every prompt of 'custom:Movies'
+    const pack = parsePromptPack('{"Movies": ["jaws", "up"], "Games": ["chess", "go"]}');
+    expect(deckStatus(deck, ['custom', 'custom:Movies'], pack).total).toBe(4);
+  });
+});
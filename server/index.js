@@ -37,8 +37,8 @@ app.use(cors({
 }));
 app.use(express.json({ limit: JSON_LIMIT }));
 
-const { prompts, getRandomPrompt, getRandomPromptFromCategory } = require('./prompts');
-const { validateNickname, validateRoomCode, validateRoundDuration } = require('./validation');
+const { prompts, CUSTOM_CATEGORY, isCustomCategory, parsePromptPack, createDeck, dealPrompt, dealPrompts, deckStatus, resetDeck } = require('./prompts');
+const { validateNickname, validateRoomCode, validateRoundDuration, validateTotalRounds, validatePasscode, validatePromptPack, MAX_PROMPT_PACK_CHARS, validateGameMode, DIFFICULTIES, validateDifficulties, validateStroke } = require('./validation');
 const rooms = {};
 
 // Nickname normalization and disambiguation helpers
@@ -81,14 +81,120 @@ function assignUniqueNickname(preferred, existingList) {
   return `${baseDisplay} (${k})`; // "Joe (2)", "Joe (3)", ...
 }
 
-function publicPlayers(list) {
-  return (Array.isArray(list) ? list : []).map(p => ({
+// Settings snapshot shared by every settings-update emit
+function settingsPayload(room) {
+  return {
+    roundDuration: room.roundDuration,
+    category: room.categories,
+    totalRounds: room.totalRounds,
+    mode: room.mode,
+    difficulties: room.difficulties,
+    promptChoice: !!room.promptChoice,
+    // The passcode itself is never sent back
+    hasPasscode: !!room.passcode,
+    locked: !!room.locked,
+    isPublic: !!room.isPublic,
+    // Category names and size only; the prompts stay on the server
+    promptPack: room.customPrompts
+      ? { categories: Object.keys(room.customPrompts), count: Object.values(room.customPrompts).reduce((n, list) => n + list.length, 0) }
+      : null,
+    // Prompts left before the deck of the chosen categories reshuffles
+    deck: deckStatus(room.deck, dealCategories(room), room.customPrompts, room.difficulties),
+  };
+}
+
+// Helper: built-in categories, plus 'custom' and 'custom:<name>' when there is a prompt pack
+function isValidCategory(pack, category) {
+  if (typeof category !== 'string') return false;
+  if (Object.prototype.hasOwnProperty.call(prompts, category)) return true;
+  if (!pack || !isCustomCategory(category)) return false;
+  return category === CUSTOM_CATEGORY || Object.prototype.hasOwnProperty.call(pack, category.slice(CUSTOM_CATEGORY.length + 1));
+}
+
+// Helper: the categories the next prompt is dealt from; unknown ones are skipped, and none is random
+function dealCategories(room) {
+  return room.categories.filter(category => isValidCategory(room.customPrompts, category));
+}
+
+// Helper: category list from update-settings, or null when invalid. Older clients send a single
+// category string, or null for random.
+function parseCategories(pack, category) {
+  if (category === null) return [];
+  const list = Array.isArray(category) ? category : [category];
+  if (!list.every(c => isValidCategory(pack, c))) return null;
+  if (new Set(list).size !== list.length) return null;
+  return list;
+}
+
+// Helper: what the room is doing right now, as shown in the room browser
+function roomPhase(room) {
+  if (room.phase === 'results' && room.voting) return 'voting';
+  return room.phase || 'lobby';
+}
+
+// Helper: move the room to 'lobby', 'drawing' or 'results' and tell every client; the views follow it
+function setPhase(code, phase) {
+  const room = rooms[code];
+  if (!room) return;
+  room.phase = phase;
+  io.to(code).emit('room-phase', { phase });
+}
+
+// Spectators watch and chat but never draw, vote or score, and do not take a player slot
+function isSpectator(player) {
+  return !!player && player.role === 'spectator';
+}
+
+// Members who take part in rounds
+function activePlayers(room) {
+  return room && Array.isArray(room.players) ? room.players.filter(p => !isSpectator(p)) : [];
+}
+
+// Helper: who takes over when the host leaves; a spectator only when no player is left
+function pickNewHost(room) {
+  return activePlayers(room)[0] || room.players[0] || null;
+}
+
+// Players as shown in the lobby; while a round runs, late joiners are marked as waiting for the next one
+function publicPlayers(room) {
+  const list = room && Array.isArray(room.players) ? room.players : [];
+  const participants = room && room.endsAt && Array.isArray(room.participants) ? room.participants : null;
+  return list.map(p => ({
     id: p.id,
     nickname: p.nickname,
     isReady: !!p.isReady,
+    role: isSpectator(p) ? 'spectator' : 'player',
+    ...(participants && !isSpectator(p) && !participants.includes(p.id) ? { waiting: true } : {}),
   }));
 }
 
+// Helper: system line in the room chat
+function systemMessage(code, text) {
+  io.to(code).emit('chat-message', { text, nickname: 'System', id: 'system', time: Date.now(), isSystem: true });
+}
+
+function isBanned(room, { playerId, ip }) {
+  const bans = room && room.bans;
+  if (!bans) return false;
+  return (!!playerId && bans.playerIds.includes(playerId)) || (!!ip && ip !== 'unknown' && bans.ips.includes(ip));
+}
+
+function broadcastLobby(code) {
+  const room = rooms[code];
+  if (!room) return;
+  io.to(code).emit('lobby-update', { players: publicPlayers(room), hostId: room.host });
+}
+
+// What a late joiner may know about the running round: no prompt, just the clock
+function roundInProgressPayload(room) {
+  return {
+    roundId: room.roundId,
+    endsAt: room.endsAt,
+    mode: room.guess ? 'guess' : 'classic',
+    ...(room.match ? { round: room.match.round, totalRounds: room.match.totalRounds } : {}),
+  };
+}
+
 // Helpers and state
 function normalizeCode(code) {
   if (!code || typeof code !== 'string') return null;
@@ -114,6 +220,277 @@ function safeEqualHex(a, b) {
   }
 }
 
+const VOTING_DURATION_S = Number(process.env.VOTING_DURATION_S || 20);
+const INTERMISSION_S = Number(process.env.INTERMISSION_S || 8);
+const MAX_STROKE_LOG = Number(process.env.MAX_STROKE_LOG || 10000);
+const MAX_PLAYERS_PER_ROOM = Number(process.env.MAX_PLAYERS_PER_ROOM || 12);
+const HARD_PROMPT_BONUS = Number(process.env.HARD_PROMPT_BONUS || 2); // extra guess-mode points per correct guess
+const PROMPT_CHOICES = 3;
+const PROMPT_CHOICE_S = Number(process.env.PROMPT_CHOICE_S || 8); // time to pick a prompt; added to the round
+const JOIN_RATE_LIMIT = Number(process.env.JOIN_RATE_LIMIT || 5);
+const JOIN_RATE_WINDOW_MS = Number(process.env.JOIN_RATE_WINDOW_MS || 60000);
+
+// Recent join attempts by IP address. Shared by all connections from the address, so reconnecting
+// does not reset the limit; addresses without recent attempts are dropped by the idle GC below.
+const joinAttempts = new Map();
+
+// Helper: record a join attempt from the address; false once it is over the limit
+function allowJoinAttempt(ip) {
+  const now = Date.now();
+  const recent = (joinAttempts.get(ip) || []).filter(t => now - t < JOIN_RATE_WINDOW_MS);
+  const allowed = recent.length < JOIN_RATE_LIMIT;
+  if (allowed) recent.push(now);
+  joinAttempts.set(ip, recent);
+  return allowed;
+}
+
+// Helper: cancel any round/voting/intermission timers before a room is dropped
+function clearRoomTimers(room) {
+  if (room.roundTimeout) { try { clearTimeout(room.roundTimeout); } catch {} room.roundTimeout = null; }
+  if (room.choiceTimeout) { try { clearTimeout(room.choiceTimeout); } catch {} room.choiceTimeout = null; }
+  if (room.voting && room.voting.timeout) { try { clearTimeout(room.voting.timeout); } catch {} room.voting.timeout = null; }
+  if (room.match && room.match.intermissionTimeout) { try { clearTimeout(room.match.intermissionTimeout); } catch {} room.match.intermissionTimeout = null; }
+}
+
+// Helper: match scoreboard, highest score first
+function matchStandings(room) {
+  const match = room.match;
+  if (!match) return [];
+  return Object.keys(match.scores)
+    .map(id => {
+      const player = room.players.find(p => p.id === id);
+      return { id, nickname: player ? player.nickname : (match.names[id] || 'Player'), score: match.scores[id] };
+    })
+    .sort((a, b) => (b.score - a.score) || a.nickname.localeCompare(b.nickname));
+}
+
+// Helper: prompt with every letter masked, e.g. "ice cream" -> "___ _____"
+function promptHint(prompt) {
+  return String(prompt || '').replace(/\S/g, '_');
+}
+
+// Helper: compare guesses case- and punctuation-insensitively
+function normalizeGuess(text) {
+  return String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Helper: next drawer in seat order after the previous one (first player if they left)
+function nextDrawerId(room) {
+  const ids = activePlayers(room).map(p => p.id);
+  if (ids.length === 0) return null;
+  const prevIdx = ids.indexOf(room.lastDrawerId);
+  return ids[(prevIdx + 1) % ids.length];
+}
+
+// Helper: per-player round-start fields in guess mode; only the drawer receives the word
+function guessRoundFields(room, playerId) {
+  if (!room.guess) return {};
+  return {
+    mode: 'guess',
+    drawerId: room.guess.drawerId,
+    hint: promptHint(room.prompt),
+    prompt: playerId === room.guess.drawerId ? room.prompt : '',
+  };
+}
+
+// Helper: per-player round-start fields when players choose their prompt. Until they pick (or the
+// choice window closes) they get the candidates and an empty prompt.
+function choiceRoundFields(room, playerId) {
+  const choice = room.choices && room.choices[playerId];
+  if (!choice) return {};
+  if (!choice.chosen) {
+    return { prompt: '', difficulty: null, choices: choice.cards.map(card => card.prompt), choiceEndsAt: room.choiceEndsAt };
+  }
+  return { prompt: choice.chosen.prompt, category: choice.chosen.category, difficulty: choice.chosen.difficulty };
+}
+
+// Helper: tell a player which prompt they draw this round
+function emitPromptChosen(room, playerId) {
+  const player = room.players.find(p => p.id === playerId);
+  const chosen = room.choices && room.choices[playerId] && room.choices[playerId].chosen;
+  if (!player || !chosen) return;
+  io.to(player.socketId).emit('prompt-chosen', { roundId: room.roundId, prompt: chosen.prompt, category: chosen.category, difficulty: chosen.difficulty });
+}
+
+// Helper: when the choice window closes, players who did not pick get their first candidate
+function closePromptChoice(code) {
+  const room = rooms[code];
+  if (!room) return;
+  room.choiceTimeout = null;
+  for (const [playerId, choice] of Object.entries(room.choices || {})) {
+    if (choice.chosen) continue;
+    choice.chosen = choice.cards[0];
+    emitPromptChosen(room, playerId);
+  }
+}
+
+// Helper: the prompt each player drew, for round-end; null when everyone drew the same one
+function choicePrompts(room) {
+  if (!room.choices) return null;
+  const result = {};
+  for (const [playerId, choice] of Object.entries(room.choices)) {
+    result[playerId] = (choice.chosen || choice.cards[0]).prompt;
+  }
+  return result;
+}
+
+// Helper: end the match and bring everyone back to the lobby; settings stay, and players ready up again
+function returnToLobby(code) {
+  const room = rooms[code];
+  if (!room) return;
+  if (room.voting) {
+    if (room.voting.timeout) clearTimeout(room.voting.timeout);
+    room.voting = null;
+  }
+  if (room.match && room.match.intermissionTimeout) clearTimeout(room.match.intermissionTimeout);
+  room.match = null;
+  room.drawings = {};
+  room.guess = null;
+  room.choices = null;
+  room.players.forEach(p => {
+    if (p.id !== room.host) p.isReady = false;
+  });
+  room.lastActivityAt = Date.now();
+  setPhase(code, 'lobby');
+  broadcastLobby(code);
+}
+
+// Helper: startRound for timers and handlers; a round that cannot start (e.g. no prompt left to
+// deal) sends the room back to the lobby with an error instead of throwing
+function tryStartRound(code) {
+  try {
+    startRound(code);
+  } catch (error) {
+    console.error('Error starting round:', error);
+    io.to(code).emit('room-error', { message: 'The round could not start. Check the prompt settings.' });
+    returnToLobby(code);
+  }
+}
+
+// Helper: start a round with server-authoritative settings; continues the current match if one is running
+function startRound(code) {
+  const room = rooms[code];
+  if (!room) return;
+  if (room.match && room.match.intermissionTimeout) {
+    clearTimeout(room.match.intermissionTimeout);
+    room.match.intermissionTimeout = null;
+  }
+  // A finished (or missing) match is replaced by a fresh one using the current round count
+  if (!room.match || room.match.round >= room.match.totalRounds) {
+    room.match = { round: 0, totalRounds: room.totalRounds, mode: room.mode, scores: {}, names: {}, nextRoundAt: null, intermissionTimeout: null };
+  }
+  const match = room.match;
+  match.round++;
+  match.nextRoundAt = null;
+  for (const p of activePlayers(room)) {
+    if (!Object.prototype.hasOwnProperty.call(match.scores, p.id)) match.scores[p.id] = 0;
+    match.names[p.id] = p.nickname;
+  }
+
+  const duration = room.roundDuration;
+  // Deal from the room's deck so prompts do not repeat until the pile of the chosen categories runs
+  // out (no categories = random; the dealt card carries the round's actual category).
+  // With prompt choice (classic rounds only) every player is dealt their own candidates instead.
+  const choosing = !!room.promptChoice && match.mode === 'classic';
+  room.prompt = null;
+  room.roundCategory = null;
+  room.difficulty = null; // null for custom prompts
+  if (!choosing) {
+    const card = dealPrompt(room.deck, dealCategories(room), room.customPrompts, room.difficulties);
+    room.prompt = card.prompt;
+    room.roundCategory = card.category;
+    room.difficulty = card.difficulty;
+  }
+  room.drawings = {};
+  // Lets clients tell a re-sent round-start from a new round, and the server reject late submissions
+  room.roundId = crypto.randomBytes(6).toString('hex');
+  // Starting a new round abandons any voting still in progress
+  if (room.voting) {
+    if (room.voting.timeout) clearTimeout(room.voting.timeout);
+    room.voting = null;
+  }
+  // Snapshot participants at round start
+  room.participants = activePlayers(room).map(p => p.id);
+  // Guess mode: one drawer per round, rotating through the players
+  room.guess = null;
+  if (match.mode === 'guess') {
+    const drawerId = nextDrawerId(room);
+    room.lastDrawerId = drawerId;
+    room.guess = { drawerId, guessedIds: [], points: {}, strokes: [] };
+  }
+  room.choices = null;
+  room.choiceEndsAt = null;
+  if (room.choiceTimeout) clearTimeout(room.choiceTimeout);
+  room.choiceTimeout = null;
+  if (choosing) {
+    room.choices = {};
+    for (const playerId of room.participants) {
+      room.choices[playerId] = { cards: dealPrompts(room.deck, dealCategories(room), room.customPrompts, room.difficulties, PROMPT_CHOICES), chosen: null };
+    }
+    room.choiceEndsAt = Date.now() + PROMPT_CHOICE_S * 1000;
+    room.choiceTimeout = setTimeout(() => closePromptChoice(code), PROMPT_CHOICE_S * 1000);
+  }
+  // Reset ready status for next round (non-host only)
+  room.players.forEach(p => {
+    if (p.id !== room.host) p.isReady = false;
+  });
+  // Server-enforced deadline; picking a prompt does not eat into the drawing time
+  const roundMs = (duration + (choosing ? PROMPT_CHOICE_S : 0)) * 1000;
+  const endsAt = Date.now() + roundMs;
+  room.endsAt = endsAt;
+  if (room.roundTimeout) clearTimeout(room.roundTimeout);
+  room.roundTimeout = setTimeout(() => endRound(code), roundMs);
+  const payload = {
+    roundId: room.roundId,
+    prompt: room.prompt,
+    duration,
+    category: room.roundCategory,
+    difficulty: room.difficulty,
+    endsAt,
+    round: match.round,
+    totalRounds: match.totalRounds,
+  };
+  // Spectators get the clock but not the prompt; in guess mode only the drawer gets the word
+  for (const p of room.players) {
+    if (isSpectator(p)) io.to(p.socketId).emit('round-in-progress', roundInProgressPayload(room));
+    else io.to(p.socketId).emit('round-start', { ...payload, ...guessRoundFields(room, p.id), ...choiceRoundFields(room, p.id) });
+  }
+  setPhase(code, 'drawing');
+  // The deck count went down
+  io.to(code).emit('settings-update', settingsPayload(room));
+  // Clears the waiting marks of players who joined during the previous round
+  broadcastLobby(code);
+  console.log(`Round ${match.round}/${match.totalRounds} started in room ${code} with duration ${duration}s (endsAt=${endsAt})`);
+}
+
+// Helper: after a round's results are final, schedule the next round or the match end
+function finishRound(code) {
+  const room = rooms[code];
+  if (!room || !room.match) return;
+  const match = room.match;
+  const isLast = match.round >= match.totalRounds;
+  match.nextRoundAt = isLast ? null : Date.now() + INTERMISSION_S * 1000;
+  io.to(code).emit('match-update', {
+    round: match.round,
+    totalRounds: match.totalRounds,
+    standings: matchStandings(room),
+    nextRoundAt: match.nextRoundAt,
+  });
+  if (match.intermissionTimeout) clearTimeout(match.intermissionTimeout);
+  match.intermissionTimeout = null;
+  if (!isLast) {
+    match.intermissionTimeout = setTimeout(() => tryStartRound(code), INTERMISSION_S * 1000);
+  } else if (match.totalRounds > 1) {
+    // Leave the last round's results up for the intermission, then show the podium
+    match.intermissionTimeout = setTimeout(() => {
+      const r = rooms[code];
+      if (!r || r.match !== match) return;
+      match.intermissionTimeout = null;
+      io.to(code).emit('match-end', { standings: matchStandings(r) });
+    }, INTERMISSION_S * 1000);
+  }
+}
+
 // Helper: end a round and broadcast results
 function endRound(code) {
   const room = rooms[code];
@@ -122,20 +499,105 @@ function endRound(code) {
     clearTimeout(room.roundTimeout);
     room.roundTimeout = null;
   }
-  // Emit results once
-  io.to(code).emit('round-end', { drawings: room.drawings });
+  if (room.choiceTimeout) {
+    clearTimeout(room.choiceTimeout);
+    room.choiceTimeout = null;
+  }
+  // Guess rounds have no drawings to vote on; reveal the word and who guessed it
+  if (room.guess) {
+    const { drawerId, guessedIds, points } = room.guess;
+    io.to(code).emit('round-end', { roundId: room.roundId, drawings: {}, guess: { drawerId, prompt: room.prompt, guessedIds, points } });
+    room.guess = null;
+    room.endsAt = null;
+    room.participants = null;
+    room.prompt = null;
+    setPhase(code, 'results');
+    broadcastLobby(code);
+    finishRound(code);
+    return;
+  }
+  // Voting needs at least two drawings so everyone has something other than their own to pick
+  const drawingIds = Object.keys(room.drawings || {});
+  // With prompt choice every drawing is labelled with the prompt its player drew
+  const drawnPrompts = choicePrompts(room);
+  const promptFields = drawnPrompts ? { prompts: drawnPrompts } : {};
+  const voters = activePlayers(room).map(p => p.id).filter(id => drawingIds.some(d => d !== id));
+  if (drawingIds.length >= 2 && voters.length > 0) {
+    const votingEndsAt = Date.now() + VOTING_DURATION_S * 1000;
+    room.voting = {
+      endsAt: votingEndsAt,
+      voters,
+      votes: {},
+      timeout: setTimeout(() => endVoting(code), VOTING_DURATION_S * 1000),
+      promptFields, // kept for players who rejoin during voting; the choices are cleared below
+    };
+    io.to(code).emit('round-end', { roundId: room.roundId, drawings: room.drawings, votingEndsAt, ...promptFields });
+  } else {
+    io.to(code).emit('round-end', { roundId: room.roundId, drawings: room.drawings, ...promptFields });
+  }
   // Cleanup round-specific fields
   room.endsAt = null;
   room.participants = null;
   room.prompt = null;
+  room.choices = null;
+  room.choiceEndsAt = null;
+  setPhase(code, 'results');
+  broadcastLobby(code);
+  if (!room.voting) finishRound(code);
+}
+
+// Helper: close voting, tally and broadcast the round winner(s)
+function endVoting(code) {
+  const room = rooms[code];
+  if (!room || !room.voting) return;
+  if (room.voting.timeout) {
+    clearTimeout(room.voting.timeout);
+    room.voting.timeout = null;
+  }
+  const votes = {};
+  for (const targetId of Object.keys(room.drawings || {})) votes[targetId] = 0;
+  for (const targetId of Object.values(room.voting.votes)) {
+    if (Object.prototype.hasOwnProperty.call(votes, targetId)) votes[targetId]++;
+  }
+  const top = Math.max(0, ...Object.values(votes));
+  const winnerIds = top > 0 ? Object.keys(votes).filter(id => votes[id] === top) : [];
+  room.voting = null;
+  // Votes received count as match points
+  if (room.match) {
+    for (const id of Object.keys(votes)) {
+      room.match.scores[id] = (room.match.scores[id] || 0) + votes[id];
+    }
+  }
+  io.to(code).emit('voting-end', { votes, winnerIds });
+  finishRound(code);
+}
+
+// Helper: close voting as soon as every eligible voter has voted
+function maybeEndVotingEarly(code) {
+  const room = rooms[code];
+  if (!room || !room.voting) return;
+  const { voters, votes } = room.voting;
+  if (voters.length === 0 || voters.every(id => Object.prototype.hasOwnProperty.call(votes, id))) {
+    endVoting(code);
+  }
 }
 
 // Helper: check if all required participants have submitted
 function maybeEndRoundEarly(code) {
   const room = rooms[code];
   if (!room) return;
-  const requiredIds = room.participants || (room.players ? room.players.map(p => p.id) : []);
+  const requiredIds = room.participants || activePlayers(room).map(p => p.id);
   if (requiredIds.length === 0) return;
+  // Guess rounds end when the drawer leaves or every other participant has guessed
+  if (room.guess) {
+    const guesserIds = requiredIds.filter(id => id !== room.guess.drawerId);
+    if (!requiredIds.includes(room.guess.drawerId)) {
+      endRound(code);
+    } else if (guesserIds.length > 0 && guesserIds.every(id => room.guess.guessedIds.includes(id))) {
+      endRound(code);
+    }
+    return;
+  }
   let submittedCount = 0;
   for (const participantId of requiredIds) {
     if (room.drawings && room.drawings[participantId]) submittedCount++;
@@ -186,8 +648,24 @@ io.on('connection', (socket) => {
         }],
         drawings: {},
         prompt: null,
-        category: null,
+        categories: [], // categories prompts are dealt from; empty is random (every built-in category)
+        roundCategory: null, // category of the current (or last) prompt
         roundDuration: 60, // Default round duration
+        totalRounds: 1, // Rounds per match
+        mode: 'classic', // 'classic' (everyone draws, then votes) or 'guess' (one drawer, others guess)
+        difficulties: DIFFICULTIES.slice(), // prompt difficulties the host allows
+        difficulty: null, // difficulty of the current (or last) prompt
+        promptChoice: false, // classic rounds: each player picks one of PROMPT_CHOICES prompts
+        choices: null, // { [playerId]: { cards, chosen } } while players pick their prompts
+        match: null,
+        roundId: null, // id of the current (or last) round; submissions must carry it
+        bans: { playerIds: [], ips: [] }, // kept for the room's lifetime
+        passcode: null, // optional; required from new joiners
+        locked: false, // no new joins while set
+        isPublic: false, // listed in the room browser when set
+        customPrompts: null, // host's prompt pack: { [category]: prompts }
+        deck: createDeck(), // shuffled prompt piles per category; see prompts.js
+        phase: 'lobby', // 'lobby' | 'drawing' | 'results'; changed through setPhase
         createdAt: Date.now()
       };
 
@@ -205,14 +683,11 @@ io.on('connection', (socket) => {
       
       // Send initial lobby state
       io.to(code).emit('lobby-update', {
-        players: publicPlayers(rooms[code].players),
+        players: publicPlayers(rooms[code]),
         hostId: rooms[code].host
       });
       // Send initial settings only to the host socket
-      socket.emit('settings-update', {
-        roundDuration: rooms[code].roundDuration,
-        category: rooms[code].category
-      });
+      socket.emit('settings-update', settingsPayload(rooms[code]));
     } catch (error) {
       console.error('Error in host-room:', error);
       if (typeof callback === 'function') {
@@ -221,7 +696,7 @@ io.on('connection', (socket) => {
     }
   });
 
-  socket.on('join-room', ({ code, nickname }, callback) => {
+  socket.on('join-room', ({ code, nickname, spectator, passcode }, callback) => {
     try {
       // Validate room code
       const codeValidationError = validateRoomCode(code);
@@ -239,17 +714,24 @@ io.on('connection', (socket) => {
       const trimmedNickname = nickname.trim();
 
       if (rooms[trimmedCode]) {
-        // Per-IP join rate limit
-        const key = `join:${ip}`;
-        if (!socket.rateBuckets) socket.rateBuckets = {};
-        if (!socket.rateBuckets[key]) socket.rateBuckets[key] = [];
-        const now = Date.now();
-        socket.rateBuckets[key] = socket.rateBuckets[key].filter(t => now - t < (Number(process.env.JOIN_RATE_WINDOW_MS || 60000)));
-        if (socket.rateBuckets[key].length >= Number(process.env.JOIN_RATE_LIMIT || 5)) {
+        // Per-IP join rate limit; runs first so failed passcode guesses count too
+        if (!allowJoinAttempt(ip)) {
           throw new Error('Too many join attempts');
         }
-        socket.rateBuckets[key].push(now);
-        if (rooms[trimmedCode].players.length >= Number(process.env.MAX_PLAYERS_PER_ROOM || 12)) {
+        if (isBanned(rooms[trimmedCode], { ip })) {
+          throw new Error('You are banned from this room');
+        }
+        if (rooms[trimmedCode].locked) {
+          throw new Error('Room is locked');
+        }
+        // Error codes, not messages: the client asks for the passcode on these
+        if (rooms[trimmedCode].passcode) {
+          if (typeof passcode !== 'string' || passcode === '') throw new Error('passcode-required');
+          if (!safeEqualHex(sign(passcode), sign(rooms[trimmedCode].passcode))) throw new Error('wrong-passcode');
+        }
+        // Spectators do not take a player slot
+        const asSpectator = spectator === true;
+        if (!asSpectator && activePlayers(rooms[trimmedCode]).length >= MAX_PLAYERS_PER_ROOM) {
           throw new Error('Room is full');
         }
         // Determine an available nickname deterministically: "Name", "Name (2)", ...
@@ -265,24 +747,28 @@ io.on('connection', (socket) => {
           id: generateId(),
           socketId: socket.id,
           nickname: assignedNickname,
-          isReady: false
+          isReady: false,
+          role: asSpectator ? 'spectator' : 'player'
         };
         rooms[trimmedCode].players.push(player);
         socket.join(trimmedCode);
         // Store stable player id on the socket for lifecycle cleanup
         try { socket.data.playerId = player.id; } catch {}
         io.to(trimmedCode).emit('lobby-update', {
-          players: publicPlayers(rooms[trimmedCode].players),
+          players: publicPlayers(rooms[trimmedCode]),
           hostId: rooms[trimmedCode].host
         });
         // Send current settings only to the newly joined socket
-        socket.emit('settings-update', {
-          roundDuration: rooms[trimmedCode].roundDuration,
-          category: rooms[trimmedCode].category
-        });
+        socket.emit('settings-update', settingsPayload(rooms[trimmedCode]));
+        socket.emit('room-phase', { phase: rooms[trimmedCode].phase });
         if (typeof callback === 'function') {
           const token = sign(`${trimmedCode}|${player.id}`);
-          callback({ success: true, myId: player.id, token, assignedNickname });
+          callback({ success: true, myId: player.id, token, assignedNickname, role: player.role });
+        }
+        // Joined mid-round: watch the clock; players are dealt into the next round
+        const joinedRoom = rooms[trimmedCode];
+        if (joinedRoom.endsAt && Date.now() < joinedRoom.endsAt) {
+          socket.emit('round-in-progress', roundInProgressPayload(joinedRoom));
         }
       } else {
         throw new Error('Room not found');
@@ -296,7 +782,7 @@ io.on('connection', (socket) => {
   });
 
   // Allow previously joined players to rebind after a reload/network blip
-  socket.on('rejoin-room', ({ code, playerId, token, nickname }, ack) => {
+  socket.on('rejoin-room', ({ code, playerId, token, nickname, spectator }, ack) => {
     try {
       const trimmedCode = normalizeCode(code);
       const room = trimmedCode ? rooms[trimmedCode] : null;
@@ -313,6 +799,12 @@ io.on('connection', (socket) => {
         if (typeof ack === 'function') ack({ ok: false, error: 'Invalid token' });
         return;
       }
+      // Members still seated are only checked by id, so players sharing a banned network keep their seat
+      const seated = room.players.some(p => p.id === playerId);
+      if (isBanned(room, { playerId, ip: seated ? null : ip })) {
+        if (typeof ack === 'function') ack({ ok: false, error: 'Banned' });
+        return;
+      }
 
       let player = room.players.find(p => p.id === playerId);
       if (!player) {
@@ -321,7 +813,8 @@ io.on('connection', (socket) => {
           id: playerId,
           socketId: socket.id,
           nickname: (typeof nickname === 'string' && nickname.trim()) ? nickname.trim() : 'Player',
-          isReady: false
+          isReady: false,
+          role: spectator === true ? 'spectator' : 'player'
         };
         room.players.push(player);
       } else {
@@ -349,19 +842,38 @@ io.on('connection', (socket) => {
         room.hostSocketId = socket.id;
       }
 
-      // Catch this socket up with settings and (optionally) round
-      socket.emit('settings-update', {
-        roundDuration: room.roundDuration,
-        category: room.category
-      });
+      // Catch this socket up with settings, phase and (optionally) round
+      socket.emit('settings-update', settingsPayload(room));
+      socket.emit('room-phase', { phase: room.phase });
 
-      if (room.endsAt && Date.now() < room.endsAt) {
+      const spectating = Array.isArray(room.participants) && !room.participants.includes(player.id);
+      if (room.endsAt && Date.now() < room.endsAt && spectating) {
+        socket.emit('round-in-progress', roundInProgressPayload(room));
+      } else if (room.endsAt && Date.now() < room.endsAt) {
         const remaining = Math.max(0, Math.ceil((room.endsAt - Date.now()) / 1000));
-        io.to(socket.id).emit('round-start', { prompt: room.prompt, duration: remaining, category: room.category, endsAt: room.endsAt });
+        // Same roundId as the original round-start, so the client can restore its autosaved drawing
+        const roundInfo = room.match ? { round: room.match.round, totalRounds: room.match.totalRounds } : {};
+        io.to(socket.id).emit('round-start', { roundId: room.roundId, prompt: room.prompt, duration: remaining, category: room.roundCategory, difficulty: room.difficulty, endsAt: room.endsAt, ...roundInfo, ...guessRoundFields(room, player.id), ...choiceRoundFields(room, player.id) });
+        // Replay the strokes drawn so far so the canvas catches up
+        if (room.guess) {
+          io.to(socket.id).emit('stroke-sync', { strokes: room.guess.strokes });
+          io.to(socket.id).emit('guess-update', { guessedIds: room.guess.guessedIds });
+        }
+      } else if (room.voting && Date.now() < room.voting.endsAt) {
+        io.to(socket.id).emit('round-end', { roundId: room.roundId, drawings: room.drawings, votingEndsAt: room.voting.endsAt, ...room.voting.promptFields });
+      }
+      // Catch up on the match scoreboard while a multi-round match is running
+      if (room.match && room.match.totalRounds > 1 && room.match.round > 0) {
+        io.to(socket.id).emit('match-update', {
+          round: room.match.round,
+          totalRounds: room.match.totalRounds,
+          standings: matchStandings(room),
+          nextRoundAt: room.endsAt ? null : (room.match.nextRoundAt || null),
+        });
       }
 
       io.to(trimmedCode).emit('lobby-update', {
-        players: publicPlayers(room.players),
+        players: publicPlayers(room),
         hostId: room.host
       });
 
@@ -377,10 +889,10 @@ io.on('connection', (socket) => {
     if (trimmedCode && rooms[trimmedCode]) {
       const room = rooms[trimmedCode];
       const player = room.players.find(p => p.socketId === socket.id);
-      if (player && player.id !== room.host) { // host is always ready
+      if (player && player.id !== room.host && !isSpectator(player)) { // host is always ready; spectators never play
         player.isReady = !player.isReady;
         io.to(trimmedCode).emit('lobby-update', {
-          players: room.players,
+          players: publicPlayers(room),
           hostId: room.host
         });
       }
@@ -407,33 +919,10 @@ io.on('connection', (socket) => {
         }
         // Refresh host binding to current socket
         room.hostSocketId = socket.id;
-        // Use server authoritative settings
-        const duration = room.roundDuration;
-        // Determine category for this round only (preference can be null = random)
-        let chosenCategory = room.category;
-        let chosenPrompt;
-        if (chosenCategory && typeof chosenCategory === 'string' && prompts[chosenCategory]) {
-          chosenPrompt = getRandomPromptFromCategory(chosenCategory);
-        } else {
-          const random = getRandomPrompt();
-          chosenCategory = random.category;
-          chosenPrompt = random.prompt;
-        }
-        room.prompt = chosenPrompt;
-        room.drawings = {};
-        // Snapshot participants at round start
-        room.participants = room.players.map(p => p.id);
-        // Reset ready status for next round (non-host only)
-        room.players.forEach(p => {
-          if (p.id !== room.host) p.isReady = false;
-        });
-        // Server-enforced deadline
-        const endsAt = Date.now() + duration * 1000;
-        room.endsAt = endsAt;
-        if (room.roundTimeout) clearTimeout(room.roundTimeout);
-        room.roundTimeout = setTimeout(() => endRound(trimmedCode), duration * 1000);
-        io.to(trimmedCode).emit('round-start', { prompt: room.prompt, duration, category: chosenCategory, endsAt });
-        console.log(`Round started in room ${trimmedCode} with duration ${duration}s (endsAt=${endsAt})`);
+        // A room left with spectators only has nobody to play
+        if (activePlayers(room).length === 0) return;
+        // During a match intermission this starts the next round right away
+        tryStartRound(trimmedCode);
       } else {
         console.error('Unauthorized start-round attempt or room not found');
       }
@@ -442,8 +931,38 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Host-only: leave the results (or the match podium) and bring everyone back to the lobby.
+  // Ends the match; settings stay, and players ready up again for the next one.
+  socket.on('return-to-lobby', ({ code }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    const player = room.players.find(p => p.socketId === socket.id);
+    if (!player || player.id !== room.host) { if (typeof ack === 'function') ack({ ok: false, error: 'not-host' }); return; }
+    room.hostSocketId = socket.id;
+    if (room.endsAt) { if (typeof ack === 'function') ack({ ok: false, error: 'round-active' }); return; }
+    if (typeof ack === 'function') ack({ ok: true });
+    returnToLobby(trimmedCode);
+    systemMessage(trimmedCode, 'The host brought everyone back to the lobby.');
+  });
+
+  // Host-only: reshuffle every prompt pile, so prompts already dealt can come up again
+  socket.on('reset-deck', ({ code }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    const player = room.players.find(p => p.socketId === socket.id);
+    if (!player || player.id !== room.host) { if (typeof ack === 'function') ack({ ok: false, error: 'not-host' }); return; }
+    room.hostSocketId = socket.id;
+    resetDeck(room.deck);
+    room.lastActivityAt = Date.now();
+    if (typeof ack === 'function') ack({ ok: true });
+    io.to(trimmedCode).emit('settings-update', settingsPayload(room));
+    systemMessage(trimmedCode, 'The host reshuffled the prompt deck.');
+  });
+
   // Host-only settings updates. Dropped while a round is active.
-  socket.on('update-settings', ({ code, roundDuration, category }) => {
+  socket.on('update-settings', ({ code, roundDuration, category, totalRounds, mode, difficulties, promptChoice, passcode, locked, isPublic, promptPack }) => {
     try {
       const trimmedCode = normalizeCode(code);
       if (!trimmedCode || !rooms[trimmedCode]) return;
@@ -456,35 +975,97 @@ io.on('connection', (socket) => {
       // Do not allow edits mid-round to avoid confusion
       if (room.endsAt) return;
 
-      // Update duration if provided and valid
+      // Check every field before changing anything: one invalid field drops the whole update
+      const next = {};
       if (typeof roundDuration !== 'undefined') {
-        const err = validateRoundDuration(roundDuration);
-        if (err) return;
-        room.roundDuration = roundDuration;
+        if (validateRoundDuration(roundDuration)) return;
+        next.roundDuration = roundDuration;
       }
 
-      // Update category if provided and valid
-      if (typeof category !== 'undefined') {
-        if (category === null) {
-          room.category = null;
-        } else if (typeof category === 'string' && Object.prototype.hasOwnProperty.call(prompts, category)) {
-          room.category = category;
+      // Match length
+      if (typeof totalRounds !== 'undefined') {
+        if (validateTotalRounds(totalRounds)) return;
+        next.totalRounds = totalRounds;
+      }
+
+      // Game mode; takes effect from the next match
+      if (typeof mode !== 'undefined') {
+        if (validateGameMode(mode)) return;
+        next.mode = mode;
+      }
+
+      // Allowed prompt difficulties
+      if (typeof difficulties !== 'undefined') {
+        if (validateDifficulties(difficulties)) return;
+        next.difficulties = DIFFICULTIES.filter(d => difficulties.includes(d));
+      }
+
+      if (typeof promptChoice !== 'undefined') {
+        if (typeof promptChoice !== 'boolean') return;
+        next.promptChoice = promptChoice;
+      }
+
+      // Set or (with null/empty) remove the passcode
+      if (typeof passcode !== 'undefined') {
+        if (passcode === null || passcode === '') {
+          next.passcode = null;
         } else {
-          return;
+          if (validatePasscode(passcode)) return;
+          next.passcode = passcode;
+        }
+      }
+
+      if (typeof locked !== 'undefined') {
+        if (typeof locked !== 'boolean') return;
+        next.locked = locked;
+      }
+
+      if (typeof isPublic !== 'undefined') {
+        if (typeof isPublic !== 'boolean') return;
+        next.isPublic = isPublic;
+      }
+
+      // Set or (with null/empty) remove the custom prompt pack; sent as the raw text and parsed here
+      const packChanged = typeof promptPack !== 'undefined';
+      let pack = room.customPrompts;
+      if (packChanged) {
+        if (promptPack === null || promptPack === '') {
+          pack = null;
+        } else {
+          if (typeof promptPack !== 'string' || promptPack.length > MAX_PROMPT_PACK_CHARS) return;
+          pack = parsePromptPack(promptPack);
+          if (validatePromptPack(pack)) return;
         }
       }
 
+      // Category list; checked against the new pack so a pack and its categories can come together
+      let categories = null;
+      if (typeof category !== 'undefined') {
+        categories = parseCategories(pack, category);
+        if (!categories) return;
+      }
+
+      Object.assign(room, next);
+      if (packChanged) {
+        room.customPrompts = pack;
+        // Custom piles were dealt from the old pack
+        resetDeck(room.deck, list => list.some(isCustomCategory));
+        // Custom categories that are gone are dropped; if none is left, the whole pack (or random
+        // without one) takes over
+        const kept = room.categories.filter(c => isValidCategory(pack, c));
+        if (kept.length === 0 && room.categories.length > 0 && pack) kept.push(CUSTOM_CATEGORY);
+        room.categories = kept;
+      }
+      if (categories) room.categories = categories;
+
       room.lastActivityAt = Date.now();
-      io.to(trimmedCode).emit('settings-update', {
-        roundDuration: room.roundDuration,
-        category: room.category
-      });
+      io.to(trimmedCode).emit('settings-update', settingsPayload(room));
     } catch (err) {
       console.error('Error in update-settings:', err);
     }
   });
 
-  socket.on('submit-drawing', ({ code, drawing }, ack) => {
+  socket.on('submit-drawing', ({ code, drawing, roundId }, ack) => {
     const trimmedCode = normalizeCode(code);
     const room = trimmedCode ? rooms[trimmedCode] : null;
     if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
@@ -494,9 +1075,19 @@ io.on('connection', (socket) => {
       if (typeof ack === 'function') ack({ ok: false, error: 'round-inactive-or-ended' });
       return;
     }
+    // A retry sent for an earlier round must not count for this one
+    if (roundId !== undefined && roundId !== room.roundId) {
+      if (typeof ack === 'function') ack({ ok: false, error: 'stale-round' });
+      return;
+    }
     // Only accept from players in the room
     const player = room.players.find(p => p.socketId === socket.id);
     if (!player) { if (typeof ack === 'function') ack({ ok: false, error: 'not-in-room' }); return; }
+    if (isSpectator(player)) { if (typeof ack === 'function') ack({ ok: false, error: 'spectator' }); return; }
+    // Late joiners watch this round and play the next one
+    if (Array.isArray(room.participants) && !room.participants.includes(player.id)) { if (typeof ack === 'function') ack({ ok: false, error: 'not-participant' }); return; }
+    // Guess rounds are drawn live; there is nothing to submit
+    if (room.guess) { if (typeof ack === 'function') ack({ ok: false, error: 'not-accepting-drawings' }); return; }
     // Validate payload size and type
     if (typeof drawing !== 'string' || !drawing.startsWith('data:image/')) { if (typeof ack === 'function') ack({ ok: false, error: 'invalid-type' }); return; }
     const mime = drawing.slice(5, drawing.indexOf(';'));
@@ -509,6 +1100,77 @@ io.on('connection', (socket) => {
     maybeEndRoundEarly(trimmedCode);
   });
 
+  // Prompt choice: a player picks one of the candidates dealt to them at round start
+  socket.on('choose-prompt', ({ code, roundId, index }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    const player = room.players.find(p => p.socketId === socket.id);
+    if (!player) { if (typeof ack === 'function') ack({ ok: false, error: 'not-in-room' }); return; }
+    if (!room.endsAt || roundId !== room.roundId) { if (typeof ack === 'function') ack({ ok: false, error: 'stale-round' }); return; }
+    const choice = room.choices && room.choices[player.id];
+    if (!choice) { if (typeof ack === 'function') ack({ ok: false, error: 'no-choice' }); return; }
+    if (choice.chosen) { if (typeof ack === 'function') ack({ ok: false, error: 'already-chosen' }); return; }
+    if (!Number.isInteger(index) || !choice.cards[index]) { if (typeof ack === 'function') ack({ ok: false, error: 'invalid-choice' }); return; }
+    choice.chosen = choice.cards[index];
+    if (typeof ack === 'function') ack({ ok: true });
+    emitPromptChosen(room, player.id);
+  });
+
+  socket.on('submit-vote', ({ code, targetId }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    if (!room.voting || Date.now() > room.voting.endsAt) {
+      if (typeof ack === 'function') ack({ ok: false, error: 'voting-inactive-or-ended' });
+      return;
+    }
+    const player = room.players.find(p => p.socketId === socket.id);
+    if (!player) { if (typeof ack === 'function') ack({ ok: false, error: 'not-in-room' }); return; }
+    if (isSpectator(player)) { if (typeof ack === 'function') ack({ ok: false, error: 'spectator' }); return; }
+    if (!room.voting.voters.includes(player.id)) { if (typeof ack === 'function') ack({ ok: false, error: 'not-eligible' }); return; }
+    if (typeof targetId !== 'string' || !room.drawings[targetId]) { if (typeof ack === 'function') ack({ ok: false, error: 'invalid-target' }); return; }
+    if (targetId === player.id) { if (typeof ack === 'function') ack({ ok: false, error: 'own-drawing' }); return; }
+    // Votes may be changed until voting closes; only the last one counts
+    room.voting.votes[player.id] = targetId;
+    if (typeof ack === 'function') ack({ ok: true });
+    maybeEndVotingEarly(trimmedCode);
+  });
+
+  // Guess mode: relay the drawer's strokes to everyone else and keep a log for rejoiners
+  socket.on('draw-stroke', ({ code, stroke }) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room || !room.guess || !room.endsAt || Date.now() > room.endsAt) return;
+    const player = room.players.find(p => p.socketId === socket.id);
+    if (!player || player.id !== room.guess.drawerId) return;
+    if (validateStroke(stroke)) return;
+    // Forward only the known fields
+    const { t, id } = stroke;
+    let msg;
+    if (t === 'line') {
+      msg = { t, id, c: stroke.c, w: stroke.w, p: stroke.p };
+      if (stroke.e) msg.e = true;
+      if (stroke.s) msg.s = true;
+      if (stroke.r) msg.r = stroke.r;
+      if (stroke.a !== undefined && stroke.a < 1) msg.a = stroke.a;
+    } else if (t === 'shape') {
+      msg = { t, id, k: stroke.k, c: stroke.c, w: stroke.w, p: stroke.p, f: stroke.f === true };
+      if (stroke.a !== undefined && stroke.a < 1) msg.a = stroke.a;
+    } else if (t === 'fill') {
+      msg = { t, id, c: stroke.c, x: stroke.x, y: stroke.y };
+      if (stroke.tol !== undefined) msg.tol = stroke.tol;
+      if (stroke.grow) msg.grow = stroke.grow;
+    } else {
+      msg = { t, id };
+    }
+    // A clear makes everything before it irrelevant for replay
+    if (t === 'clear') room.guess.strokes = [];
+    if (room.guess.strokes.length >= MAX_STROKE_LOG) return; // drop silently
+    room.guess.strokes.push(msg);
+    socket.to(trimmedCode).emit('draw-stroke', msg);
+  });
+
   socket.on('chat-message', ({ code, text }) => {
     try {
       const trimmedCode = normalizeCode(code);
@@ -542,18 +1204,123 @@ io.on('connection', (socket) => {
       }
       socket.rateBuckets[key].push(now);
 
-      // Broadcast the chat message to all players in the room
-      io.to(trimmedCode).emit('chat-message', { 
-        text: trimmedText, 
+      const message = {
+        text: trimmedText,
         nickname: player.nickname, // Use server-stored nickname for security
-        id: player.id, 
+        id: player.id,
         time: Date.now() // Use server time
-      });
+      };
+
+      // Guess mode: check guesses against the word while the round is running
+      const room = rooms[trimmedCode];
+      const guess = room.guess;
+      if (guess && room.endsAt && now <= room.endsAt) {
+        const watching = Array.isArray(room.participants) && !room.participants.includes(player.id);
+        // Spectators and late joiners cannot score; typing the word would only spoil it for the guessers
+        if (watching && normalizeGuess(trimmedText) === normalizeGuess(room.prompt)) {
+          const note = isSpectator(player) ? 'Spectators cannot guess.' : 'You can guess from the next round on.';
+          io.to(socket.id).emit('chat-message', { text: note, nickname: 'System', id: 'system', time: now, isSystem: true });
+          return;
+        }
+        const isDrawer = player.id === guess.drawerId;
+        const hasGuessed = guess.guessedIds.includes(player.id);
+        if (!isDrawer && !hasGuessed && normalizeGuess(trimmedText) === normalizeGuess(room.prompt)) {
+          // Correct guesses are never shown; faster guesses earn more points and the drawer earns a share
+          guess.guessedIds.push(player.id);
+          const remainingFraction = Math.max(0, Math.min(1, (room.endsAt - now) / (room.roundDuration * 1000)));
+          // Hard prompts are worth more to both sides
+          const bonus = room.difficulty === 'hard' ? HARD_PROMPT_BONUS : 0;
+          const guesserPoints = 5 + Math.ceil(5 * remainingFraction) + bonus;
+          const drawerPoints = 3 + bonus;
+          guess.points[player.id] = (guess.points[player.id] || 0) + guesserPoints;
+          guess.points[guess.drawerId] = (guess.points[guess.drawerId] || 0) + drawerPoints;
+          if (room.match) {
+            room.match.scores[player.id] = (room.match.scores[player.id] || 0) + guesserPoints;
+            room.match.scores[guess.drawerId] = (room.match.scores[guess.drawerId] || 0) + drawerPoints;
+          }
+          io.to(trimmedCode).emit('chat-message', { text: `${player.nickname} guessed the word!`, nickname: 'System', id: 'system', time: now, isSystem: true });
+          io.to(socket.id).emit('chat-message', { text: `You guessed it: ${room.prompt} (+${guesserPoints})`, nickname: 'System', id: 'system', time: now, isSystem: true });
+          io.to(trimmedCode).emit('guess-update', { guessedIds: guess.guessedIds });
+          maybeEndRoundEarly(trimmedCode);
+          return;
+        }
+        if (isDrawer || hasGuessed) {
+          // Players who know the word only chat among themselves so they cannot leak it
+          for (const p of room.players) {
+            if (p.id === guess.drawerId || guess.guessedIds.includes(p.id)) io.to(p.socketId).emit('chat-message', message);
+          }
+          return;
+        }
+      }
+
+      // Broadcast the chat message to all players in the room
+      io.to(trimmedCode).emit('chat-message', message);
     } catch (error) {
       console.error('Error in chat-message:', error);
     }
   });
 
+  // Host moderation: remove a player, optionally banning them from coming back
+  const kick = (ban) => ({ code, playerId }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    const actor = room.players.find(p => p.socketId === socket.id);
+    if (!actor || actor.id !== room.host) { if (typeof ack === 'function') ack({ ok: false, error: 'not-host' }); return; }
+    const target = room.players.find(p => p.id === playerId);
+    if (!target) { if (typeof ack === 'function') ack({ ok: false, error: 'player-not-found' }); return; }
+    if (target.id === actor.id) { if (typeof ack === 'function') ack({ ok: false, error: 'cannot-kick-self' }); return; }
+
+    const targetSocket = io.sockets.sockets.get(target.socketId);
+    if (ban) {
+      room.bans.playerIds.push(target.id);
+      const targetIp = targetSocket ? targetSocket.handshake.address : null;
+      // Never lock out the host's own network (e.g. everyone on one Wi-Fi)
+      if (targetIp && targetIp !== ip && !room.bans.ips.includes(targetIp)) room.bans.ips.push(targetIp);
+    }
+    // A pending disconnect removal would fire for a player who is already gone
+    if (room.pending && room.pending.playerRemoval && room.pending.playerRemoval[target.id]) {
+      try { clearTimeout(room.pending.playerRemoval[target.id]); } catch {}
+      delete room.pending.playerRemoval[target.id];
+    }
+    room.players = room.players.filter(p => p.id !== target.id);
+    if (targetSocket) {
+      targetSocket.emit('kicked', { banned: ban });
+      try { targetSocket.leave(trimmedCode); } catch {}
+    }
+    if (Array.isArray(room.participants)) {
+      room.participants = room.participants.filter(id => id !== target.id);
+      maybeEndRoundEarly(trimmedCode);
+    }
+    if (room.voting) {
+      room.voting.voters = room.voting.voters.filter(id => id !== target.id);
+      maybeEndVotingEarly(trimmedCode);
+    }
+    if (typeof ack === 'function') ack({ ok: true });
+    broadcastLobby(trimmedCode);
+    systemMessage(trimmedCode, ban ? `${target.nickname} was banned by the host.` : `${target.nickname} was removed by the host.`);
+  };
+  socket.on('kick-player', kick(false));
+  socket.on('ban-player', kick(true));
+
+  socket.on('transfer-host', ({ code, playerId }, ack) => {
+    const trimmedCode = normalizeCode(code);
+    const room = trimmedCode ? rooms[trimmedCode] : null;
+    if (!room) { if (typeof ack === 'function') ack({ ok: false, error: 'room-not-found' }); return; }
+    const actor = room.players.find(p => p.socketId === socket.id);
+    if (!actor || actor.id !== room.host) { if (typeof ack === 'function') ack({ ok: false, error: 'not-host' }); return; }
+    const target = room.players.find(p => p.id === playerId);
+    if (!target || target.id === actor.id) { if (typeof ack === 'function') ack({ ok: false, error: 'player-not-found' }); return; }
+    if (isSpectator(target)) { if (typeof ack === 'function') ack({ ok: false, error: 'spectator' }); return; }
+    room.host = target.id;
+    room.hostSocketId = target.socketId;
+    target.isReady = true; // host is always ready
+    actor.isReady = false;
+    if (typeof ack === 'function') ack({ ok: true });
+    broadcastLobby(trimmedCode);
+    systemMessage(trimmedCode, `${target.nickname} is now the host.`);
+  });
+
   // Explicitly allow clients to leave a room without disconnecting the socket
   socket.on('leave-room', (code) => {
     const trimmedCode = normalizeCode(code);
@@ -571,6 +1338,11 @@ io.on('connection', (socket) => {
       room.participants = room.participants.filter(id => id !== leavingPlayer.id);
       maybeEndRoundEarly(trimmedCode);
     }
+    // Remove from eligible voters if voting is open
+    if (room.voting && leavingPlayer) {
+      room.voting.voters = room.voting.voters.filter(id => id !== leavingPlayer.id);
+      maybeEndVotingEarly(trimmedCode);
+    }
 
     // Ensure this socket stops receiving broadcasts for this room
     try { socket.leave(trimmedCode); } catch {}
@@ -578,23 +1350,23 @@ io.on('connection', (socket) => {
     // Host reassignment or room cleanup
     if (wasHost) {
       if (room.players.length > 0) {
-        const newHost = room.players[0];
+        const newHost = pickNewHost(room);
         room.host = newHost.id;
         room.hostSocketId = newHost.socketId;
       } else {
-        if (room.roundTimeout) { try { clearTimeout(room.roundTimeout); } catch {} room.roundTimeout = null; }
+        clearRoomTimers(room);
         delete rooms[trimmedCode];
         return;
       }
     } else if (room.players.length === 0) {
-      if (room.roundTimeout) { try { clearTimeout(room.roundTimeout); } catch {} room.roundTimeout = null; }
+      clearRoomTimers(room);
       delete rooms[trimmedCode];
       return;
     }
 
     // Notify remaining players
     io.to(trimmedCode).emit('lobby-update', {
-      players: publicPlayers(room.players),
+      players: publicPlayers(room),
       hostId: room.host
     });
   });
@@ -629,23 +1401,27 @@ io.on('connection', (socket) => {
           r.participants = r.participants.filter(id => id !== removedPlayer.id);
           maybeEndRoundEarly(code);
         }
+        if (r.voting) {
+          r.voting.voters = r.voting.voters.filter(id => id !== removedPlayer.id);
+          maybeEndVotingEarly(code);
+        }
 
         // Host reassignment or room cleanup
         if (wasHost) {
           if (r.players.length > 0) {
-            const newHost = r.players[0];
+            const newHost = pickNewHost(r);
             r.host = newHost.id;
             r.hostSocketId = newHost.socketId;
-            io.to(code).emit('lobby-update', { players: publicPlayers(r.players), hostId: r.host });
+            io.to(code).emit('lobby-update', { players: publicPlayers(r), hostId: r.host });
           } else {
-            if (r.roundTimeout) { try { clearTimeout(r.roundTimeout); } catch {} r.roundTimeout = null; }
+            clearRoomTimers(r);
             delete rooms[code];
             return;
           }
         } else if (r.players.length > 0) {
-          io.to(code).emit('lobby-update', { players: publicPlayers(r.players), hostId: r.host });
+          io.to(code).emit('lobby-update', { players: publicPlayers(r), hostId: r.host });
         } else {
-          if (r.roundTimeout) { try { clearTimeout(r.roundTimeout); } catch {} r.roundTimeout = null; }
+          clearRoomTimers(r);
           delete rooms[code];
         }
       }, REJOIN_GRACE_MS);
@@ -661,6 +1437,29 @@ app.get('/', (req, res) => {
 app.get('/healthz', (req, res) => res.status(200).json({ status: 'ok' }));
 app.get('/readyz', (req, res) => res.status(200).json({ ready: true }));
 
+// Room browser: public rooms that can be joined with a plain code (no passcode, not full)
+app.get('/rooms', (req, res) => {
+  const list = Object.entries(rooms)
+    .filter(([, room]) => room.isPublic && !room.passcode)
+    .map(([code, room]) => {
+      const host = room.players.find(p => p.id === room.host);
+      return {
+        code,
+        hostNickname: host ? host.nickname : null,
+        players: activePlayers(room).length,
+        maxPlayers: MAX_PLAYERS_PER_ROOM,
+        category: room.categories,
+        phase: roomPhase(room),
+        roundDuration: room.roundDuration,
+        mode: room.mode,
+        locked: !!room.locked,
+      };
+    })
+    .filter(r => r.players > 0 && r.players < r.maxPlayers)
+    .sort((a, b) => b.players - a.players);
+  res.status(200).json({ rooms: list });
+});
+
 // Version endpoint: helps verify deployed server build
 try {
   const pkg = require('./package.json');
@@ -690,8 +1489,11 @@ setInterval(() => {
     if (!room) continue;
     const lastActive = room.lastActivityAt || room.createdAt || 0;
     if (now - lastActive > ROOM_IDLE_MS) {
-      if (room.roundTimeout) { try { clearTimeout(room.roundTimeout); } catch {} }
+      clearRoomTimers(room);
       delete rooms[code];
     }
   }
+  for (const [ip, attempts] of joinAttempts) {
+    if (attempts.every(t => now - t >= JOIN_RATE_WINDOW_MS)) joinAttempts.delete(ip);
+  }
 }, Math.min(ROOM_IDLE_MS, 5 * 60 * 1000));
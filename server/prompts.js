@@ -1,60 +1,230 @@
-// Drawing prompts organized by categories
+const crypto = require('crypto');
+
+// Drawing prompts organized by categories, then by difficulty
 const prompts = {
-  animals: [
-    'lion', 'elephant', 'giraffe', 'penguin', 'dog', 'cat', 'rabbit', 'monkey',
-    'tiger', 'bear', 'fish', 'bird', 'snake', 'butterfly', 'dolphin'
-  ],
-  objects: [
-    'chair', 'table', 'lamp', 'book', 'clock', 'phone', 'computer', 'glasses',
-    'cup', 'umbrella', 'backpack', 'camera', 'television', 'guitar'
-  ],
-  nature: [
-    'tree', 'flower', 'mountain', 'sun', 'moon', 'star', 'cloud', 'rainbow',
-    'beach', 'river', 'forest', 'volcano', 'island', 'waterfall'
-  ],
-  food: [
-    'pizza', 'hamburger', 'ice cream', 'cake', 'apple', 'banana', 'sushi',
-    'sandwich', 'cookie', 'donut', 'taco', 'pasta', 'popcorn'
-  ],
-  vehicles: [
-    'car', 'bicycle', 'airplane', 'boat', 'train', 'rocket', 'helicopter',
-    'motorcycle', 'submarine', 'truck', 'spaceship'
-  ],
-  fantasy: [
-    'dragon', 'unicorn', 'wizard', 'robot', 'alien', 'monster', 'superhero',
-    'pirate', 'mermaid', 'fairy', 'ghost', 'ninja'
-  ],
-  buildings: [
-    'house', 'castle', 'skyscraper', 'lighthouse', 'bridge', 'windmill',
-    'temple', 'igloo', 'pyramid', 'barn'
-  ],
-  sports: [
-    'baseball', 'basketball', 'soccer ball', 'tennis racket', 'football',
-    'skateboard', 'surfboard', 'hockey stick', 'bowling pin'
-  ]
+  animals: {
+    easy: ['cat', 'dog', 'fish', 'bird', 'snake'],
+    medium: ['lion', 'elephant', 'rabbit', 'monkey', 'tiger', 'bear', 'butterfly'],
+    hard: ['giraffe', 'penguin', 'dolphin']
+  },
+  objects: {
+    easy: ['chair', 'table', 'book', 'cup', 'clock'],
+    medium: ['lamp', 'phone', 'glasses', 'umbrella', 'backpack', 'computer'],
+    hard: ['camera', 'television', 'guitar']
+  },
+  nature: {
+    easy: ['tree', 'flower', 'sun', 'moon', 'star', 'cloud'],
+    medium: ['mountain', 'rainbow', 'beach', 'river', 'island'],
+    hard: ['forest', 'volcano', 'waterfall']
+  },
+  food: {
+    easy: ['pizza', 'cake', 'apple', 'banana', 'cookie', 'donut'],
+    medium: ['hamburger', 'ice cream', 'sandwich', 'taco', 'popcorn'],
+    hard: ['sushi', 'pasta']
+  },
+  vehicles: {
+    easy: ['car', 'boat', 'rocket', 'truck'],
+    medium: ['bicycle', 'airplane', 'train', 'spaceship'],
+    hard: ['helicopter', 'motorcycle', 'submarine']
+  },
+  fantasy: {
+    easy: ['robot', 'alien', 'monster', 'ghost'],
+    medium: ['dragon', 'unicorn', 'wizard', 'pirate', 'fairy'],
+    hard: ['superhero', 'mermaid', 'ninja']
+  },
+  buildings: {
+    easy: ['house', 'igloo', 'pyramid'],
+    medium: ['castle', 'skyscraper', 'bridge', 'barn'],
+    hard: ['lighthouse', 'windmill', 'temple']
+  },
+  sports: {
+    easy: ['baseball', 'basketball', 'football'],
+    medium: ['soccer ball', 'skateboard', 'surfboard', 'bowling pin'],
+    hard: ['tennis racket', 'hockey stick']
+  }
 };
 
-// Get a random prompt from a specific category
-function getRandomPromptFromCategory(category) {
-  const categoryPrompts = prompts[category];
-  if (!categoryPrompts) {
-    throw new Error(`Category "${category}" not found`);
+// Custom prompt packs set by the host. A pack maps category names to prompts; its categories are
+// picked as 'custom' (any prompt of the pack) or 'custom:<name>'.
+const CUSTOM_CATEGORY = 'custom';
+const DEFAULT_PACK_CATEGORY = 'Custom';
+
+function isCustomCategory(category) {
+  return typeof category === 'string' && (category === CUSTOM_CATEGORY || category.startsWith(`${CUSTOM_CATEGORY}:`));
+}
+
+// Reads a pasted or uploaded word list: one prompt per line, a JSON array of prompts, or a JSON
+// object of category name -> prompts. Prompts are trimmed and de-duplicated; limits are checked by
+// validatePromptPack. Returns null when the text cannot be read.
+function parsePromptPack(text) {
+  if (typeof text !== 'string') return null;
+  const trimmed = text.trim();
+  let raw;
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+  } else {
+    raw = trimmed.split(/\r?\n/);
   }
-  return categoryPrompts[Math.floor(Math.random() * categoryPrompts.length)];
+  if (Array.isArray(raw)) raw = { [DEFAULT_PACK_CATEGORY]: raw };
+  if (!raw || typeof raw !== 'object') return null;
+  // No prototype, so a category named like an Object.prototype key stays a plain entry
+  const pack = Object.create(null);
+  for (const [name, list] of Object.entries(raw)) {
+    if (!Array.isArray(list)) return null;
+    const seen = new Set();
+    const words = [];
+    for (const item of list) {
+      if (typeof item !== 'string') return null;
+      const word = item.trim().replace(/\s+/g, ' ');
+      if (!word || seen.has(word.toLowerCase())) continue;
+      seen.add(word.toLowerCase());
+      words.push(word);
+    }
+    pack[name.trim().replace(/\s+/g, ' ')] = words;
+  }
+  return pack;
 }
 
-// Get a random prompt from any category
-function getRandomPrompt() {
-  const categories = Object.keys(prompts);
-  const randomCategory = categories[Math.floor(Math.random() * categories.length)];
-  return {
-    prompt: getRandomPromptFromCategory(randomCategory),
-    category: randomCategory
+// Seedable random source (mulberry32). Rooms get a random seed; tests pass their own for a fixed order.
+function createRandom(seed = crypto.randomInt(2 ** 32)) {
+  let state = seed >>> 0;
+  return function random() {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
 }
 
+// Every prompt a category can deal, as { prompt, category, difficulty }. Custom categories come
+// from the room's pack, and a single-category pack is just "custom". Custom prompts are not rated,
+// so their difficulty is null.
+function categoryCards(category, pack) {
+  if (isCustomCategory(category)) {
+    if (!pack) return [];
+    const names = Object.keys(pack);
+    const cards = [];
+    for (const name of names) {
+      if (category !== CUSTOM_CATEGORY && category !== `${CUSTOM_CATEGORY}:${name}`) continue;
+      const cardCategory = names.length > 1 ? `${CUSTOM_CATEGORY}:${name}` : CUSTOM_CATEGORY;
+      for (const prompt of pack[name]) cards.push({ prompt, category: cardCategory, difficulty: null });
+    }
+    return cards;
+  }
+  const cards = [];
+  for (const [difficulty, list] of Object.entries(prompts[category] || {})) {
+    for (const prompt of list) cards.push({ prompt, category, difficulty });
+  }
+  return cards;
+}
+
+// The union of the categories' prompts; no categories is random (all built-in categories).
+// 'custom' and 'custom:<name>' overlap, so each prompt is only taken once.
+function deckCards(categories, pack) {
+  const names = categories.length > 0 ? categories : Object.keys(prompts);
+  const seen = new Set();
+  const cards = [];
+  for (const name of names) {
+    for (const card of categoryCards(name, pack)) {
+      const id = `${card.category}\n${card.prompt}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      cards.push(card);
+    }
+  }
+  return cards;
+}
+
+// Piles are kept per category selection, e.g. "animals+food"
+function pileKey(categories) {
+  return categories.length > 0 ? categories.slice().sort().join('+') : 'random';
+}
+
+// Unrated (custom) prompts are always allowed; no list allows every difficulty
+function allowedCard(card, difficulties) {
+  return card.difficulty === null || !difficulties || difficulties.includes(card.difficulty);
+}
+
+// Fisher-Yates on a copy
+function shuffle(cards, random) {
+  const pile = cards.slice();
+  for (let i = pile.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pile[i], pile[j]] = [pile[j], pile[i]];
+  }
+  return pile;
+}
+
+// A room's prompt decks: each category selection gets a shuffled pile that is dealt without repeats
+// and reshuffled once it runs out
+function createDeck(random = createRandom()) {
+  return { random, piles: {}, last: null };
+}
+
+// Piles hold every prompt of the selection; the difficulty filter picks from them, so changing it
+// does not bring back prompts that were already dealt
+function dealPrompt(deck, categories, pack, difficulties) {
+  const key = pileKey(categories);
+  let pile = deck.piles[key];
+  let index = pile ? pile.cards.findLastIndex(card => allowedCard(card, difficulties)) : -1;
+  if (index === -1) {
+    const cards = deckCards(categories, pack);
+    if (!cards.some(card => allowedCard(card, difficulties))) {
+      throw new Error(`Category "${key}" has no prompts to deal`);
+    }
+    pile = { categories: categories.slice(), cards: shuffle(cards, deck.random) };
+    index = pile.cards.findLastIndex(card => allowedCard(card, difficulties));
+    // A fresh pile does not open with the prompt that was just dealt
+    if (pile.cards[index].prompt === deck.last) {
+      const other = pile.cards.findIndex(card => allowedCard(card, difficulties));
+      if (other !== index) [pile.cards[other], pile.cards[index]] = [pile.cards[index], pile.cards[other]];
+    }
+    deck.piles[key] = pile;
+  }
+  const [card] = pile.cards.splice(index, 1);
+  deck.last = card.prompt;
+  return card;
+}
+
+// Up to `count` different prompts in a row, e.g. the candidates a player chooses from
+function dealPrompts(deck, categories, pack, difficulties, count) {
+  const cards = [];
+  // A reshuffle can bring back a prompt already in the hand; small packs may not have `count`
+  for (let tries = 0; cards.length < count && tries < count * 3; tries++) {
+    const card = dealPrompt(deck, categories, pack, difficulties);
+    if (!cards.some(c => c.prompt === card.prompt)) cards.push(card);
+  }
+  return cards;
+}
+
+// { remaining, total } for a selection and difficulty filter; a pile that was not dealt from yet is full
+function deckStatus(deck, categories, pack, difficulties) {
+  const total = deckCards(categories, pack).filter(card => allowedCard(card, difficulties)).length;
+  const pile = deck.piles[pileKey(categories)];
+  return { remaining: pile ? pile.cards.filter(card => allowedCard(card, difficulties)).length : total, total };
+}
+
+// Drops the piles (all, or those whose category list matches) so they are reshuffled on the next deal
+function resetDeck(deck, matches = () => true) {
+  for (const [key, pile] of Object.entries(deck.piles)) {
+    if (matches(pile.categories)) delete deck.piles[key];
+  }
+}
+
 module.exports = {
   prompts,
-  getRandomPrompt,
-  getRandomPromptFromCategory
+  CUSTOM_CATEGORY,
+  isCustomCategory,
+  parsePromptPack,
+  createRandom,
+  createDeck,
+  dealPrompt,
+  dealPrompts,
+  deckStatus,
+  resetDeck
 };
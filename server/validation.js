@@ -24,7 +24,121 @@ function validateRoundDuration(duration) {
   return null;
 }
 
-module.exports = { validateNickname, validateRoomCode, validateRoundDuration };
+function validateTotalRounds(rounds) {
+  if (!rounds || typeof rounds !== 'number') return 'Invalid round count';
+  if (!Number.isInteger(rounds)) return 'Round count must be a whole number';
+  if (rounds < 1) return 'A match needs at least 1 round';
+  if (rounds > 10) return 'A match cannot exceed 10 rounds';
+  return null;
+}
+
+// Optional room passcode; an empty value removes it and is handled by the caller
+function validatePasscode(passcode) {
+  if (!passcode || typeof passcode !== 'string') return 'Invalid passcode';
+  if (passcode !== passcode.trim()) return 'Passcode cannot start or end with spaces';
+  if (passcode.length < 4) return 'Passcode must be at least 4 characters';
+  if (passcode.length > 20) return 'Passcode must be 20 characters or less';
+  if (!/^[\x20-\x7e]+$/.test(passcode)) return 'Passcode contains invalid characters';
+  return null;
+}
+
+// Custom prompt packs (see parsePromptPack in prompts.js). Prompts stick to letters, digits, spaces,
+// hyphens and apostrophes so that guesses can be matched against them.
+const MAX_PROMPT_PACK_CHARS = 10000;
+const MAX_PACK_CATEGORIES = 10;
+const MIN_PACK_PROMPTS = 3;
+const MAX_PACK_PROMPTS = 200;
+const MAX_PROMPT_LENGTH = 30;
+
+function validatePromptPack(pack) {
+  if (!pack || typeof pack !== 'object') return 'Could not read the prompt list';
+  const names = Object.keys(pack);
+  if (names.length === 0) return 'The prompt list is empty';
+  if (names.length > MAX_PACK_CATEGORIES) return `A prompt pack can have at most ${MAX_PACK_CATEGORIES} categories`;
+  let total = 0;
+  for (const name of names) {
+    if (!/^[a-zA-Z0-9][a-zA-Z0-9 _-]{0,19}$/.test(name)) return 'Category names must be 1-20 letters, numbers, spaces, hyphens or underscores';
+    const list = pack[name];
+    if (!Array.isArray(list) || list.length === 0) return `Category "${name}" has no prompts`;
+    for (const prompt of list) {
+      if (typeof prompt !== 'string' || !prompt) return 'Invalid prompt';
+      if (prompt.length > MAX_PROMPT_LENGTH) return `Prompts must be ${MAX_PROMPT_LENGTH} characters or less`;
+      if (!/^[a-zA-Z0-9][a-zA-Z0-9 '-]*$/.test(prompt)) return `"${prompt}" contains invalid characters`;
+    }
+    total += list.length;
+  }
+  if (total < MIN_PACK_PROMPTS) return `Add at least ${MIN_PACK_PROMPTS} prompts`;
+  if (total > MAX_PACK_PROMPTS) return `A prompt pack can have at most ${MAX_PACK_PROMPTS} prompts`;
+  return null;
+}
+
+const GAME_MODES = ['classic', 'guess'];
+
+function validateGameMode(mode) {
+  if (!mode || typeof mode !== 'string') return 'Invalid game mode';
+  if (!GAME_MODES.includes(mode)) return 'Unknown game mode';
+  return null;
+}
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// Difficulties the host allows; at least one, no repeats
+function validateDifficulties(list) {
+  if (!Array.isArray(list)) return 'Invalid difficulties';
+  if (list.length === 0) return 'Allow at least one difficulty';
+  if (list.some(d => !DIFFICULTIES.includes(d))) return 'Unknown difficulty';
+  if (new Set(list).size !== list.length) return 'Difficulties must not repeat';
+  return null;
+}
+
+// Stroke messages streamed by the drawer in guess mode (coordinates normalized to 0..1)
+const MAX_STROKE_POINTS = 128;
+const SHAPE_KINDS = ['line', 'rect', 'ellipse'];
+function isUnit(v) {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1;
+}
+// Optional opacity: fully transparent strokes are pointless
+function isOpacity(v) {
+  return v === undefined || (isUnit(v) && v > 0);
+}
+function validateStroke(stroke) {
+  if (!stroke || typeof stroke !== 'object') return 'Invalid stroke';
+  if (typeof stroke.id !== 'string' || stroke.id.length === 0 || stroke.id.length > 16) return 'Invalid stroke id';
+  switch (stroke.t) {
+    case 'line':
+      if (typeof stroke.c !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(stroke.c)) return 'Invalid stroke color';
+      if (typeof stroke.w !== 'number' || !(stroke.w > 0) || stroke.w > 0.2) return 'Invalid stroke width';
+      if (!Array.isArray(stroke.p) || stroke.p.length === 0 || stroke.p.length % 2 !== 0) return 'Invalid stroke points';
+      if (stroke.p.length > MAX_STROKE_POINTS * 2) return 'Too many stroke points';
+      if (!stroke.p.every(isUnit)) return 'Invalid stroke points';
+      if (stroke.e !== undefined && typeof stroke.e !== 'boolean') return 'Invalid eraser flag';
+      if (stroke.s !== undefined && typeof stroke.s !== 'boolean') return 'Invalid smoothing flag';
+      if (stroke.r !== undefined && (!Array.isArray(stroke.r) || stroke.r.length !== stroke.p.length / 2 || !stroke.r.every(isUnit))) return 'Invalid stroke pressure';
+      if (!isOpacity(stroke.a)) return 'Invalid stroke opacity';
+      return null;
+    case 'shape':
+      if (!SHAPE_KINDS.includes(stroke.k)) return 'Invalid shape';
+      if (typeof stroke.c !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(stroke.c)) return 'Invalid shape color';
+      if (typeof stroke.w !== 'number' || !(stroke.w > 0) || stroke.w > 0.2) return 'Invalid shape width';
+      if (!Array.isArray(stroke.p) || stroke.p.length !== 4 || !stroke.p.every(isUnit)) return 'Invalid shape points';
+      if (stroke.f !== undefined && typeof stroke.f !== 'boolean') return 'Invalid shape fill flag';
+      if (!isOpacity(stroke.a)) return 'Invalid shape opacity';
+      return null;
+    case 'fill':
+      if (typeof stroke.c !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(stroke.c)) return 'Invalid fill color';
+      if (!isUnit(stroke.x) || !isUnit(stroke.y)) return 'Invalid fill point';
+      if (stroke.tol !== undefined && !(Number.isInteger(stroke.tol) && stroke.tol >= 0 && stroke.tol <= 255)) return 'Invalid fill tolerance';
+      if (stroke.grow !== undefined && !(Number.isInteger(stroke.grow) && stroke.grow >= 0 && stroke.grow <= 3)) return 'Invalid fill expansion';
+      return null;
+    case 'clear':
+    case 'undo':
+      return null;
+    default:
+      return 'Unknown stroke type';
+  }
+}
+
+module.exports = { validateNickname, validateRoomCode, validateRoundDuration, validateTotalRounds, validatePasscode, validatePromptPack, MAX_PROMPT_PACK_CHARS, validateGameMode, DIFFICULTIES, validateDifficulties, validateStroke };
 
 
 
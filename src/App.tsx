@@ -2,11 +2,16 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import './App.css';
 import DrawingView from './features/draw/DrawingView';
+import type { DrawingTool } from './features/draw/DrawingView';
 import { MenuView } from './features/menu/MenuView';
 import { JoinView } from './features/join/JoinView';
+import { BrowseView } from './features/browse/BrowseView';
 import { LobbyView } from './features/lobby/LobbyView';
 import { ResultsView } from './features/results/ResultsView';
-import { validateNickname, validateRoundDuration } from './lib/validation';
+import { VotingView } from './features/vote/VotingView';
+import { MatchResultsView } from './features/match/MatchResultsView';
+import { WaitingView } from './features/wait/WaitingView';
+import { validateDifficulties, validateNickname, validateRoundDuration, validateTotalRounds } from './lib/validation';
 import { Events } from './lib/constants/events';
 import { getCategoryIcon } from './lib/category';
 import { useSocket } from './lib/useSocket';
@@ -14,6 +19,11 @@ import { useGameStore } from './stores/game';
 import { useGameSocket } from './lib/useGameSocket';
 import { usePortraitLock } from './lib/usePortraitLock';
 import { ConfirmDialog } from './components/ui/ConfirmDialog';
+import type { Difficulty, GameMode } from './types';
+import type { StrokeMessage } from './lib/strokes';
+import { DEFAULT_FILL_TOLERANCE } from './lib/floodFill';
+import { clearDrafts } from './lib/drawingDrafts';
+import { inviteCodeFromSearch } from './lib/invite';
 
 /* ─────────────────────────────────────────────────── */
 /*                    Component                       */
@@ -22,10 +32,10 @@ function App() {
   const navigate = useNavigate();
   const location = useLocation();
   /* --------------- Global / lobby state --------------- */
-  const [view, setView] = useState<'menu' | 'join' | 'lobby' | 'draw' | 'results'>(() => {
+  const [view, setView] = useState<'menu' | 'join' | 'browse' | 'lobby' | 'wait' | 'draw' | 'vote' | 'results' | 'match'>(() => {
     try {
       const p = typeof window !== 'undefined' ? window.location.pathname : '/';
-      return p === '/join' ? 'join' : 'menu';
+      return p === '/join' ? 'join' : p === '/browse' ? 'browse' : 'menu';
     } catch {
       return 'menu';
     }
@@ -40,22 +50,75 @@ function App() {
   const prompt = useGameStore((s) => s.prompt);
   const [timer, setTimer] = useState(60);
   const endsAtMs = useGameStore((s) => s.endsAtMs);
+  const roundId = useGameStore((s) => s.roundId);
+  const waitingRound = useGameStore((s) => s.waitingRound);
   const roundDuration = useGameStore((s) => s.roundDuration);
   const drawings = useGameStore((s) => s.drawings);
-  const category = useGameStore((s) => s.category);
+  const phase = useGameStore((s) => s.phase);
+  const votingEndsAtMs = useGameStore((s) => s.votingEndsAtMs);
+  const votes = useGameStore((s) => s.votes);
+  const winnerIds = useGameStore((s) => s.winnerIds);
+  const myVote = useGameStore((s) => s.myVote);
+  const totalRounds = useGameStore((s) => s.totalRounds);
+  const matchRound = useGameStore((s) => s.matchRound);
+  const matchTotalRounds = useGameStore((s) => s.matchTotalRounds);
+  const standings = useGameStore((s) => s.standings);
+  const nextRoundAtMs = useGameStore((s) => s.nextRoundAtMs);
+  const matchEnded = useGameStore((s) => s.matchEnded);
+  const mode = useGameStore((s) => s.mode);
+  const roundMode = useGameStore((s) => s.roundMode);
+  const drawerId = useGameStore((s) => s.drawerId);
+  const promptHint = useGameStore((s) => s.promptHint);
+  const strokes = useGameStore((s) => s.strokes);
+  const guessedIds = useGameStore((s) => s.guessedIds);
+  const guessResult = useGameStore((s) => s.guessResult);
+  const categories = useGameStore((s) => s.categories);
   const roundCategory = useGameStore((s) => s.roundCategory);
+  const roundDifficulty = useGameStore((s) => s.roundDifficulty);
+  const difficulties = useGameStore((s) => s.difficulties);
+  const promptChoice = useGameStore((s) => s.promptChoice);
+  const promptChoices = useGameStore((s) => s.promptChoices);
+  const choiceEndsAtMs = useGameStore((s) => s.choiceEndsAtMs);
+  const drawingPrompts = useGameStore((s) => s.drawingPrompts);
   const [loading, setLoading] = useState(false);
   const isConnected = useGameStore((s) => s.isConnected);
   const hostId = useGameStore((s) => s.hostId);
   const myId = useGameStore((s) => s.myId);
   const toastMessage = useGameStore((s) => s.toastMessage);
+  const [joinAsSpectator, setJoinAsSpectator] = useState(false);
+  const [joinPasscode, setJoinPasscode] = useState('');
+  const [passcodeRequired, setPasscodeRequired] = useState(false);
+  // Opened an invite link: the join screen asks for the nickname too
+  const [invited, setInvited] = useState(false);
+  const hasPasscode = useGameStore((s) => s.hasPasscode);
+  const lobbyLocked = useGameStore((s) => s.locked);
+  const isPublicRoom = useGameStore((s) => s.isPublic);
+  const promptPack = useGameStore((s) => s.promptPack);
+  const promptDeck = useGameStore((s) => s.deck);
+  const amSpectator = players.some((p) => p.id === myId && p.role === 'spectator');
 
   /* --------------- Canvas / drawing state ------------- */
   const canvasRef = useRef<HTMLCanvasElement>(null) as React.RefObject<HTMLCanvasElement>;
   const [myDrawing, setMyDrawing] = useState<string | null>(null);
   const [brushColor, setBrushColor] = useState('#2563eb');
   const [brushSize, setBrushSize] = useState(8);
-  const [selectedTool, setSelectedTool] = useState<'brush' | 'bucket'>('brush');
+  const [brushOpacity, setBrushOpacity] = useState(1);
+  const [selectedTool, setSelectedTool] = useState<DrawingTool>('brush');
+  const [shapeFilled, setShapeFilled] = useState(false);
+  const [fillTolerance, setFillTolerance] = useState(DEFAULT_FILL_TOLERANCE);
+  const [fillExpand, setFillExpand] = useState(1);
+  const [fillSampleAll, setFillSampleAll] = useState(false);
+  const [smoothing, setSmoothing] = useState<boolean>(() => {
+    try {
+      return typeof window === 'undefined' || window.localStorage.getItem('td.smoothBrush') !== '0';
+    } catch {
+      return true;
+    }
+  });
+  const handleSmoothingChange = useCallback((value: boolean) => {
+    setSmoothing(value);
+    try { window.localStorage.setItem('td.smoothBrush', value ? '1' : '0'); } catch { /* storage unavailable */ }
+  }, []);
   // const isDrawingRef = useRef(false);
   // const lastPoint = useRef<{ x: number; y: number } | null>(null);
 
@@ -70,41 +133,73 @@ function App() {
   useGameSocket(socketRef);
 
   // Drive view changes from store state (server-authoritative)
+  // Joined during a round: wait for the next one. Declared first so a round-end with results wins.
+  useEffect(() => {
+    if (!roomCode) return;
+    if (waitingRound && !endsAtMs) setView('wait');
+    else if (!waitingRound) setView((prev) => (prev === 'wait' ? 'lobby' : prev));
+  }, [roomCode, waitingRound, endsAtMs]);
   useEffect(() => {
     if (roomCode && endsAtMs) {
       setView('draw');
     }
   }, [roomCode, endsAtMs]);
   useEffect(() => {
-    if (roomCode && !endsAtMs && drawings && Object.keys(drawings).length > 0) {
+    if (roomCode && !endsAtMs && votingEndsAtMs) {
+      setView('vote');
+    }
+  }, [roomCode, endsAtMs, votingEndsAtMs]);
+  useEffect(() => {
+    const hasResults = (drawings && Object.keys(drawings).length > 0) || !!guessResult;
+    if (roomCode && phase === 'results' && !endsAtMs && !votingEndsAtMs && !matchEnded && hasResults) {
       setView('results');
     }
-  }, [roomCode, endsAtMs, drawings]);
+  }, [roomCode, phase, endsAtMs, votingEndsAtMs, matchEnded, drawings, guessResult]);
+  useEffect(() => {
+    if (roomCode && phase === 'results' && !endsAtMs && matchEnded) {
+      setView('match');
+    }
+  }, [roomCode, phase, endsAtMs, matchEnded]);
+  // The host brought everyone back to the lobby
+  useEffect(() => {
+    if (roomCode && phase === 'lobby') {
+      setView((prev) => (prev === 'vote' || prev === 'results' || prev === 'match' ? 'lobby' : prev));
+    }
+  }, [roomCode, phase]);
 
   /* --------------- Navigation ------------------------- */
+  // Invite links (/join?code=ABCDE) fill in the room code; the guard below keeps them on /join
+  useEffect(() => {
+    if (roomCode || location.pathname !== '/join') return;
+    const code = inviteCodeFromSearch(location.search);
+    if (!code) return;
+    setInputCode(code);
+    setInvited(true);
+  }, [location.pathname, location.search, roomCode, setInputCode]);
+
   // Navigation + guards
   useEffect(() => {
     const path = location.pathname;
-    // Outside a room: allow only menu/join to be controlled by URL
+    // Outside a room: allow only menu/join/browse to be controlled by URL (the query of /join is left alone)
     if (!roomCode) {
-      const nextView = path === '/' ? 'menu' : path === '/join' ? 'join' : 'menu';
+      const nextView = path === '/join' ? 'join' : path === '/browse' ? 'browse' : 'menu';
       setView((prev) => (prev !== nextView ? nextView : prev));
-      if (path === '/lobby' || path === '/draw' || path === '/results') {
+      if (path === '/lobby' || path === '/wait' || path === '/draw' || path === '/vote' || path === '/results' || path === '/match') {
         navigate('/', { replace: true });
       }
       return;
     }
 
     // In a room: the phase (view) is authoritative; keep URL in sync
-    if (view === 'lobby' || view === 'draw' || view === 'results') {
+    if (view === 'lobby' || view === 'wait' || view === 'draw' || view === 'vote' || view === 'results' || view === 'match') {
       const desired = `/${view}`;
       if (path !== desired) navigate(desired, { replace: true });
       return;
     }
 
-    // Edge: have a room but view is menu/join (e.g., rejoin in progress)
-    if (path === '/' || path === '/join') {
-      if (view !== 'menu' && view !== 'join') navigate('/lobby', { replace: true });
+    // Edge: have a room but view is menu/join/browse (e.g., rejoin in progress)
+    if (path === '/' || path === '/join' || path === '/browse') {
+      if (view !== 'menu' && view !== 'join' && view !== 'browse') navigate('/lobby', { replace: true });
     }
   }, [location.pathname, roomCode, view, navigate]);
 
@@ -118,6 +213,7 @@ function App() {
       socket.emit(Events.LeaveRoom, roomCode);
     }
     try { sessionStorage.removeItem('td.session'); } catch (err) { void err; }
+    void clearDrafts(roomCode);
     setView('menu');
     setRoomCode('');
     setInputCode('');
@@ -133,8 +229,12 @@ function App() {
   // Submit current canvas drawing to server
   const handleSubmitDrawing = useCallback(() => {
     if (!canvasRef.current || !socketRef.current || !roomCode) return;
+    // Guess rounds are streamed live; nothing to submit
+    if (useGameStore.getState().roundMode === 'guess') return;
     const socket = socketRef.current;
     if (!socket) return;
+    // Retries keep the round they were made for; the server rejects them once a new round started
+    const submitRoundId = useGameStore.getState().roundId ?? undefined;
     const submitOnce = (dataUrl: string, attempt: number) => {
       try {
         let settled = false;
@@ -145,10 +245,12 @@ function App() {
         }, 1500);
         socket.emit(
           Events.SubmitDrawing,
-          { code: roomCode, drawing: dataUrl },
+          { code: roomCode, drawing: dataUrl, roundId: submitRoundId },
           (res: { ok: boolean; error?: string } | undefined) => {
             settled = true;
             window.clearTimeout(timer);
+            // A late retry for a round that is over is expected to fail; nothing to report
+            if (res?.error === 'stale-round') return;
             if (!res || !res.ok) {
               // Surface a brief toast for visibility, but don't block the UI
               const reason = res?.error || 'submit-failed';
@@ -164,6 +266,7 @@ function App() {
 
     try {
       const src = canvasRef.current;
+      // The visible canvas already holds the composite of the visible layers (background included).
       // Downscale to a fixed 4:3 export to keep size within server limits
       const EXPORT_W = 800;
       const EXPORT_H = 600;
@@ -188,6 +291,12 @@ function App() {
     }
   }, [roomCode]);
 
+  // Guess mode: apply my own strokes locally (the server relays them to everyone else)
+  const handleStroke = useCallback((msg: StrokeMessage) => {
+    useGameStore.getState().applyStroke(msg);
+    socketRef.current?.emit(Events.DrawStroke, { code: roomCode, stroke: msg });
+  }, [roomCode, socketRef]);
+
   // Auto rejoin handled in useGameSocket
 
   // Socket event listeners handled in useGameSocket
@@ -222,16 +331,17 @@ function App() {
   }, [view, endsAtMs, handleSubmitDrawing, myDrawing]);
 
   /* --------------- Reset per-round local state -------- */
-  // When a new round starts (server sets endsAtMs), clear my local submission and canvas
+  // When a new round starts (new server roundId), clear my local submission and canvas.
+  // A round-start re-sent for the same round (e.g. after a reconnect) keeps both.
   useEffect(() => {
-    if (!endsAtMs) return;
+    if (!roundId) return;
     setMyDrawing(null);
     const canvas = canvasRef.current;
     if (canvas) {
       const ctx = canvas.getContext('2d');
       if (ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
     }
-  }, [endsAtMs]);
+  }, [roundId]);
 
   /* --------------- Validation helpers ---------------- */
   // Imported from lib/validation
@@ -250,13 +360,94 @@ function App() {
     }
   };
 
-  const handleCategoryPrefChange = (cat: string | null) => {
-    useGameStore.getState().applySettingsUpdate({ category: cat ?? null });
+  const handleTotalRoundsChange = (rounds: number) => {
+    const error = validateTotalRounds(rounds);
+    if (error) return;
+    useGameStore.getState().applySettingsUpdate({ totalRounds: rounds });
+    if ((myId && hostId && myId === hostId) && socketRef.current && roomCode) {
+      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, totalRounds: rounds });
+    }
+  };
+
+  const handleCategoriesChange = (list: string[]) => {
+    useGameStore.getState().applySettingsUpdate({ category: list });
+    if ((myId && hostId && myId === hostId) && socketRef.current && roomCode) {
+      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, category: list });
+    }
+  };
+
+  const handleModeChange = (next: GameMode) => {
+    useGameStore.getState().applySettingsUpdate({ mode: next });
+    if ((myId && hostId && myId === hostId) && socketRef.current && roomCode) {
+      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, mode: next });
+    }
+  };
+
+  const handleDifficultiesChange = (next: Difficulty[]) => {
+    if (validateDifficulties(next)) return;
+    useGameStore.getState().applySettingsUpdate({ difficulties: next });
     if ((myId && hostId && myId === hostId) && socketRef.current && roomCode) {
-      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, category: cat });
+      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, difficulties: next });
     }
   };
 
+  const handlePromptChoiceChange = (next: boolean) => {
+    useGameStore.getState().applySettingsUpdate({ promptChoice: next });
+    if ((myId && hostId && myId === hostId) && socketRef.current && roomCode) {
+      socketRef.current.emit(Events.UpdateSettings, { code: roomCode, promptChoice: next });
+    }
+  };
+
+  // The server answers with prompt-chosen, which replaces the choices with the prompt
+  const handleChoosePrompt = (index: number) => {
+    const socket = socketRef.current;
+    const roundId = useGameStore.getState().roundId;
+    if (!socket || !roomCode || !roundId) return;
+    socket.emit(Events.ChoosePrompt, { code: roomCode, roundId, index }, (res: { ok: boolean; error?: string } | undefined) => {
+      // Too late: the server already picked one and sends it
+      if (res?.ok || res?.error === 'already-chosen') return;
+      useGameStore.getState().setToast(`Could not pick the prompt (${res?.error || 'action-failed'}).`);
+      window.setTimeout(() => useGameStore.getState().setToast(null), 2000);
+    });
+  };
+
+  const handlePasscodeChange = (passcode: string | null) => {
+    if (!(myId && hostId && myId === hostId) || !socketRef.current || !roomCode) return;
+    useGameStore.getState().applySettingsUpdate({ hasPasscode: !!passcode });
+    socketRef.current.emit(Events.UpdateSettings, { code: roomCode, passcode });
+  };
+
+  const handleLockedChange = (locked: boolean) => {
+    if (!(myId && hostId && myId === hostId) || !socketRef.current || !roomCode) return;
+    useGameStore.getState().applySettingsUpdate({ locked });
+    socketRef.current.emit(Events.UpdateSettings, { code: roomCode, locked });
+  };
+
+  // The server parses and checks the list, then answers with settings-update. The pack is only picked
+  // as the category while nothing else is; otherwise the server keeps the categories that still exist.
+  const handlePromptPackChange = (text: string | null) => {
+    if (!(myId && hostId && myId === hostId) || !socketRef.current || !roomCode) return;
+    const pickPack = !!text && categories.length === 0;
+    socketRef.current.emit(Events.UpdateSettings, { code: roomCode, promptPack: text, ...(pickPack ? { category: ['custom'] } : {}) });
+  };
+
+  // The server answers with settings-update carrying the full deck count
+  const handleResetDeck = () => {
+    const socket = socketRef.current;
+    if (!socket || !roomCode || !(myId && hostId && myId === hostId)) return;
+    socket.emit(Events.ResetDeck, { code: roomCode }, (res: { ok: boolean; error?: string } | undefined) => {
+      if (res?.ok) return;
+      useGameStore.getState().setToast(`Could not reset the deck (${res?.error || 'action-failed'}).`);
+      window.setTimeout(() => useGameStore.getState().setToast(null), 2000);
+    });
+  };
+
+  const handlePublicChange = (isPublic: boolean) => {
+    if (!(myId && hostId && myId === hostId) || !socketRef.current || !roomCode) return;
+    useGameStore.getState().applySettingsUpdate({ isPublic });
+    socketRef.current.emit(Events.UpdateSettings, { code: roomCode, isPublic });
+  };
+
   /* --------------- Room helpers ---------------------- */
   
 
@@ -331,9 +522,21 @@ function App() {
     navigate('/join');
   };
 
-  const handleJoinRoom = () => {
+  const handleGoToBrowse = () => {
+    const error = validateNickname(nickname);
+    if (error) {
+      setNicknameError(error);
+      return;
+    }
+    setJoinError('');
+    setView('browse');
+    navigate('/browse');
+  };
+
+  const joinRoom = (rawCode: string, onPasscodeRequired?: () => void) => {
+    const code = rawCode.trim().toUpperCase();
     setJoinError('');
-    if (!inputCode.trim()) {
+    if (!code) {
       setJoinError('Please enter a room code');
       return;
     }
@@ -346,14 +549,14 @@ function App() {
     }
     
     const socket = socketRef.current;
-    if (!socket || !nickname || !inputCode) return;
+    if (!socket || !nickname || !code) return;
     setLoading(true);
     // Clear per-room ephemeral state before the server sends lobby updates
     // to avoid wiping freshly received players/host after ACK.
     useGameStore.getState().clearPerRoomState();
     socket.emit(
       Events.JoinRoom,
-      { code: inputCode.trim().toUpperCase(), nickname: nickname.trim() },
+      { code, nickname: nickname.trim(), spectator: joinAsSpectator, passcode: passcodeRequired ? joinPasscode : undefined },
       (res: { success: boolean; error?: string; myId?: string; token?: string } & Record<string, unknown>) => {
         setLoading(false);
         if (res.success) {
@@ -363,7 +566,9 @@ function App() {
               ?? (res.id as string | undefined);
             if (respMyId) useGameStore.getState().setMyId(respMyId);
           }
-          setRoomCode(inputCode.trim().toUpperCase());
+          setRoomCode(code);
+          setPasscodeRequired(false);
+          setJoinPasscode('');
           // Do not rely on local isHost; derive from myId and hostId.
           // Persist session for auto-rejoin
           try {
@@ -372,22 +577,41 @@ function App() {
               ?? (res.id as string | undefined);
             if (respMyId && res.token) {
               sessionStorage.setItem('td.session', JSON.stringify({
-                code: inputCode.trim().toUpperCase(),
+                code,
                 myId: respMyId,
                 nickname: nickname.trim(),
                 token: res.token,
                 isHost: false,
+                spectator: joinAsSpectator,
               }));
             }
           } catch (err) { void err; }
-          setView('lobby');
+          setView(useGameStore.getState().waitingRound ? 'wait' : 'lobby');
         } else {
+          // Private rooms answer with error codes; ask for the passcode instead of failing
+          if (res.error === 'passcode-required' || res.error === 'wrong-passcode') {
+            setPasscodeRequired(true);
+            setJoinError(res.error === 'wrong-passcode' ? 'Wrong passcode' : 'This room needs a passcode');
+            onPasscodeRequired?.();
+            return;
+          }
           setJoinError(res.error || 'Failed to join room');
         }
       }
     );
   };
 
+  const handleJoinRoom = () => joinRoom(inputCode);
+
+  // Joins from the room browser; a room that asks for a passcode after all continues on the join screen
+  const handleBrowseJoin = (code: string) => {
+    setInputCode(code);
+    joinRoom(code, () => {
+      setView('join');
+      navigate('/join');
+    });
+  };
+
   const handleToggleReady = () => {
     socketRef.current?.emit(Events.ToggleReady, roomCode);
   };
@@ -396,13 +620,44 @@ function App() {
     if (myId && hostId && myId === hostId) socketRef.current?.emit(Events.StartRound, { code: roomCode });
   };
 
+  // Host moderation; the server checks that we are the host
+  const handleModeration = (event: string, playerId: string) => {
+    const socket = socketRef.current;
+    if (!socket || !roomCode) return;
+    socket.emit(event, { code: roomCode, playerId }, (res: { ok: boolean; error?: string } | undefined) => {
+      if (res?.ok) return;
+      const reason = res?.error || 'action-failed';
+      useGameStore.getState().setToast(`Action failed (${reason}).`);
+      window.setTimeout(() => useGameStore.getState().setToast(null), 2000);
+    });
+  };
+
+  const handleReturnToLobby = () => {
+    const socket = socketRef.current;
+    if (!socket || !roomCode || !(myId && hostId && myId === hostId)) return;
+    socket.emit(Events.ReturnToLobby, { code: roomCode }, (res: { ok: boolean; error?: string } | undefined) => {
+      if (res?.ok) return;
+      useGameStore.getState().setToast(`Could not return to the lobby (${res?.error || 'action-failed'}).`);
+      window.setTimeout(() => useGameStore.getState().setToast(null), 2000);
+    });
+  };
+
+  const handleVote = (targetId: string) => {
+    const socket = socketRef.current;
+    if (!socket || !roomCode) return;
+    socket.emit(Events.SubmitVote, { code: roomCode, targetId }, (res: { ok: boolean; error?: string } | undefined) => {
+      if (res?.ok) {
+        useGameStore.getState().setMyVote(targetId);
+      } else {
+        const reason = res?.error || 'vote-failed';
+        useGameStore.getState().setToast(`Vote failed (${reason}).`);
+        window.setTimeout(() => useGameStore.getState().setToast(null), 2000);
+      }
+    });
+  };
+
+  // The drawing document repaints the canvas (background included) on Clear
   const handleClearCanvas = () => {
-    if (canvasRef.current) {
-      const vis = canvasRef.current;
-      const ctx = vis.getContext('2d');
-      ctx?.clearRect(0, 0, vis.width, vis.height);
-      // visible canvas is the drawing surface; nothing else to clear
-    }
     setMyDrawing(null);
   };
 
@@ -500,6 +755,7 @@ function App() {
             onNicknameChange={handleNicknameChange}
             onCreate={handleHostRoom}
             onJoin={handleGoToJoin}
+            onBrowse={handleGoToBrowse}
           />
         </>
       )}
@@ -512,9 +768,30 @@ function App() {
           setInputCode={(v) => {
             setJoinError('');
             setInputCode(v);
+            // Another room may not have a passcode
+            setPasscodeRequired(false);
+            setJoinPasscode('');
           }}
+          passcodeRequired={passcodeRequired}
+          passcode={joinPasscode}
+          setPasscode={(v) => {
+            setJoinError('');
+            setJoinPasscode(v);
+          }}
+          spectator={joinAsSpectator}
+          onSpectatorChange={setJoinAsSpectator}
+          onNicknameChange={invited ? handleNicknameChange : undefined}
           onJoin={handleJoinRoom}
-          onBack={() => { setView('menu'); navigate('/'); }}
+          onBack={() => { setInvited(false); setView('menu'); navigate('/'); }}
+        />
+      )}
+
+      {view === 'browse' && (
+        <BrowseView
+          nickname={nickname}
+          joinError={joinError}
+          onJoinRoom={handleBrowseJoin}
+          onBack={() => { setJoinError(''); setView('menu'); navigate('/'); }}
         />
       )}
 
@@ -524,14 +801,53 @@ function App() {
           roomCode={roomCode}
           isHost={!!myId && !!hostId && myId === hostId}
           roundDuration={roundDuration}
-          category={category}
+          categories={categories}
+          totalRounds={totalRounds}
+          mode={mode}
           onRoundDurationChange={handleRoundDurationChange}
-          onCategoryChange={handleCategoryPrefChange}
+          onCategoriesChange={handleCategoriesChange}
+          onTotalRoundsChange={handleTotalRoundsChange}
+          onModeChange={handleModeChange}
+          difficulties={difficulties}
+          onDifficultiesChange={handleDifficultiesChange}
+          promptChoice={promptChoice}
+          onPromptChoiceChange={handlePromptChoiceChange}
+          hasPasscode={hasPasscode}
+          locked={lobbyLocked}
+          onPasscodeChange={handlePasscodeChange}
+          onLockedChange={handleLockedChange}
+          isPublic={isPublicRoom}
+          onPublicChange={handlePublicChange}
+          promptPack={promptPack}
+          onPromptPackChange={handlePromptPackChange}
+          deck={promptDeck}
+          onResetDeck={handleResetDeck}
           onStart={handleStartRound}
           onToggleReady={handleToggleReady}
           onQuit={handleBack}
           myId={myId ?? undefined}
           hostId={hostId ?? undefined}
+          onKick={(id) => handleModeration(Events.KickPlayer, id)}
+          onBan={(id) => handleModeration(Events.BanPlayer, id)}
+          onMakeHost={(id) => handleModeration(Events.TransferHost, id)}
+        />
+      )}
+
+      {view === 'wait' && waitingRound && (
+        <WaitingView
+          players={players}
+          myId={myId ?? undefined}
+          hostId={hostId ?? undefined}
+          endsAtMs={waitingRound.endsAt}
+          round={matchRound}
+          totalRounds={matchTotalRounds}
+          mode={waitingRound.mode}
+          spectating={amSpectator}
+          chatMessages={chatMessages}
+          chatInput={chatInput}
+          setChatInput={setChatInput}
+          handleSendChat={handleSendChat}
+          onQuit={handleBack}
         />
       )}
 
@@ -544,6 +860,19 @@ function App() {
           onChangeColor={setBrushColor}
           onChangeBrushSize={setBrushSize}
           onChangeTool={setSelectedTool}
+          shapeFilled={shapeFilled}
+          onChangeShapeFilled={setShapeFilled}
+          opacity={brushOpacity}
+          onChangeOpacity={setBrushOpacity}
+          autosave={roomCode && myId && roundId && endsAtMs && roundMode === 'classic' ? { code: roomCode, playerId: myId, roundId } : null}
+          smoothing={smoothing}
+          onChangeSmoothing={handleSmoothingChange}
+          fillTolerance={fillTolerance}
+          onChangeFillTolerance={setFillTolerance}
+          fillExpand={fillExpand}
+          onChangeFillExpand={setFillExpand}
+          fillSampleAll={fillSampleAll}
+          onChangeFillSampleAll={setFillSampleAll}
           onClear={handleClearCanvas}
           onSubmit={handleSubmitDrawing}
           canSubmit={!myDrawing && timer > 0}
@@ -552,6 +881,10 @@ function App() {
           totalDuration={roundDuration}
           prompt={prompt}
           category={roundCategory}
+          difficulty={roundDifficulty}
+          promptChoices={promptChoices}
+          choiceEndsAtMs={choiceEndsAtMs}
+          onChoosePrompt={handleChoosePrompt}
           getCategoryIcon={getCategoryIcon}
           canvasRef={canvasRef}
           onQuit={handleBack}
@@ -560,6 +893,30 @@ function App() {
           setChatInput={setChatInput}
           handleSendChat={handleSendChat}
           myId={myId ?? undefined}
+          mode={roundMode}
+          isDrawer={!!myId && myId === drawerId}
+          drawerName={players.find((p) => p.id === drawerId)?.nickname}
+          promptHint={promptHint}
+          guessedCount={guessedIds.length}
+          guesserCount={Math.max(0, players.filter((p) => p.role !== 'spectator' && !p.waiting).length - 1)}
+          hasGuessed={!!myId && guessedIds.includes(myId)}
+          strokes={strokes}
+          onStroke={handleStroke}
+        />
+      )}
+
+      {view === 'vote' && (
+        <VotingView
+          drawings={drawings}
+          players={players}
+          prompt={prompt}
+          prompts={drawingPrompts}
+          myId={myId ?? undefined}
+          myVote={myVote}
+          votingEndsAtMs={votingEndsAtMs}
+          onVote={handleVote}
+          onQuit={handleBack}
+          spectating={amSpectator}
         />
       )}
 
@@ -567,13 +924,47 @@ function App() {
         <ResultsView
           drawings={drawings}
           players={players}
+          votes={votes}
+          winnerIds={winnerIds}
+          guessResult={guessResult}
+          strokes={strokes}
           prompt={prompt}
+          prompts={drawingPrompts}
           isHost={!!myId && !!hostId && myId === hostId}
+          myId={myId ?? undefined}
+          matchRound={matchRound}
+          matchTotalRounds={matchTotalRounds}
+          standings={standings}
+          nextRoundAtMs={nextRoundAtMs}
           roundDuration={roundDuration}
-          category={category}
+          categories={categories}
+          totalRounds={totalRounds}
+          mode={mode}
           onRoundDurationChange={handleRoundDurationChange}
-          onCategoryChange={handleCategoryPrefChange}
+          onCategoriesChange={handleCategoriesChange}
+          onTotalRoundsChange={handleTotalRoundsChange}
+          onModeChange={handleModeChange}
+          difficulties={difficulties}
+          onDifficultiesChange={handleDifficultiesChange}
+          promptChoice={promptChoice}
+          onPromptChoiceChange={handlePromptChoiceChange}
+          promptPack={promptPack}
+          deck={promptDeck}
+          onResetDeck={handleResetDeck}
+          onStartNext={handleStartRound}
+          onBackToLobby={handleReturnToLobby}
+          onQuit={handleBack}
+        />
+      )}
+
+      {view === 'match' && (
+        <MatchResultsView
+          standings={standings}
+          totalRounds={matchTotalRounds}
+          isHost={!!myId && !!hostId && myId === hostId}
+          myId={myId ?? undefined}
           onStartNext={handleStartRound}
+          onBackToLobby={handleReturnToLobby}
           onQuit={handleBack}
         />
       )}
@@ -0,0 +1,98 @@
+/**
+ * Clearing the canvas and then submitting: the drawing document repaints the white background on
+ * Clear, and the submitted image must still carry it.
+ *
+ * Follows TESTING.md conventions: user-centric queries, Arrange/Act/Assert,
+ * mock sockets/time/network, and reset state between tests.
+ */
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { useGameStore } from '../stores/game';
+
+// Socket mocked; join-room and submit-drawing acks succeed and every emit is recorded
+const { emit } = vi.hoisted(() => ({
+  emit: vi.fn((event: string, ...args: unknown[]) => {
+    const cb = args[1] as ((res: unknown) => void) | undefined;
+    if (event === 'join-room' && typeof cb === 'function') {
+      setTimeout(() => cb({ success: true, myId: 'me', token: 't' }), 0);
+    } else if (event === 'submit-drawing' && typeof cb === 'function') {
+      setTimeout(() => cb({ ok: true }), 0);
+    }
+  }),
+}));
+vi.mock('../lib/useSocket', () => {
+  const ref = { current: { on: vi.fn(), emit, connect: vi.fn(), disconnect: vi.fn(), connected: true } };
+  return { useSocket: () => ref };
+});
+vi.mock('../lib/useGameSocket', () => ({ useGameSocket: () => {} }));
+
+// Import App after mocks are registered
+import App from '../App';
+
+// JSDOM has no 2D canvas. The fake only tracks whether a canvas holds any paint: fills and copies
+// of painted canvases paint it, clearRect wipes it, and toDataURL reports which one it is.
+const painted = new WeakMap<HTMLCanvasElement, boolean>();
+function fakeContext(canvas: HTMLCanvasElement) {
+  return new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => {
+      if (key === 'canvas') return canvas;
+      if (key === 'clearRect') return () => painted.set(canvas, false);
+      if (key === 'fillRect') return () => painted.set(canvas, true);
+      if (key === 'drawImage') return (src: unknown) => { if (src instanceof HTMLCanvasElement && painted.get(src)) painted.set(canvas, true); };
+      if (key === 'getImageData') return () => ({ data: new Uint8ClampedArray(4) });
+      return key in target ? target[key] : vi.fn();
+    },
+  });
+}
+
+let initialState: ReturnType<typeof useGameStore.getState>;
+
+beforeAll(() => {
+  initialState = useGameStore.getState();
+});
+
+beforeEach(() => {
+  Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+    value: function (this: HTMLCanvasElement) { return fakeContext(this); },
+    configurable: true,
+  });
+  Object.defineProperty(HTMLCanvasElement.prototype, 'toDataURL', {
+    value: function (this: HTMLCanvasElement) { return painted.get(this) ? 'data:image/webp;base64,PAINTED' : 'data:image/webp;base64,BLANK'; },
+    configurable: true,
+  });
+  Object.defineProperty(Element.prototype, 'scrollIntoView', { value: vi.fn(), configurable: true });
+});
+
+afterEach(() => {
+  useGameStore.setState(initialState, true);
+  emit.mockClear();
+  try { sessionStorage.clear(); } catch { /* no-op */ }
+});
+
+describe('App clear and submit', () => {
+  it('submits the white background after clearing the canvas', async () => {
+    // Arrange: join a room and start a round
+    useGameStore.getState().setNickname('Alex');
+    useGameStore.getState().setInputCode('ABCDE');
+    render(
+      <MemoryRouter initialEntries={['/join']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /^join$/i }));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+    useGameStore.getState().roundStart({ roundId: 'r1', prompt: 'Cat', duration: 60, endsAt: Date.now() + 60000 });
+    const submit = await screen.findByRole('button', { name: /submit drawing/i });
+
+    // Act: clear the canvas, confirm, then submit
+    await userEvent.click(screen.getAllByRole('button', { name: /^clear$/i })[0]);
+    await userEvent.click(within(screen.getByRole('dialog', { name: /clear drawing/i })).getByRole('button', { name: /^clear$/i }));
+    await userEvent.click(submit);
+
+    // Assert: the submitted image is not blank
+    const call = emit.mock.calls.find(([event]) => event === 'submit-drawing');
+    expect(call?.[1]).toMatchObject({ code: 'ABCDE', drawing: 'data:image/webp;base64,PAINTED' });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Invite links (/join?code=ABCDE): the code is filled in, the nickname is asked on the
+ * join screen, and joining lands in the Lobby.
+ *
+ * Follows TESTING.md conventions: user-centric queries, Arrange/Act/Assert,
+ * mock sockets/time/network, and reset state between tests.
+ */
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { useGameStore } from '../stores/game';
+
+// Socket mocked; join-room acks succeed and the payloads are recorded
+const { emit } = vi.hoisted(() => ({
+  emit: vi.fn((event: string, ...args: unknown[]) => {
+    const cb = args[1] as ((res: { success: boolean; myId?: string; token?: string }) => void) | undefined;
+    if (event === 'join-room' && typeof cb === 'function') {
+      setTimeout(() => cb({ success: true, myId: 'me', token: 't' }), 0);
+    }
+  }),
+}));
+vi.mock('../lib/useSocket', () => {
+  const ref = { current: { on: vi.fn(), emit, connect: vi.fn(), disconnect: vi.fn(), connected: true } };
+  return { useSocket: () => ref };
+});
+vi.mock('../lib/useGameSocket', () => ({ useGameSocket: () => {} }));
+
+// Import App after mocks are registered
+import App from '../App';
+
+let initialState: ReturnType<typeof useGameStore.getState>;
+
+beforeAll(() => {
+  initialState = useGameStore.getState();
+});
+
+afterEach(() => {
+  useGameStore.setState(initialState, true);
+  emit.mockClear();
+  try { sessionStorage.clear(); } catch { /* no-op */ }
+});
+
+describe('App invite links', () => {
+  it('prefills the room code, asks for a nickname and joins', async () => {
+    // Arrange: open the invite link without a nickname
+    render(
+      <MemoryRouter initialEntries={['/join?code=abcde']}>
+        <App />
+      </MemoryRouter>
+    );
+    expect(screen.getByRole('heading', { name: /join room/i })).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('ABCDE')).toHaveValue('ABCDE');
+    const join = screen.getByRole('button', { name: /^join$/i });
+    expect(join).toBeDisabled();
+
+    // Act: enter a nickname and join
+    await userEvent.type(screen.getByLabelText(/^nickname$/i), 'Alex');
+    await userEvent.click(join);
+
+    // Assert: joined the invited room and moved to the Lobby
+    expect(emit).toHaveBeenCalledWith('join-room', expect.objectContaining({ code: 'ABCDE', nickname: 'Alex' }), expect.any(Function));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+  });
+
+  it('ignores a malformed code and shows the plain join screen', () => {
+    useGameStore.getState().setNickname('Alex');
+    render(
+      <MemoryRouter initialEntries={['/join?code=nope!']}>
+        <App />
+      </MemoryRouter>
+    );
+    expect(screen.getByRole('heading', { name: /join room/i })).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('ABCDE')).toHaveValue('');
+    expect(screen.getByText(/playing as:/i)).toBeInTheDocument();
+  });
+
+  it('goes back to the Menu from an invite link', async () => {
+    render(
+      <MemoryRouter initialEntries={['/join?code=ABCDE']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /back/i }));
+    expect(screen.getByRole('heading', { name: /timed doodle/i })).toBeInTheDocument();
+  });
+});
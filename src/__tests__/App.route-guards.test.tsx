@@ -1,5 +1,5 @@
 /**
- * Route guards and phase transitions (Join → Lobby → Draw → Results)
+ * Route guards and phase transitions (Join → Lobby → Draw → Vote → Results → Match)
  *
  * Follows TESTING.md conventions: user-centric queries, Arrange/Act/Assert,
  * mock sockets/time/network, and reset state between tests.
@@ -123,6 +123,24 @@ describe('App route guards (roomless redirects)', () => {
     expect(screen.getByRole('heading', { name: /timed doodle/i })).toBeInTheDocument();
   });
 
+  it('redirects roomless user from /vote to Menu', () => {
+    render(
+      <MemoryRouter initialEntries={['/vote']}>
+        <App />
+      </MemoryRouter>
+    );
+    expect(screen.getByRole('heading', { name: /timed doodle/i })).toBeInTheDocument();
+  });
+
+  it('redirects roomless user from /match to Menu', () => {
+    render(
+      <MemoryRouter initialEntries={['/match']}>
+        <App />
+      </MemoryRouter>
+    );
+    expect(screen.getByRole('heading', { name: /timed doodle/i })).toBeInTheDocument();
+  });
+
   it('allows /join when roomless and shows Join view', () => {
     render(
       <MemoryRouter initialEntries={['/join']}>
@@ -191,6 +209,109 @@ describe('App guarded navigation (in-room phases)', () => {
     expect(await screen.findByRole('heading', { name: /results/i })).toBeInTheDocument();
   });
 
+  it('transitions to Vote when the round ends with voting, then to Results when voting ends', async () => {
+    // Arrange: join to reach Lobby first
+    useGameStore.getState().setNickname('Alex');
+    useGameStore.getState().setInputCode('ABCDE');
+    render(
+      <MemoryRouter initialEntries={['/join']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /^join$/i }));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+
+    // Act: server ends round and opens voting
+    useGameStore.getState().roundEnd({
+      drawings: { me: 'data:image/png;base64,AAA', p2: 'data:image/png;base64,BBB' },
+      votingEndsAt: Date.now() + 20000,
+    });
+
+    // Assert: Vote heading visible
+    expect(await screen.findByRole('heading', { name: /^vote$/i })).toBeInTheDocument();
+
+    // Act: server closes voting
+    useGameStore.getState().votingEnd({ votes: { me: 0, p2: 1 }, winnerIds: ['p2'] });
+
+    // Assert: Results heading visible
+    expect(await screen.findByRole('heading', { name: /results/i })).toBeInTheDocument();
+  });
+
+  it('transitions to Results when a guess round ends without drawings', async () => {
+    // Arrange: join and start a guess round drawn by another player
+    useGameStore.getState().setNickname('Alex');
+    useGameStore.getState().setInputCode('ABCDE');
+    render(
+      <MemoryRouter initialEntries={['/join']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /^join$/i }));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+    useGameStore.getState().roundStart({ prompt: '', hint: '___', mode: 'guess', drawerId: 'p2', duration: 60, endsAt: Date.now() + 60000 });
+    expect(await screen.findByRole('region', { name: /draw view/i })).toBeInTheDocument();
+
+    // Act: server reveals the word
+    useGameStore.getState().roundEnd({ drawings: {}, guess: { drawerId: 'p2', prompt: 'Cat', guessedIds: ['me'], points: { me: 8, p2: 3 } } });
+
+    // Assert: Results heading visible and the word is revealed in the store
+    expect(await screen.findByRole('heading', { name: /results/i })).toBeInTheDocument();
+    expect(useGameStore.getState().prompt).toBe('Cat');
+  });
+
+  it('transitions to Match results when the match ends', async () => {
+    // Arrange: join and finish the last round of a match
+    useGameStore.getState().setNickname('Alex');
+    useGameStore.getState().setInputCode('ABCDE');
+    render(
+      <MemoryRouter initialEntries={['/join']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /^join$/i }));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+    useGameStore.getState().roundStart({ prompt: 'Cat', duration: 60, endsAt: Date.now() + 60000, round: 3, totalRounds: 3 });
+    useGameStore.getState().roundEnd({ drawings: { me: 'data:image/png;base64,AAA' } });
+    expect(await screen.findByRole('heading', { name: /results/i })).toBeInTheDocument();
+
+    // Act: server announces the podium
+    useGameStore.getState().matchEnd({
+      standings: [
+        { id: 'p2', nickname: 'Sam', score: 4 },
+        { id: 'me', nickname: 'Alex', score: 2 },
+      ],
+    });
+
+    // Assert: Match results with podium
+    expect(await screen.findByRole('heading', { name: /match results/i })).toBeInTheDocument();
+    expect(screen.getByRole('listitem', { name: /place 1: sam/i })).toBeInTheDocument();
+  });
+
+  it('returns everyone to the Lobby when the room goes back to the lobby phase', async () => {
+    // Arrange: join and reach the match podium
+    useGameStore.getState().setNickname('Alex');
+    useGameStore.getState().setInputCode('ABCDE');
+    render(
+      <MemoryRouter initialEntries={['/join']}>
+        <App />
+      </MemoryRouter>
+    );
+    await userEvent.click(screen.getByRole('button', { name: /^join$/i }));
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+    useGameStore.getState().roundStart({ prompt: 'Cat', duration: 60, endsAt: Date.now() + 60000, round: 3, totalRounds: 3 });
+    useGameStore.getState().roundEnd({ drawings: { me: 'data:image/png;base64,AAA' } });
+    useGameStore.getState().matchEnd({ standings: [{ id: 'me', nickname: 'Alex', score: 2 }] });
+    expect(await screen.findByRole('heading', { name: /match results/i })).toBeInTheDocument();
+
+    // Act: the host sends everyone back
+    useGameStore.getState().roomPhase({ phase: 'lobby' });
+
+    // Assert: Lobby again, with the results dropped
+    expect(await screen.findByRole('heading', { name: /lobby/i })).toBeInTheDocument();
+    expect(useGameStore.getState().drawings).toEqual({});
+    expect(useGameStore.getState().matchEnded).toBe(false);
+  });
+
   it('returns to Menu when leaving the room', async () => {
     // Arrange: join and start a round to be in Draw
     useGameStore.getState().setNickname('Alex');
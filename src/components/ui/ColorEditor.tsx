@@ -0,0 +1,161 @@
+import { useId, useRef, useState } from 'react';
+import type { JSX } from 'react';
+import { hexToHsv, hsvToHex, parseColor } from '../../lib/color';
+import type { Hsv } from '../../lib/color';
+
+type ColorEditorProps = {
+  value: string;
+  onChange: (hexColor: string) => void;
+  // Called once a color is settled (drag released, hex entered) so it can go into recent colors
+  onCommit?: (hexColor: string) => void;
+  opacity?: number; // 0..1
+  onOpacityChange?: (opacity: number) => void;
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Saturation/brightness square, hue slider, hex/RGB field and optional opacity slider
+export function ColorEditor({ value, onChange, onCommit, opacity, onOpacityChange }: ColorEditorProps): JSX.Element {
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(value));
+  const [syncedHex, setSyncedHex] = useState(value);
+  const [draft, setDraft] = useState(value);
+  const [invalid, setInvalid] = useState(false);
+  const squareRef = useRef<HTMLDivElement>(null);
+  const errorId = useId();
+
+  // Follow outside changes (swatches, eyedropper) without losing the hue of greys
+  if (value.toLowerCase() !== syncedHex.toLowerCase()) {
+    setSyncedHex(value);
+    setHsv(hexToHsv(value));
+    setDraft(value);
+    setInvalid(false);
+  }
+
+  const emit = (next: Hsv) => {
+    const hex = hsvToHex(next);
+    setHsv(next);
+    setSyncedHex(hex);
+    setDraft(hex);
+    setInvalid(false);
+    onChange(hex);
+    return hex;
+  };
+
+  const pickFromPointer = (clientX: number, clientY: number) => {
+    const rect = squareRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+    emit({ ...hsv, s: clamp01((clientX - rect.left) / rect.width), v: clamp01(1 - (clientY - rect.top) / rect.height) });
+  };
+
+  const handleSquareKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 0.1 : 0.02;
+    const moves: Record<string, Partial<Hsv>> = {
+      ArrowLeft: { s: clamp01(hsv.s - step) },
+      ArrowRight: { s: clamp01(hsv.s + step) },
+      ArrowUp: { v: clamp01(hsv.v + step) },
+      ArrowDown: { v: clamp01(hsv.v - step) },
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    onCommit?.(emit({ ...hsv, ...move }));
+  };
+
+  const commitDraft = () => {
+    const hex = parseColor(draft);
+    if (!hex) {
+      setInvalid(true);
+      return;
+    }
+    setHsv(hexToHsv(hex));
+    setSyncedHex(hex);
+    setDraft(hex);
+    setInvalid(false);
+    onChange(hex);
+    onCommit?.(hex);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        ref={squareRef}
+        className="cp-square"
+        style={{ backgroundColor: `hsl(${Math.round(hsv.h)}, 100%, 50%)` }}
+        role="slider"
+        tabIndex={0}
+        aria-label="Saturation and brightness"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(hsv.s * 100)}
+        aria-valuetext={`Saturation ${Math.round(hsv.s * 100)}%, brightness ${Math.round(hsv.v * 100)}%`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture?.(e.pointerId);
+          pickFromPointer(e.clientX, e.clientY);
+        }}
+        onPointerMove={(e) => {
+          if (e.buttons & 1) pickFromPointer(e.clientX, e.clientY);
+        }}
+        onPointerUp={() => onCommit?.(syncedHex)}
+        onKeyDown={handleSquareKeyDown}
+      >
+        <span className="cp-square-thumb" style={{ left: `${hsv.s * 100}%`, top: `${(1 - hsv.v) * 100}%`, backgroundColor: value }} />
+      </div>
+      <input
+        className="range cp-hue"
+        type="range"
+        min={0}
+        max={359}
+        value={Math.round(hsv.h)}
+        onChange={(e) => emit({ ...hsv, h: Number(e.target.value) })}
+        onPointerUp={() => onCommit?.(syncedHex)}
+        onKeyUp={() => onCommit?.(syncedHex)}
+        aria-label="Hue"
+      />
+      <div className="flex items-center gap-2">
+        <input
+          className="input flex-1 min-w-0"
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setInvalid(false);
+          }}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commitDraft();
+            }
+          }}
+          aria-label="Hex or RGB color"
+          aria-invalid={invalid}
+          aria-describedby={invalid ? errorId : undefined}
+          spellCheck={false}
+          autoComplete="off"
+          maxLength={24}
+        />
+      </div>
+      {invalid && (
+        <div id={errorId} className="text-sm text-red-600" role="alert">
+          Use #rrggbb, #rgb or r, g, b
+        </div>
+      )}
+      {onOpacityChange && (
+        <div>
+          <div className="text-sm text-slate-600">Opacity: {Math.round((opacity ?? 1) * 100)}%</div>
+          <input
+            className="range"
+            type="range"
+            min={5}
+            max={100}
+            value={Math.round((opacity ?? 1) * 100)}
+            onChange={(e) => onOpacityChange(Number(e.target.value) / 100)}
+            aria-label="Opacity"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ColorEditor;
@@ -1,6 +1,9 @@
-import { useMemo } from 'react';
+import { useState } from 'react';
 import type { JSX } from 'react';
 import { Palette, Pipette } from 'lucide-react';
+import { DEFAULT_PALETTE } from '../../lib/constants/palette';
+import { useRecentColors } from '../../stores/recentColors';
+import { ColorEditor } from './ColorEditor';
 
 type ColorPickerProps = {
   value: string;
@@ -9,47 +12,21 @@ type ColorPickerProps = {
   palette?: string[];
   isEyedropperActive?: boolean;
   onEyedropperToggle?: () => void;
+  // Brush opacity (0..1); the slider is only shown when a handler is given
+  opacity?: number;
+  onOpacityChange?: (opacity: number) => void;
 };
 
-export function ColorPicker({ value, onChange, label = 'Color', palette, isEyedropperActive, onEyedropperToggle }: ColorPickerProps): JSX.Element {
-  const defaultPalette = useMemo(() => (
-    [
-      // Row 1: Primaries & brights
-      '#DC2626', // Red
-      '#F97316', // Orange
-      '#F59E0B', // Yellow-Orange
-      '#16A34A', // Green
-      '#2563EB', // Blue
-    
-      // Row 2: Vibrant cools & purples
-      '#0EA5E9', // Cyan
-      '#14B8A6', // Teal
-      '#8B5CF6', // Violet
-      '#7C3AED', // Deep Purple
-      '#DB2777', // Magenta
-    
-      // Row 3: Lights & pastels
-      '#FFFFFF', // White
-      '#FECACA', // Light Pink
-      '#FDBA74', // Peach
-      '#FEF08A', // Light Yellow
-      '#E0F2FE', // Pale Blue
-    
-      // Row 4: Neutrals & dark grounding tones
-      '#111827', // Charcoal
-      '#6B7280', // Medium Gray
-      '#1E3A8A', // Navy Blue
-      '#065F46', // Forest Green
-      '#7C2D12', // Dark Brown
-    ]
-    
-  ), []);
-  const colors = palette ?? defaultPalette;
+export function ColorPicker({ value, onChange, label = 'Color', palette, isEyedropperActive, onEyedropperToggle, opacity, onOpacityChange }: ColorPickerProps): JSX.Element {
+  const colors = palette ?? DEFAULT_PALETTE;
+  const [editorOpen, setEditorOpen] = useState(false);
+  const recentColors = useRecentColors((s) => s.colors);
+  const addRecentColor = useRecentColors((s) => s.addColor);
 
-  function renderSwatches(): JSX.Element {
+  function renderSwatches(list: string[], ariaLabel: string, className = 'cp-swatches'): JSX.Element {
     return (
-      <div className="cp-swatches" role="list" aria-label="Color swatches">
-        {colors.map((c) => {
+      <div className={className} role="list" aria-label={ariaLabel}>
+        {list.map((c) => {
           const selected = c.toLowerCase() === value.toLowerCase();
           return (
             <button
@@ -86,10 +63,27 @@ export function ColorPicker({ value, onChange, label = 'Color', palette, isEyedr
           >
             <Pipette size={16} />
           </button>
-          <div className="cp-chip" style={{ backgroundColor: value }} aria-label={`Current color ${value}`} title={value} />
+          <button
+            type="button"
+            className="cp-chip"
+            style={{ backgroundColor: value, opacity: opacity ?? 1 }}
+            onClick={() => setEditorOpen((v) => !v)}
+            aria-expanded={editorOpen}
+            aria-label={`Custom color (current ${value})`}
+            title="Custom color"
+          />
         </div>
       </div>
-      {renderSwatches()}
+      {editorOpen && (
+        <ColorEditor value={value} onChange={onChange} onCommit={addRecentColor} opacity={opacity} onOpacityChange={onOpacityChange} />
+      )}
+      {recentColors.length > 0 && (
+        <div>
+          <div className="text-sm text-slate-600 mb-1">Recent</div>
+          {renderSwatches(recentColors, 'Recent colors', 'cp-swatches cp-recent')}
+        </div>
+      )}
+      {renderSwatches(colors, 'Color swatches')}
     </div>
   );
 }
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Lock, RefreshCw, Users } from 'lucide-react';
+import { categoriesLabel } from '../../lib/category';
+import { fetchPublicRooms, pickQuickJoinRoom } from '../../lib/roomBrowser';
+import type { PublicRoom } from '../../types';
+
+// How often the list is fetched again while the screen is open
+const REFRESH_MS = 5000;
+
+const phaseLabels: Record<PublicRoom['phase'], string> = {
+  lobby: 'In lobby',
+  drawing: 'Drawing',
+  voting: 'Voting',
+  results: 'Results',
+};
+
+// Lists public rooms (no passcode, not full) and joins one with a click, or the fullest open
+// room with "Quick join". Rooms that are mid-round still take players; they wait for the next round.
+export function BrowseView({
+  nickname,
+  joinError,
+  onJoinRoom,
+  onBack,
+}: {
+  nickname: string;
+  joinError: string;
+  onJoinRoom: (code: string) => void;
+  onBack: () => void;
+}) {
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = () => {
+      fetchPublicRooms(controller.signal)
+        .then((list) => {
+          setRooms(list);
+          setLoadError('');
+          setLoaded(true);
+        })
+        .catch(() => {
+          if (controller.signal.aborted) return;
+          setLoadError('Could not load rooms');
+          setLoaded(true);
+        });
+    };
+    load();
+    const interval = window.setInterval(load, REFRESH_MS);
+    return () => {
+      controller.abort();
+      window.clearInterval(interval);
+    };
+  }, [refreshKey]);
+
+  const quickJoin = pickQuickJoinRoom(rooms);
+
+  return (
+    <div className="w-full max-w-[640px] mx-auto text-center">
+      <h2 className="text-[clamp(24px,3.5vw,32px)] font-bold mb-2">Browse Rooms</h2>
+      <div className="text-slate-500">
+        Playing as: <b>{nickname}</b>
+      </div>
+
+      <div className="flex justify-center gap-2 mt-4">
+        <button
+          className="btn primary cta min-w-[200px]"
+          onClick={() => quickJoin && onJoinRoom(quickJoin.code)}
+          disabled={!quickJoin}
+        >
+          Quick join
+        </button>
+        <button className="btn" onClick={() => setRefreshKey((k) => k + 1)} aria-label="Refresh rooms">
+          <RefreshCw size={16} aria-hidden />
+        </button>
+      </div>
+      {joinError && <div className="error mt-2" role="alert">{joinError}</div>}
+
+      <div className="card text-left mt-4">
+        {loadError && <div className="error">{loadError}</div>}
+        {!loadError && loaded && rooms.length === 0 && (
+          <div className="text-slate-500 text-center py-4">No public rooms right now. Create one and make it public!</div>
+        )}
+        {!loaded && <div className="text-slate-400 text-center py-4">Loading rooms…</div>}
+        {rooms.length > 0 && (
+          <ul className="players" aria-label="Public rooms">
+            {rooms.map((room) => (
+              <li key={room.code} className="player-row gap-3">
+                <div className="min-w-0">
+                  <div className="font-semibold truncate">
+                    {room.hostNickname ? `${room.hostNickname}'s room` : room.code}
+                  </div>
+                  <div className="text-slate-500 text-sm">
+                    {categoriesLabel(room.category)} · {room.roundDuration}s{room.mode === 'guess' ? ' · Guess mode' : ''} · {phaseLabels[room.phase]}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="inline-flex items-center gap-1 text-sm tabular-nums" aria-label={`${room.players} of ${room.maxPlayers} players`}>
+                    <Users size={14} aria-hidden /> {room.players}/{room.maxPlayers}
+                  </span>
+                  {room.locked ? (
+                    <span className="badge waiting inline-flex items-center gap-1"><Lock size={12} aria-hidden /> Locked</span>
+                  ) : (
+                    <button className="btn small" onClick={() => onJoinRoom(room.code)} aria-label={`Join ${room.code}`}>Join</button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-center mt-6">
+        <button className="btn secondary" onClick={onBack}>Back</button>
+      </div>
+    </div>
+  );
+}
+
+export default BrowseView;
@@ -0,0 +1,86 @@
+/**
+ * BrowseView component tests
+ *
+ * Covers the public room list fetched from the server, joining a listed room,
+ * quick join, the empty state and the periodic refresh. fetch is mocked.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowseView } from '../BrowseView';
+import type { PublicRoom } from '../../../types';
+
+const room = (code: string, players: number, extra?: Partial<PublicRoom>): PublicRoom => ({
+  code,
+  hostNickname: `Host${code}`,
+  players,
+  maxPlayers: 12,
+  category: ['animals', 'food'],
+  phase: 'lobby',
+  roundDuration: 60,
+  mode: 'classic',
+  locked: false,
+  ...extra,
+});
+
+function mockRooms(rooms: PublicRoom[]) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ rooms }), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function setup() {
+  const onJoinRoom = vi.fn();
+  const onBack = vi.fn();
+  render(<BrowseView nickname="Alex" joinError="" onJoinRoom={onJoinRoom} onBack={onBack} />);
+  return { onJoinRoom, onBack };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('BrowseView', () => {
+  it('lists public rooms with players, category, duration and phase', async () => {
+    mockRooms([room('AAAAA', 3, { phase: 'drawing' })]);
+    setup();
+    expect(await screen.findByText("HostAAAAA's room")).toBeInTheDocument();
+    expect(screen.getByLabelText('3 of 12 players')).toBeInTheDocument();
+    expect(screen.getByText(/animals, food · 60s · drawing/i)).toBeInTheDocument();
+  });
+
+  it('joins a listed room', async () => {
+    mockRooms([room('AAAAA', 3)]);
+    const { onJoinRoom } = setup();
+    await userEvent.click(await screen.findByRole('button', { name: 'Join AAAAA' }));
+    expect(onJoinRoom).toHaveBeenCalledWith('AAAAA');
+  });
+
+  it('quick joins the fullest room that is not locked', async () => {
+    mockRooms([room('AAAAA', 2), room('BBBBB', 9, { locked: true }), room('CCCCC', 4)]);
+    const { onJoinRoom } = setup();
+    await screen.findByText("HostCCCCC's room");
+    // Locked rooms are listed but cannot be joined
+    expect(screen.queryByRole('button', { name: 'Join BBBBB' })).not.toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /quick join/i }));
+    expect(onJoinRoom).toHaveBeenCalledWith('CCCCC');
+  });
+
+  it('shows an empty state and disables quick join without rooms', async () => {
+    mockRooms([]);
+    setup();
+    expect(await screen.findByText(/no public rooms/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /quick join/i })).toBeDisabled();
+  });
+
+  it('refreshes the list on a timer', async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockRooms([]);
+    setup();
+    await act(async () => { await Promise.resolve(); });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await act(async () => { vi.advanceTimersByTime(5000); });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
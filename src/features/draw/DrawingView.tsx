@@ -1,12 +1,31 @@
-﻿import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { JSX } from 'react';
 import { useAutoSizedCanvas } from '../../lib/useAutoSizedCanvas';
-import type { ChatMessage } from '../../types';
+import { useStrokeReplay } from '../../lib/useStrokeReplay';
+import { useDrawingDocument } from '../../lib/useDrawingDocument';
+import { useCanvasView } from '../../lib/useCanvasView';
+import { useDrawingAutosave } from '../../lib/useDrawingAutosave';
+import type { AutosaveTarget } from '../../lib/useDrawingAutosave';
+import { drawStroke, makeStrokeId, quantize, renderStrokes, strokeMessages } from '../../lib/strokes';
+import type { DrawnStroke, ShapeKind, StrokeMessage } from '../../lib/strokes';
+import type { ChatMessage, Difficulty, GameMode } from '../../types';
+import { difficultyLabel } from '../../lib/difficulty';
 import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
-import { Brush, PaintBucket, Clock, ChevronDown, MessageSquare, X } from 'lucide-react';
+import { Brush, Clock, ChevronDown, MessageSquare, X, Keyboard, Maximize } from 'lucide-react';
 import { ColorPicker } from '../../components/ui/ColorPicker';
+import { useDrawingShortcuts } from '../../lib/useDrawingShortcuts';
+import { DEFAULT_PALETTE } from '../../lib/constants/palette';
+import { rgbToHex } from '../../lib/color';
+import { ShortcutsHelp } from './components/ShortcutsHelp';
+import { ToolPalette } from './components/ToolPalette';
+import { BrushSettings } from './components/BrushSettings';
+import { FillSettings } from './components/FillSettings';
+import { LayersPanel } from './components/LayersPanel';
+import { PromptChoice } from './components/PromptChoice';
 
-export type DrawingTool = 'brush' | 'bucket';
+export type DrawingTool = 'brush' | 'eraser' | 'bucket' | 'line' | 'rect' | 'ellipse';
+
+const SHAPE_TOOLS: Partial<Record<DrawingTool, ShapeKind>> = { line: 'line', rect: 'rect', ellipse: 'ellipse' };
 
 export type DrawingCanvasProps = {
   color: string;
@@ -15,6 +34,25 @@ export type DrawingCanvasProps = {
   onChangeColor: (color: string) => void;
   onChangeBrushSize: (size: number) => void;
   onChangeTool: (tool: DrawingTool) => void;
+  // Rectangle/ellipse style
+  shapeFilled: boolean;
+  onChangeShapeFilled: (filled: boolean) => void;
+  // Brush and shape opacity (0..1)
+  opacity: number;
+  onChangeOpacity: (opacity: number) => void;
+  // Curved strokes, stylus pressure and coalesced pointer samples
+  smoothing: boolean;
+  onChangeSmoothing: (smoothing: boolean) => void;
+  // Bucket tool
+  fillTolerance: number;
+  onChangeFillTolerance: (tolerance: number) => void;
+  fillExpand: number;
+  onChangeFillExpand: (expand: number) => void;
+  // Bucket region comes from all visible layers instead of the active one
+  fillSampleAll: boolean;
+  onChangeFillSampleAll: (sampleAll: boolean) => void;
+  // Where the in-progress drawing is autosaved for crash recovery (classic rounds only)
+  autosave?: AutosaveTarget | null;
   onClear: () => void;
   onSubmit: () => void;
   canSubmit: boolean;
@@ -23,6 +61,11 @@ export type DrawingCanvasProps = {
   totalDuration: number;
   prompt: string;
   category: string | null;
+  difficulty?: Difficulty | null; // null for custom prompts, which are not rated
+  // Prompt choice: shown instead of the prompt until one is picked
+  promptChoices?: string[];
+  choiceEndsAtMs?: number | null;
+  onChoosePrompt?: (index: number) => void;
   getCategoryIcon: (cat: string) => JSX.Element;
   canvasRef: React.RefObject<HTMLCanvasElement>;
   onQuit: () => void;
@@ -31,6 +74,29 @@ export type DrawingCanvasProps = {
   setChatInput: (v: string) => void;
   handleSendChat: () => void;
   myId?: string;
+  // Guess mode: the drawer streams strokes; everyone else watches read-only and guesses in chat
+  mode?: GameMode;
+  isDrawer?: boolean;
+  drawerName?: string;
+  promptHint?: string;
+  guessedCount?: number;
+  guesserCount?: number;
+  hasGuessed?: boolean;
+  strokes?: DrawnStroke[];
+  onStroke?: (msg: StrokeMessage) => void;
+};
+
+// How often buffered brush points are sent while drawing in guess mode
+const STROKE_FLUSH_MS = 50;
+
+// Two decimals are plenty for pressure and keep streamed messages small
+const quantizePressure = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 100) / 100;
+const quantizeOpacity = quantizePressure;
+
+const difficultyBadgeClass: Record<Difficulty, string> = {
+  easy: 'border-emerald-500 text-emerald-600',
+  medium: 'border-amber-500 text-amber-600',
+  hard: 'border-rose-500 text-rose-600',
 };
 
 export default function DrawingCanvas(props: DrawingCanvasProps) {
@@ -41,6 +107,19 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
     onChangeColor,
     onChangeBrushSize,
     onChangeTool,
+    shapeFilled,
+    onChangeShapeFilled,
+    opacity,
+    onChangeOpacity,
+    smoothing,
+    onChangeSmoothing,
+    fillTolerance,
+    onChangeFillTolerance,
+    fillExpand,
+    onChangeFillExpand,
+    fillSampleAll,
+    onChangeFillSampleAll,
+    autosave = null,
     onClear,
     onSubmit,
     canSubmit,
@@ -49,6 +128,10 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
     totalDuration,
     prompt,
     category,
+    difficulty = null,
+    promptChoices = [],
+    choiceEndsAtMs = null,
+    onChoosePrompt,
     getCategoryIcon,
     canvasRef,
     onQuit,
@@ -57,16 +140,31 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
     setChatInput,
     handleSendChat,
     myId,
+    mode = 'classic',
+    isDrawer = false,
+    drawerName,
+    promptHint = '',
+    guessedCount = 0,
+    guesserCount = 0,
+    hasGuessed = false,
+    strokes,
+    onStroke,
   } = props;
+  const isGuess = mode === 'guess';
+  const readOnly = isGuess && !isDrawer;
+  // Prompt choice: no drawing or submitting until a prompt is picked (or picked for the player)
+  const choosingPrompt = promptChoices.length > 0;
+  // Layers are classic-mode only: guessers replay a single flat stroke stream
+  const layered = !isGuess;
+  const chatPlaceholder = isGuess && !isDrawer && !hasGuessed ? 'Type your guess...' : 'Type a message...';
 
   const isDrawing = useRef(false);
-  const lastPoint = useRef<{ x: number; y: number } | null>(null);
-  const [canvasHistory, setCanvasHistory] = useState<string[]>([]);
-  const MAX_HISTORY = 20;
-  const hasMoved = useRef(false);
+  // Any local edit; stops a late stroke-sync from overwriting the drawer's canvas
+  const touched = useRef(false);
   const [confirmClear, setConfirmClear] = useState(false);
   const [confirmQuit, setConfirmQuit] = useState(false);
   const [eyedropperActive, setEyedropperActive] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
   // Small-window compact layout + drawers
   const [compact, setCompact] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -88,27 +186,95 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
     return () => window.removeEventListener('resize', recompute);
   }, []);
 
-  useAutoSizedCanvas(canvasRef);
-
-  // No offscreen master; draw directly to visible canvas
-
-  const getScale = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { sx: 1, sy: 1 };
-    const rect = canvas.getBoundingClientRect();
-    return { sx: canvas.width / rect.width, sy: canvas.height / rect.height };
+  // Vector document: undo/redo and resizes re-render from operations instead of bitmaps
+  const drawingDoc = useDrawingDocument(canvasRef);
+  const rerenderCanvas = () => {
+    if (!readOnly) {
+      drawingDoc.redraw();
+      return;
+    }
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) renderStrokes(ctx, strokes ?? []);
   };
+  useAutoSizedCanvas(canvasRef, rerenderCanvas);
+  // Restores the drawing after a reload unless the user already started over
+  useDrawingAutosave(drawingDoc, isGuess ? null : autosave, () => !touched.current);
+  // Guessers replay the drawer's strokes on their read-only canvas
+  useStrokeReplay(canvasRef, strokes ?? [], readOnly);
+
+  // Stroke streaming (guess mode drawer only)
+  const lineMeta = useRef<{ id: string; c: string; w: number; e?: boolean; s?: boolean; a?: number } | null>(null);
+  const pendingPoints = useRef<number[]>([]);
+  // One pressure per pending point, or null when the line is not pressure-sensitive
+  const pendingPressures = useRef<number[] | null>(null);
+  // Last recorded point of the active line, to drop duplicate samples
+  const lastSample = useRef<[number, number] | null>(null);
+  const flushTimer = useRef<number | null>(null);
+  const emitStroke = (msg: StrokeMessage) => {
+    if (isGuess && isDrawer && onStroke) onStroke(msg);
+  };
+  const flushLine = () => {
+    if (flushTimer.current !== null) {
+      window.clearTimeout(flushTimer.current);
+      flushTimer.current = null;
+    }
+    const meta = lineMeta.current;
+    if (!meta || pendingPoints.current.length === 0) return;
+    const r = pendingPressures.current;
+    emitStroke({ t: 'line', ...meta, p: pendingPoints.current, ...(r ? { r } : {}) });
+    pendingPoints.current = [];
+    if (r) pendingPressures.current = [];
+  };
+  const queuePoints = (points: number[], pressures?: number[]) => {
+    if (!lineMeta.current) return;
+    pendingPoints.current.push(...points);
+    if (pendingPressures.current && pressures) pendingPressures.current.push(...pressures);
+    // Keep each message small; the server rejects oversized batches
+    if (pendingPoints.current.length >= 64) flushLine();
+    else if (flushTimer.current === null) flushTimer.current = window.setTimeout(flushLine, STROKE_FLUSH_MS);
+  };
+  useEffect(() => () => {
+    if (flushTimer.current !== null) window.clearTimeout(flushTimer.current);
+  }, []);
 
-  const saveCanvasState = () => {
+  // A drawer who reloads mid-round gets their strokes back from the server once
+  const restoredStrokes = useRef(false);
+  useEffect(() => {
+    if (!isGuess || !isDrawer || restoredStrokes.current || touched.current || !strokes || strokes.length === 0) return;
+    restoredStrokes.current = true;
+    drawingDoc.load(strokes);
+  }, [isGuess, isDrawer, strokes, drawingDoc]);
+
+  // Shape tools draw a rubber-band preview on an overlay and commit on release
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const shapeDraft = useRef<Extract<DrawnStroke, { t: 'shape' }> | null>(null);
+  const drawPreview = () => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const dataUrl = canvas.toDataURL();
-    setCanvasHistory((prev) => [...prev, dataUrl].slice(-MAX_HISTORY));
+    const overlay = previewRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!canvas || !overlay || !ctx) return;
+    if (overlay.width !== canvas.width || overlay.height !== canvas.height) {
+      overlay.width = canvas.width;
+      overlay.height = canvas.height;
+    } else {
+      ctx.clearRect(0, 0, overlay.width, overlay.height);
+    }
+    if (shapeDraft.current) drawStroke(ctx, shapeDraft.current);
   };
 
-  const rgbaToHex = (r: number, g: number, b: number) => {
-    const toHex = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0');
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+  // Layers live on offscreen bitmaps (see useDrawingDocument); the visible canvas is their composite
+
+  // Zoom and pan: pointer positions go through the view transform to reach canvas coordinates
+  const canvasBoxRef = useRef<HTMLDivElement>(null);
+  const canvasView = useCanvasView(canvasBoxRef);
+
+  // Canvas pixels per CSS pixel on screen, at the current zoom
+  const getScale = () => {
+    const canvas = canvasRef.current;
+    const box = canvasBoxRef.current;
+    if (!canvas || !box || box.clientWidth === 0 || box.clientHeight === 0) return { sx: 1, sy: 1 };
+    const { scale } = canvasView.view;
+    return { sx: canvas.width / (box.clientWidth * scale), sy: canvas.height / (box.clientHeight * scale) };
   };
 
   const sampleCanvasColor = (clientX: number, clientY: number) => {
@@ -116,205 +282,214 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    const rect = canvas.getBoundingClientRect();
-    const { sx, sy } = getScale();
-    const x = Math.floor((clientX - rect.left) * sx);
-    const y = Math.floor((clientY - rect.top) * sy);
+    const pt = canvasView.toCanvas(clientX, clientY);
+    const x = Math.floor(pt.x * canvas.width);
+    const y = Math.floor(pt.y * canvas.height);
     if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) return;
     const data = ctx.getImageData(x, y, 1, 1).data;
-    const hex = rgbaToHex(data[0], data[1], data[2]);
+    // Erased or untouched pixels are transparent and show the white background
+    const hex = data[3] === 0 ? '#ffffff' : rgbToHex({ r: data[0], g: data[1], b: data[2] });
     onChangeColor(hex);
   };
 
   const handleClearWithHistory = () => {
-    setCanvasHistory([]);
+    touched.current = true;
+    drawingDoc.clear();
     onClear();
+    emitStroke({ t: 'clear', id: makeStrokeId() });
   };
 
   const handleUndo = () => {
-    if (canvasHistory.length === 0) return;
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const lastState = canvasHistory[canvasHistory.length - 1];
-    setCanvasHistory((prev) => prev.slice(0, -1));
-    const img = new Image();
-    img.onload = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0);
-    };
-    img.src = lastState;
+    if (!drawingDoc.canUndo) return;
+    emitStroke({ t: 'undo', id: makeStrokeId() });
+    drawingDoc.undo();
+  };
+
+  const handleRedo = () => {
+    const op = drawingDoc.redo();
+    if (!op) return;
+    touched.current = true;
+    // Guessers never saw the undone stroke again, so resend it in streamable chunks
+    strokeMessages(op).forEach(emitStroke);
   };
 
+  useDrawingShortcuts(
+    {
+      undo: handleUndo,
+      redo: handleRedo,
+      brush: () => onChangeTool('brush'),
+      eraser: () => onChangeTool('eraser'),
+      bucket: () => onChangeTool('bucket'),
+      line: () => onChangeTool('line'),
+      rect: () => onChangeTool('rect'),
+      ellipse: () => onChangeTool('ellipse'),
+      eyedropper: () => setEyedropperActive((v) => !v),
+      brushSmaller: () => onChangeBrushSize(Math.max(2, brushSize - 2)),
+      brushLarger: () => onChangeBrushSize(Math.min(40, brushSize + 2)),
+      swatch: (index) => {
+        const hex = DEFAULT_PALETTE[index];
+        if (hex) onChangeColor(hex);
+      },
+      help: () => setHelpOpen(true),
+    },
+    !readOnly && !confirmClear && !confirmQuit && !helpOpen
+  );
+
   const handlePointerDown = (e: React.PointerEvent) => {
+    if (canvasView.handlePointerDown(e)) {
+      // A second finger turns a stroke that just started into a pinch
+      if (isDrawing.current) handlePointerUp();
+      return;
+    }
+    if (readOnly || choosingPrompt) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const { sx, sy } = getScale();
-    const x = Math.floor((e.clientX - rect.left) * sx);
-    const y = Math.floor((e.clientY - rect.top) * sy);
+    const pt = canvasView.toCanvas(e.clientX, e.clientY);
+    const { sx } = getScale();
+    const x = Math.floor(pt.x * canvas.width);
+    const y = Math.floor(pt.y * canvas.height);
     // Eyedropper: Alt-click or active mode samples color instead of drawing
     if (e.altKey || eyedropperActive) {
       sampleCanvasColor(e.clientX, e.clientY);
       setEyedropperActive(false);
       return;
     }
+    touched.current = true;
+    const nx = quantize(pt.x);
+    const ny = quantize(pt.y);
+    // The brush keeps its on-screen size, so zooming in gives finer strokes
+    const w = (brushSize * sx) / canvas.width;
+    const shapeKind = SHAPE_TOOLS[selectedTool];
+    // Opaque strokes leave the field out to keep messages small; fills are always opaque
+    const alpha = opacity < 1 ? quantizeOpacity(opacity) : undefined;
     if (selectedTool === 'bucket') {
-      saveCanvasState();
-      floodFill(x, y, color);
+      const op: StrokeMessage = {
+        t: 'fill',
+        id: makeStrokeId(),
+        c: color,
+        x: quantize((x + 0.5) / canvas.width),
+        y: quantize((y + 0.5) / canvas.height),
+        tol: fillTolerance,
+        ...(fillExpand > 0 ? { grow: fillExpand } : {}),
+      };
+      drawingDoc.apply(op, { sampleAll: layered && fillSampleAll });
+      emitStroke(op);
+    } else if (shapeKind) {
+      isDrawing.current = true;
+      shapeDraft.current = {
+        t: 'shape',
+        id: makeStrokeId(),
+        k: shapeKind,
+        c: color,
+        w,
+        p: [nx, ny, nx, ny],
+        ...(shapeFilled && shapeKind !== 'line' ? { f: true } : {}),
+        ...(alpha !== undefined ? { a: alpha } : {}),
+      };
+      drawPreview();
     } else {
-      saveCanvasState();
       isDrawing.current = true;
-      hasMoved.current = false;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      ctx.beginPath();
-      ctx.moveTo(x, y);
-      lastPoint.current = { x, y };
+      lastSample.current = [nx, ny];
+      // Only pens report meaningful pressure; mice always report 0.5
+      const pen = smoothing && e.pointerType === 'pen';
+      const op = {
+        t: 'line' as const,
+        id: makeStrokeId(),
+        c: color,
+        w,
+        p: [nx, ny],
+        ...(selectedTool === 'eraser' ? { e: true } : {}),
+        ...(smoothing ? { s: true } : {}),
+        ...(pen ? { r: [quantizePressure(e.pressure)] } : {}),
+        ...(alpha !== undefined && selectedTool !== 'eraser' ? { a: alpha } : {}),
+      };
+      drawingDoc.beginLine(op);
+      if (isGuess) {
+        lineMeta.current = { id: op.id, c: op.c, w: op.w, ...(op.e ? { e: true } : {}), ...(op.s ? { s: true } : {}), ...(op.a !== undefined ? { a: op.a } : {}) };
+        pendingPressures.current = op.r ? [] : null;
+        queuePoints(op.p, op.r);
+        flushLine();
+      }
     }
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
+    if (canvasView.handlePointerMove(e)) return;
     if (eyedropperActive) {
       // Show hover sampling when eyedropper is active (do not change color until click)
       return;
     }
-    if (!isDrawing.current || selectedTool !== 'brush') return;
+    if (!isDrawing.current) return;
     const canvas = canvasRef.current;
-    if (!canvas || !lastPoint.current) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const rect = canvas.getBoundingClientRect();
-    const { sx, sy } = getScale();
-    const x = (e.clientX - rect.left) * sx;
-    const y = (e.clientY - rect.top) * sy;
-    hasMoved.current = true;
-    ctx.strokeStyle = color;
-    ctx.lineWidth = brushSize * sx;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
-    ctx.lineTo(x, y);
-    ctx.stroke();
-    lastPoint.current = { x, y };
+    if (!canvas) return;
+    // Points are stored normalized so the document can be replayed at any canvas size
+    const draft = shapeDraft.current;
+    if (draft) {
+      const pt = canvasView.toCanvas(e.clientX, e.clientY);
+      draft.p = [draft.p[0], draft.p[1], quantize(pt.x), quantize(pt.y)];
+      drawPreview();
+      return;
+    }
+    // Smoothed strokes use every sample the browser merged into this event, so fast strokes stay round
+    const coalesced = smoothing && typeof e.nativeEvent.getCoalescedEvents === 'function' ? e.nativeEvent.getCoalescedEvents() : [];
+    const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+    const points: number[] = [];
+    const pressures: number[] = [];
+    for (const sample of samples) {
+      const pt = canvasView.toCanvas(sample.clientX, sample.clientY);
+      const x = quantize(pt.x);
+      const y = quantize(pt.y);
+      const last = lastSample.current;
+      if (last && last[0] === x && last[1] === y) continue;
+      lastSample.current = [x, y];
+      points.push(x, y);
+      pressures.push(quantizePressure(sample.pressure));
+    }
+    if (points.length === 0) return;
+    drawingDoc.extendLine(points, pressures);
+    queuePoints(points, pressures);
   };
 
   const handlePointerUp = () => {
-    if (isDrawing.current && !hasMoved.current && selectedTool === 'brush' && lastPoint.current) {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          const { sx } = getScale();
-          ctx.strokeStyle = color;
-          ctx.lineWidth = brushSize * sx;
-          ctx.lineCap = 'round';
-          ctx.beginPath();
-          ctx.arc(lastPoint.current.x, lastPoint.current.y, (brushSize / 2) * sx, 0, Math.PI * 2);
-          ctx.fillStyle = color;
-          ctx.fill();
-        }
+    const shape = shapeDraft.current;
+    if (shape) {
+      shapeDraft.current = null;
+      drawPreview();
+      // A click without dragging draws nothing
+      if (shape.p[0] !== shape.p[2] || shape.p[1] !== shape.p[3]) {
+        drawingDoc.apply(shape);
+        emitStroke(shape);
       }
+    } else if (isDrawing.current) {
+      // A tap without movement is kept as a single-point line and renders as a dot
+      drawingDoc.endLine();
     }
+    flushLine();
+    lineMeta.current = null;
+    pendingPressures.current = null;
+    lastSample.current = null;
     isDrawing.current = false;
-    lastPoint.current = null;
-    hasMoved.current = false;
+  };
+  const handlePointerRelease = (e: React.PointerEvent) => {
+    if (canvasView.handlePointerUp(e)) return;
+    handlePointerUp();
   };
 
-  const floodFill = (startX: number, startY: number, fillColor: string) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const w = canvas.width | 0;
-    const h = canvas.height | 0;
-    const imageData = ctx.getImageData(0, 0, w, h);
-    const data = imageData.data; // Uint8ClampedArray
-
-    const hexToRgb = (hex: string) => {
-      const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-      return result
-        ? { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) }
-        : null;
-    };
-    const fillRgb = hexToRgb(fillColor);
-    if (!fillRgb) return;
-
-    const startIdx = (startY * w + startX) | 0;
-    if (startIdx < 0 || startIdx >= w * h) return;
-    const startPos = startIdx * 4;
-    const startR = data[startPos];
-    const startG = data[startPos + 1];
-    const startB = data[startPos + 2];
-    const startA = data[startPos + 3];
-
-    // If starting color already matches fill, nothing to do
-    const TOLERANCE = 32;
-    const TOL_SQ = TOLERANCE * TOLERANCE;
-    const matches = (r: number, g: number, b: number, a: number) => {
-      // Handle transparency similarity
-      if (startA === 0 && a === 0) return true;
-      if ((startA === 0) !== (a === 0)) return false;
-      const dr = r - startR;
-      const dg = g - startG;
-      const db = b - startB;
-      const da = Math.abs(a - startA);
-      return (dr * dr + dg * dg + db * db) <= TOL_SQ && da <= TOLERANCE;
-    };
-    if (matches(fillRgb.r, fillRgb.g, fillRgb.b, 255)) return;
-
-    // Visited bitmap to avoid string allocs
-    const visited = new Uint8Array(w * h);
-    const stack: number[] = [startIdx];
-    visited[startIdx] = 1;
-
-    const FR = fillRgb.r | 0;
-    const FG = fillRgb.g | 0;
-    const FB = fillRgb.b | 0;
-
-    while (stack.length) {
-      const idx = stack.pop()!;
-      const pos = idx * 4;
-      const r = data[pos];
-      const g = data[pos + 1];
-      const b = data[pos + 2];
-      const a = data[pos + 3];
-      if (!matches(r, g, b, a)) continue;
-
-      // Paint
-      data[pos] = FR;
-      data[pos + 1] = FG;
-      data[pos + 2] = FB;
-      data[pos + 3] = 255;
-
-      // Neighbors: left, right, up, down
-      const x = idx % w;
-      const y = (idx / w) | 0;
-      // left
-      if (x > 0) {
-        const n = idx - 1;
-        if (!visited[n]) { visited[n] = 1; stack.push(n); }
-      }
-      // right
-      if (x + 1 < w) {
-        const n = idx + 1;
-        if (!visited[n]) { visited[n] = 1; stack.push(n); }
-      }
-      // up
-      if (y > 0) {
-        const n = idx - w;
-        if (!visited[n]) { visited[n] = 1; stack.push(n); }
-      }
-      // down
-      if (y + 1 < h) {
-        const n = idx + w;
-        if (!visited[n]) { visited[n] = 1; stack.push(n); }
-      }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
+  const layersPanel = layered ? (
+    <LayersPanel
+      layers={drawingDoc.layers}
+      activeLayer={drawingDoc.activeLayer}
+      onSelect={drawingDoc.setActiveLayer}
+      onToggleVisibility={drawingDoc.toggleLayerVisibility}
+      onMove={drawingDoc.moveLayer}
+    />
+  ) : null;
+  const fillSettingsProps = {
+    tolerance: fillTolerance,
+    onChangeTolerance: onChangeFillTolerance,
+    expand: fillExpand,
+    onChangeExpand: onChangeFillExpand,
+    ...(layered ? { sampleAll: fillSampleAll, onChangeSampleAll: onChangeFillSampleAll } : {}),
   };
 
   const chatEndRef = useRef<HTMLDivElement>(null);
@@ -359,13 +534,34 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
           <div aria-label="Category" className="inline-flex items-center justify-center rounded-md border border-slate-200 bg-white p-2">
             <div className="[&>*]:h-6 [&>*]:w-6">{getCategoryIcon(category ?? 'random')}</div>
           </div>
-          {compact && !isMobile && (
+          {compact && !isMobile && !readOnly && (
             <button className="btn icon tab-toggle" style={{ borderRadius: '12px', background: '#fff' }} aria-label="Open tools" onClick={() => setToolsOpen(true)}><Brush size={18} /></button>
           )}
         </div>
         <div className="flex flex-col items-center gap-1 text-center">
-          <div className="text-xs text-slate-500">Prompt</div>
-          <div className="font-semibold text-[clamp(18px,4vw,26px)] leading-tight">{prompt}</div>
+          {readOnly ? (
+            <>
+              <div className="text-xs text-slate-500">{drawerName ? `${drawerName} is drawing` : 'Guess the word'}</div>
+              <div
+                className="font-semibold text-[clamp(18px,4vw,26px)] leading-tight tracking-[0.3em] whitespace-pre"
+                aria-label={`Hidden word, ${promptHint.replace(/\s/g, '').length} letters`}
+              >
+                {promptHint}
+              </div>
+            </>
+          ) : promptChoices.length > 0 && onChoosePrompt ? (
+            <PromptChoice choices={promptChoices} endsAtMs={choiceEndsAtMs} onChoose={onChoosePrompt} />
+          ) : (
+            <>
+              <div className="text-xs text-slate-500">{isGuess ? 'Draw this, the others are guessing' : 'Prompt'}</div>
+              <div className="font-semibold text-[clamp(18px,4vw,26px)] leading-tight">{prompt}</div>
+            </>
+          )}
+          {difficulty && (
+            <div className={`badge ${difficultyBadgeClass[difficulty]}`} aria-label={`Difficulty: ${difficultyLabel(difficulty)}`}>
+              {difficultyLabel(difficulty)}
+            </div>
+          )}
           <div className="h-1 w-full max-w-xl rounded bg-slate-200 overflow-hidden" aria-hidden>
             <div
               className={`h-full ${timer <= 10 ? 'bg-red-500' : 'bg-blue-600'}`}
@@ -394,109 +590,105 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
           )}
           <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-1 text-xs text-slate-700"><Clock size={16} /> {timer}s</div>
           {submitted && <div className="hidden md:inline-flex rounded-full bg-green-100 text-green-700 text-xs px-2 py-1">Submitted</div>}
+          {isGuess && (
+            <div className="hidden md:inline-flex rounded-full bg-green-100 text-green-700 text-xs px-2 py-1" aria-live="polite">
+              {hasGuessed ? 'Guessed!' : `${guessedCount}/${guesserCount} guessed`}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main grid: tools / canvas / chat */}
       <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-stretch w-full">
         {/* Tools (left on desktop, below canvas on mobile) */}
+        {!readOnly && (
         <div className="order-2 md:order-1 md:col-span-3 hidden md:flex hide-in-compact">
           <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm w-full flex flex-col gap-2">
-          <div className="flex gap-2">
-            <button className={`btn icon ${selectedTool === 'brush' ? 'primary' : ''}`} onClick={() => onChangeTool('brush')} aria-label="Brush">
-              <Brush size={18} />
-            </button>
-            <button className={`btn icon ${selectedTool === 'bucket' ? 'primary' : ''}`} onClick={() => onChangeTool('bucket')} aria-label="Bucket">
-              <PaintBucket size={18} />
+          <ToolPalette selectedTool={selectedTool} onChangeTool={onChangeTool} shapeFilled={shapeFilled} onChangeShapeFilled={onChangeShapeFilled}>
+            <button className="btn icon" onClick={() => setHelpOpen(true)} aria-label="Keyboard shortcuts" title="Keyboard shortcuts (?)">
+              <Keyboard size={18} />
             </button>
-          </div>
+          </ToolPalette>
           <ColorPicker
             label="Color"
             value={color}
             onChange={onChangeColor}
             isEyedropperActive={eyedropperActive}
             onEyedropperToggle={() => setEyedropperActive(v => !v)}
+            opacity={opacity}
+            onOpacityChange={onChangeOpacity}
           />
-          {selectedTool === 'brush' && (
-            <div>
-              <div className="flex items-center justify-between gap-2">
-                <div className="text-sm text-slate-600">Brush size: {brushSize}px</div>
-                <div className="brush-preview" aria-hidden>
-                  <span
-                    className="brush-dot"
-                    style={{
-                      width: Math.max(2, Math.min(brushSize, 40)),
-                      height: Math.max(2, Math.min(brushSize, 40)),
-                      background: color,
-                    }}
-                  />
-                </div>
-              </div>
-              <input
-                className="range"
-                type="range"
-                min={2}
-                max={40}
-                value={brushSize}
-                onChange={(e) => onChangeBrushSize(Number(e.target.value))}
-                aria-label="Brush size"
-              />
-            </div>
+          {selectedTool === 'bucket' ? (
+            <FillSettings {...fillSettingsProps} />
+          ) : (
+            <BrushSettings brushSize={brushSize} color={color} onChangeBrushSize={onChangeBrushSize} smoothing={smoothing} onChangeSmoothing={onChangeSmoothing} />
           )}
+          {layersPanel}
             <button className="btn" onClick={() => setConfirmClear(true)}>Clear</button>
-            <button className="btn" onClick={handleUndo} disabled={canvasHistory.length === 0}>Undo</button>
+            <button className="btn" onClick={handleUndo} disabled={!drawingDoc.canUndo}>Undo</button>
+            <button className="btn" onClick={handleRedo} disabled={!drawingDoc.canRedo}>Redo</button>
           </div>
         </div>
+        )}
 
         {/* Mobile tools (compact) */}
+        {!readOnly && (
         <div className="order-2 md:hidden">
           <div className="card w-full flex flex-col gap-2">
-            <div className="flex gap-2">
-              <button className={`btn icon ${selectedTool === 'brush' ? 'primary' : ''}`} onClick={() => onChangeTool('brush')} aria-label="Brush">
-                <Brush size={18} />
-              </button>
-              <button className={`btn icon ${selectedTool === 'bucket' ? 'primary' : ''}`} onClick={() => onChangeTool('bucket')} aria-label="Bucket">
-                <PaintBucket size={18} />
-              </button>
-            </div>
+            <ToolPalette selectedTool={selectedTool} onChangeTool={onChangeTool} shapeFilled={shapeFilled} onChangeShapeFilled={onChangeShapeFilled} />
             <ColorPicker
               label="Color"
               value={color}
               onChange={onChangeColor}
               isEyedropperActive={eyedropperActive}
               onEyedropperToggle={() => setEyedropperActive(v => !v)}
+              opacity={opacity}
+              onOpacityChange={onChangeOpacity}
             />
-            {selectedTool === 'brush' && (
-              <div>
-                <div className="flex items-center justify-between gap-2">
-                  <div className="text-sm text-slate-600">Brush size: {brushSize}px</div>
-                  <div className="brush-preview" aria-hidden>
-                    <span className="brush-dot" style={{ width: Math.max(2, Math.min(brushSize, 40)), height: Math.max(2, Math.min(brushSize, 40)), background: color }} />
-                  </div>
-                </div>
-                <input className="range" type="range" min={2} max={40} value={brushSize} onChange={(e) => onChangeBrushSize(Number(e.target.value))} aria-label="Brush size" />
-              </div>
+            {selectedTool === 'bucket' ? (
+              <FillSettings {...fillSettingsProps} />
+            ) : (
+              <BrushSettings brushSize={brushSize} color={color} onChangeBrushSize={onChangeBrushSize} smoothing={smoothing} onChangeSmoothing={onChangeSmoothing} />
             )}
+            {layersPanel}
             <div className="flex gap-2">
               <button className="btn" onClick={() => setConfirmClear(true)}>Clear</button>
-              <button className="btn" onClick={handleUndo} disabled={canvasHistory.length === 0}>Undo</button>
+              <button className="btn" onClick={handleUndo} disabled={!drawingDoc.canUndo}>Undo</button>
+              <button className="btn" onClick={handleRedo} disabled={!drawingDoc.canRedo}>Redo</button>
             </div>
           </div>
         </div>
+        )}
 
         {/* Canvas */}
-        <div className={`order-1 md:order-2 ${compact ? 'md:col-span-12' : 'md:col-span-6'} min-w-0`}>
+        <div className={`order-1 md:order-2 ${compact ? 'md:col-span-12' : (readOnly ? 'md:col-span-9' : 'md:col-span-6')} min-w-0`}>
           <div className="rounded-lg border border-slate-200 bg-white p-2 shadow-sm w-full grid place-items-center">
-            <div className="w-full max-w-[min(100%,1024px)] dv-canvas-box">
-              <canvas
-                ref={canvasRef}
-                onPointerDown={handlePointerDown}
-                onPointerMove={handlePointerMove}
-                onPointerUp={handlePointerUp}
-                onPointerLeave={handlePointerUp}
-                className="block w-full h-full rounded-md bg-white"
-                style={{ touchAction: 'none' }}
-              />
+            <div ref={canvasBoxRef} className="w-full max-w-[min(100%,1024px)] dv-canvas-box relative overflow-hidden rounded-md">
+              <div
+                className="absolute inset-0"
+                style={{
+                  transform: `translate(${canvasView.view.x * 100}%, ${canvasView.view.y * 100}%) scale(${canvasView.view.scale})`,
+                  transformOrigin: '0 0',
+                }}
+              >
+                <canvas
+                  ref={canvasRef}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerRelease}
+                  onPointerLeave={handlePointerRelease}
+                  onPointerCancel={handlePointerRelease}
+                  className="block w-full h-full rounded-md bg-white"
+                  style={{ touchAction: 'none', cursor: canvasView.panning ? 'grab' : readOnly || choosingPrompt ? 'default' : undefined }}
+                  aria-label={readOnly ? 'Drawing in progress' : undefined}
+                />
+                {!readOnly && <canvas ref={previewRef} className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden />}
+              </div>
+              {canvasView.zoomed && (
+                <button className="btn small absolute top-2 right-2" onClick={canvasView.fit} aria-label="Fit canvas to view" title="Fit canvas to view">
+                  <Maximize size={14} /> {Math.round(canvasView.view.scale * 100)}%
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -544,7 +736,7 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
                 type="text"
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
-                placeholder="Type a message..."
+                placeholder={chatPlaceholder}
                 aria-label="Chat message"
                 maxLength={120}
                 disabled={!myId}
@@ -607,7 +799,7 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
                 type="text"
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
-                placeholder="Type a message..."
+                placeholder={chatPlaceholder}
                 aria-label="Chat message"
                 maxLength={120}
                 disabled={!myId}
@@ -640,29 +832,26 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
               <div ref={chatEndRef} />
             </div>
             <form className="flex gap-2 min-w-0" onSubmit={(e) => { e.preventDefault(); handleSendChat(); }}>
-              <input className="input flex-1 min-w-0 w-0" type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder="Type a message..." aria-label="Chat message" maxLength={120} disabled={!myId} autoComplete="off" />
+              <input className="input flex-1 min-w-0 w-0" type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder={chatPlaceholder} aria-label="Chat message" maxLength={120} disabled={!myId} autoComplete="off" />
               <button type="submit" className="btn primary small shrink-0" disabled={!chatInput.trim() || !myId}>Send</button>
             </form>
           </div>
         </div>
       )}
-      {compact && toolsOpen && (
+      {compact && toolsOpen && !readOnly && (
         <div className="drawer-overlay" role="dialog" aria-label="Tools panel" onClick={() => setToolsOpen(false)}>
           <div className="drawer-panel drawer-left" onClick={(e) => e.stopPropagation()}>
             <div className="drawer-header"><div className="text-sm text-slate-600">Tools</div><button className="drawer-close" aria-label="Close tools" onClick={() => setToolsOpen(false)}><X size={16} /></button></div>
             <div className="flex flex-col gap-2">
-              <div className="flex gap-2">
-                <button className={`btn icon ${selectedTool === 'brush' ? 'primary' : ''}`} onClick={() => onChangeTool('brush')} aria-label="Brush"><Brush size={18} /></button>
-                <button className={`btn icon ${selectedTool === 'bucket' ? 'primary' : ''}`} onClick={() => onChangeTool('bucket')} aria-label="Bucket"><PaintBucket size={18} /></button>
-              </div>
-              <ColorPicker label="Color" value={color} onChange={onChangeColor} isEyedropperActive={eyedropperActive} onEyedropperToggle={() => setEyedropperActive(v => !v)} />
-              {selectedTool === 'brush' && (
-                <div>
-                  <div className="flex items-center justify-between gap-2"><div className="text-sm text-slate-600">Brush size: {brushSize}px</div><div className="brush-preview" aria-hidden><span className="brush-dot" style={{ width: Math.max(2, Math.min(brushSize, 40)), height: Math.max(2, Math.min(brushSize, 40)), background: color }} /></div></div>
-                  <input className="range" type="range" min={2} max={40} value={brushSize} onChange={(e) => onChangeBrushSize(Number(e.target.value))} aria-label="Brush size" />
-                </div>
+              <ToolPalette selectedTool={selectedTool} onChangeTool={onChangeTool} shapeFilled={shapeFilled} onChangeShapeFilled={onChangeShapeFilled} />
+              <ColorPicker label="Color" value={color} onChange={onChangeColor} isEyedropperActive={eyedropperActive} onEyedropperToggle={() => setEyedropperActive(v => !v)} opacity={opacity} onOpacityChange={onChangeOpacity} />
+              {selectedTool === 'bucket' ? (
+                <FillSettings {...fillSettingsProps} />
+              ) : (
+                <BrushSettings brushSize={brushSize} color={color} onChangeBrushSize={onChangeBrushSize} smoothing={smoothing} onChangeSmoothing={onChangeSmoothing} />
               )}
-              <div className="flex gap-2"><button className="btn" onClick={() => { setConfirmClear(true); setToolsOpen(false); }}>Clear</button><button className="btn" onClick={handleUndo} disabled={canvasHistory.length === 0}>Undo</button></div>
+              {layersPanel}
+              <div className="flex gap-2"><button className="btn" onClick={() => { setConfirmClear(true); setToolsOpen(false); }}>Clear</button><button className="btn" onClick={handleUndo} disabled={!drawingDoc.canUndo}>Undo</button><button className="btn" onClick={handleRedo} disabled={!drawingDoc.canRedo}>Redo</button></div>
             </div>
           </div>
         </div>
@@ -670,7 +859,9 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
       {/* Footer actions */}
       <div className="flex items-center gap-2 w-full max-w-md mx-auto">
         <button className="btn danger cta flex-1" onClick={() => setConfirmQuit(true)}>Quit</button>
-        <button className="btn primary cta flex-1" onClick={onSubmit} disabled={!canSubmit}>{submitted ? 'Submitted' : 'Submit Drawing'}</button>
+        {!isGuess && (
+          <button className="btn primary cta flex-1" onClick={onSubmit} disabled={!canSubmit || choosingPrompt}>{submitted ? 'Submitted' : 'Submit Drawing'}</button>
+        )}
       </div>
       <ConfirmDialog
         open={confirmClear}
@@ -698,6 +889,7 @@ export default function DrawingCanvas(props: DrawingCanvasProps) {
           onQuit();
         }}
       />
+      <ShortcutsHelp open={helpOpen} onClose={() => setHelpOpen(false)} />
     </div>
   );
 }
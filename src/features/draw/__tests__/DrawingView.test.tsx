@@ -0,0 +1,115 @@
+/**
+ * DrawingView with prompt choice: while the player still has to pick a prompt, the canvas takes
+ * no strokes and the drawing cannot be submitted.
+ *
+ * Follows TESTING.md conventions: user-centric queries, Arrange/Act/Assert,
+ * mock sockets/time/network, and reset state between tests.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRef } from 'react';
+import type { RefObject } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import DrawingView from '../DrawingView';
+import type { DrawingCanvasProps } from '../DrawingView';
+
+beforeEach(() => {
+  // JSDOM has no 2D canvas; strokes only need a context that accepts draw calls
+  Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+    value: vi.fn(() => new Proxy({}, { get: (_t, key) => (key === 'getImageData' ? () => ({ data: new Uint8ClampedArray(4) }) : vi.fn()) })),
+    configurable: true,
+  });
+  Element.prototype.scrollIntoView = vi.fn();
+  // JSDOM has no PointerEvent either; the canvas handlers read pointerId and pointerType
+  class PointerEventStub extends MouseEvent {
+    pointerId: number;
+    pointerType: string;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 0;
+      this.pointerType = init.pointerType ?? 'mouse';
+    }
+  }
+  vi.stubGlobal('PointerEvent', PointerEventStub);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function setup(overrides?: Partial<DrawingCanvasProps>) {
+  const onSubmit = vi.fn();
+  const props: DrawingCanvasProps = {
+    color: '#000000',
+    brushSize: 8,
+    selectedTool: 'brush',
+    onChangeColor: vi.fn(),
+    onChangeBrushSize: vi.fn(),
+    onChangeTool: vi.fn(),
+    shapeFilled: false,
+    onChangeShapeFilled: vi.fn(),
+    opacity: 1,
+    onChangeOpacity: vi.fn(),
+    smoothing: false,
+    onChangeSmoothing: vi.fn(),
+    fillTolerance: 0,
+    onChangeFillTolerance: vi.fn(),
+    fillExpand: 0,
+    onChangeFillExpand: vi.fn(),
+    fillSampleAll: false,
+    onChangeFillSampleAll: vi.fn(),
+    onClear: vi.fn(),
+    onSubmit,
+    canSubmit: true,
+    submitted: false,
+    timer: 60,
+    totalDuration: 60,
+    prompt: '',
+    category: null,
+    getCategoryIcon: () => <span />,
+    canvasRef: createRef<HTMLCanvasElement>() as RefObject<HTMLCanvasElement>,
+    onQuit: vi.fn(),
+    chatMessages: [],
+    chatInput: '',
+    setChatInput: vi.fn(),
+    handleSendChat: vi.fn(),
+    myId: 'me',
+    ...overrides,
+  };
+  const result = render(<DrawingView {...props} />);
+  return { ...result, props, onSubmit };
+}
+
+// Looks the canvas up for every event, since a stroke can re-render it
+function drawStroke(canvasRef: RefObject<HTMLCanvasElement>) {
+  fireEvent.pointerDown(canvasRef.current!, { clientX: 10, clientY: 10, pointerId: 1, isPrimary: true, buttons: 1 });
+  fireEvent.pointerMove(canvasRef.current!, { clientX: 20, clientY: 20, pointerId: 1, isPrimary: true, buttons: 1 });
+  fireEvent.pointerUp(canvasRef.current!, { clientX: 20, clientY: 20, pointerId: 1, isPrimary: true });
+}
+
+describe('DrawingView prompt choice', () => {
+  it('blocks drawing and submitting until a prompt is picked', () => {
+    // Arrange: candidates dealt, none picked yet
+    const { props, onSubmit } = setup({ promptChoices: ['cat', 'dog', 'bird'], onChoosePrompt: vi.fn() });
+    expect(screen.getByRole('group', { name: /prompt choices/i })).toBeInTheDocument();
+
+    // Act: try to draw, then to submit
+    drawStroke(props.canvasRef);
+    const submit = screen.getByRole('button', { name: /submit drawing/i });
+    fireEvent.click(submit);
+
+    // Assert: no stroke was recorded and nothing was submitted
+    expect(submit).toBeDisabled();
+    expect(onSubmit).not.toHaveBeenCalled();
+    for (const undo of screen.getAllByRole('button', { name: /^undo$/i })) expect(undo).toBeDisabled();
+  });
+
+  it('draws and submits once the prompt is set', () => {
+    const { props, onSubmit } = setup({ prompt: 'cat' });
+
+    drawStroke(props.canvasRef);
+    fireEvent.click(screen.getByRole('button', { name: /submit drawing/i }));
+
+    expect(onSubmit).toHaveBeenCalled();
+    expect(screen.getAllByRole('button', { name: /^undo$/i }).some((undo) => !(undo as HTMLButtonElement).disabled)).toBe(true);
+  });
+});
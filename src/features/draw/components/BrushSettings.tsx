@@ -0,0 +1,37 @@
+type Props = {
+  brushSize: number;
+  color: string;
+  onChangeBrushSize: (size: number) => void;
+  smoothing: boolean;
+  onChangeSmoothing: (smoothing: boolean) => void;
+};
+
+// Brush size slider with preview, plus the smoothing/pressure toggle
+export function BrushSettings({ brushSize, color, onChangeBrushSize, smoothing, onChangeSmoothing }: Props) {
+  const dot = Math.max(2, Math.min(brushSize, 40));
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-slate-600">Brush size: {brushSize}px</div>
+        <div className="brush-preview" aria-hidden>
+          <span className="brush-dot" style={{ width: dot, height: dot, background: color }} />
+        </div>
+      </div>
+      <input
+        className="range"
+        type="range"
+        min={2}
+        max={40}
+        value={brushSize}
+        onChange={(e) => onChangeBrushSize(Number(e.target.value))}
+        aria-label="Brush size"
+      />
+      <label className="mt-1 flex items-center gap-2 text-sm text-slate-600" title="Curved strokes, stylus pressure and full pointer precision">
+        <input type="checkbox" checked={smoothing} onChange={(e) => onChangeSmoothing(e.target.checked)} />
+        Smooth strokes
+      </label>
+    </div>
+  );
+}
+
+export default BrushSettings;
@@ -0,0 +1,69 @@
+type Props = {
+  tolerance: number;
+  onChangeTolerance: (tolerance: number) => void;
+  expand: number;
+  onChangeExpand: (expand: number) => void;
+  // Which pixels decide the fill region; omitted when there is only one layer
+  sampleAll?: boolean;
+  onChangeSampleAll?: (sampleAll: boolean) => void;
+};
+
+const EXPAND_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: '1px' },
+  { value: 2, label: '2px' },
+];
+
+// Bucket tool options: how similar a color must be to get filled, and edge gap closing
+export function FillSettings({ tolerance, onChangeTolerance, expand, onChangeExpand, sampleAll, onChangeSampleAll }: Props) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div>
+        <div className="text-sm text-slate-600">Fill tolerance: {tolerance}</div>
+        <input
+          className="range"
+          type="range"
+          min={0}
+          max={128}
+          value={tolerance}
+          onChange={(e) => onChangeTolerance(Number(e.target.value))}
+          aria-label="Fill tolerance"
+        />
+      </div>
+      <div>
+        <div className="text-sm text-slate-600 mb-1">Fill under edges</div>
+        <div className="flex gap-2" role="group" aria-label="Fill under edges">
+          {EXPAND_OPTIONS.map((o) => (
+            <button
+              key={o.value}
+              className={`rounded-[12px] border px-2.5 py-1 text-sm ${expand === o.value ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={expand === o.value}
+              onClick={() => onChangeExpand(o.value)}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {onChangeSampleAll && (
+        <div>
+          <div className="text-sm text-slate-600 mb-1">Fill sees</div>
+          <div className="flex gap-2" role="group" aria-label="Fill sees">
+            {[false, true].map((all) => (
+              <button
+                key={String(all)}
+                className={`rounded-[12px] border px-2.5 py-1 text-sm ${!!sampleAll === all ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                aria-pressed={!!sampleAll === all}
+                onClick={() => onChangeSampleAll(all)}
+              >
+                {all ? 'All layers' : 'This layer'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FillSettings;
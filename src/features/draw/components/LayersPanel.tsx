@@ -0,0 +1,64 @@
+import { ArrowDown, ArrowUp, Eye, EyeOff } from 'lucide-react';
+import { BACKGROUND_LAYER_ID } from '../../../lib/layers';
+import type { Layer } from '../../../lib/layers';
+
+type Props = {
+  layers: Layer[]; // bottom to top
+  activeLayer: number;
+  onSelect: (id: number) => void;
+  onToggleVisibility: (id: number) => void;
+  onMove: (id: number, dir: 1 | -1) => void;
+};
+
+// Layer list, topmost first: pick the layer to draw on, hide/show it, or move it up and down
+export function LayersPanel({ layers, activeLayer, onSelect, onToggleVisibility, onMove }: Props) {
+  const topFirst = [...layers].reverse();
+  return (
+    <div>
+      <div className="text-sm text-slate-600 mb-1">Layers</div>
+      <ul className="flex flex-col gap-1" aria-label="Layers">
+        {topFirst.map((layer, i) => {
+          const active = layer.id === activeLayer;
+          const isBackground = layer.id === BACKGROUND_LAYER_ID;
+          const isTop = i === 0;
+          const aboveBackground = layers[1]?.id === layer.id;
+          return (
+            <li
+              key={layer.id}
+              className={`flex items-center gap-1 rounded-md border px-1 py-0.5 ${active ? 'border-blue-500 bg-blue-50' : 'border-slate-200 bg-white'}`}
+            >
+              <button
+                className="btn icon small"
+                onClick={() => onToggleVisibility(layer.id)}
+                aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                aria-pressed={!layer.visible}
+              >
+                {layer.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+              </button>
+              <button
+                className={`flex-1 text-left text-sm truncate ${layer.visible ? 'text-slate-900' : 'text-slate-400'}`}
+                onClick={() => onSelect(layer.id)}
+                aria-pressed={active}
+                aria-label={`Draw on ${layer.name}`}
+              >
+                {layer.name}
+              </button>
+              {!isBackground && (
+                <>
+                  <button className="btn icon small" onClick={() => onMove(layer.id, 1)} disabled={isTop} aria-label={`Move ${layer.name} up`}>
+                    <ArrowUp size={14} />
+                  </button>
+                  <button className="btn icon small" onClick={() => onMove(layer.id, -1)} disabled={aboveBackground} aria-label={`Move ${layer.name} down`}>
+                    <ArrowDown size={14} />
+                  </button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default LayersPanel;
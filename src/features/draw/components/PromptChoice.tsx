@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+
+type Props = {
+  choices: string[];
+  endsAtMs: number | null;
+  onChoose: (index: number) => void;
+};
+
+const secondsUntil = (ms: number | null) => (ms ? Math.max(0, Math.ceil((ms - Date.now()) / 1000)) : 0);
+
+// Prompt choice: the candidates dealt to this player; the server picks the first when time runs out
+export function PromptChoice({ choices, endsAtMs, onChoose }: Props) {
+  const [remaining, setRemaining] = useState(() => secondsUntil(endsAtMs));
+  const [picked, setPicked] = useState<number | null>(null);
+
+  useEffect(() => {
+    setRemaining(secondsUntil(endsAtMs));
+    const interval = window.setInterval(() => setRemaining(secondsUntil(endsAtMs)), 1000);
+    return () => window.clearInterval(interval);
+  }, [endsAtMs]);
+
+  return (
+    <>
+      <div className="text-xs text-slate-500" aria-live="polite">Pick your prompt ({remaining}s)</div>
+      <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Prompt choices">
+        {choices.map((choice, i) => (
+          <button
+            key={choice}
+            className="btn small"
+            disabled={picked !== null}
+            onClick={() => {
+              setPicked(i);
+              onChoose(i);
+            }}
+          >
+            {choice}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+export default PromptChoice;
@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { DRAWING_SHORTCUTS } from '../../../lib/useDrawingShortcuts';
+
+export function ShortcutsHelp({ open, onClose }: { open: boolean; onClose: () => void }) {
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', onKeyDown, true);
+    return () => document.removeEventListener('keydown', onKeyDown, true);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose}>
+      <div className="modal-panel" role="dialog" aria-modal="true" aria-labelledby="shortcuts-title" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2 id="shortcuts-title" className="modal-title">Keyboard shortcuts</h2>
+        </div>
+        <div className="modal-body">
+          <dl className="m-0 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-left">
+            {DRAWING_SHORTCUTS.map((s) => (
+              <div key={s.keys} className="contents">
+                <dt><kbd className="badge">{s.keys}</kbd></dt>
+                <dd className="m-0 text-slate-700">{s.action}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="text-slate-500 text-sm mt-3">Shortcuts are paused while typing in the chat.</div>
+        </div>
+        <div className="modal-footer">
+          <button className="btn inline ghost" onClick={onClose} autoFocus>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutsHelp;
@@ -0,0 +1,60 @@
+import type { ReactNode } from 'react';
+import { Brush, Circle, Eraser, PaintBucket, Slash, Square } from 'lucide-react';
+import type { DrawingTool } from '../DrawingView';
+
+const TOOLS: { key: DrawingTool; label: string; icon: ReactNode }[] = [
+  { key: 'brush', label: 'Brush', icon: <Brush size={18} /> },
+  { key: 'eraser', label: 'Eraser', icon: <Eraser size={18} /> },
+  { key: 'bucket', label: 'Bucket', icon: <PaintBucket size={18} /> },
+  { key: 'line', label: 'Line', icon: <Slash size={18} /> },
+  { key: 'rect', label: 'Rectangle', icon: <Square size={18} /> },
+  { key: 'ellipse', label: 'Ellipse', icon: <Circle size={18} /> },
+];
+
+type Props = {
+  selectedTool: DrawingTool;
+  onChangeTool: (tool: DrawingTool) => void;
+  shapeFilled: boolean;
+  onChangeShapeFilled: (filled: boolean) => void;
+  children?: ReactNode; // extra buttons at the end of the tool row
+};
+
+// Tool buttons shared by the desktop, mobile and drawer tool panels
+export function ToolPalette({ selectedTool, onChangeTool, shapeFilled, onChangeShapeFilled, children }: Props) {
+  const fillable = selectedTool === 'rect' || selectedTool === 'ellipse';
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Drawing tools">
+        {TOOLS.map((t) => (
+          <button
+            key={t.key}
+            className={`btn icon ${selectedTool === t.key ? 'primary' : ''}`}
+            onClick={() => onChangeTool(t.key)}
+            aria-label={t.label}
+            aria-pressed={selectedTool === t.key}
+            title={t.label}
+          >
+            {t.icon}
+          </button>
+        ))}
+        {children}
+      </div>
+      {fillable && (
+        <div className="flex gap-2" role="group" aria-label="Shape style">
+          {[false, true].map((filled) => (
+            <button
+              key={String(filled)}
+              className={`rounded-[12px] border px-2.5 py-1 text-sm ${shapeFilled === filled ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={shapeFilled === filled}
+              onClick={() => onChangeShapeFilled(filled)}
+            >
+              {filled ? 'Filled' : 'Outline'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ToolPalette;
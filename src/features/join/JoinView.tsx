@@ -1,4 +1,4 @@
-// No React import needed for react-jsx runtime
+import React from 'react';
 import { validateNickname } from '../../lib/validation';
 
 export function JoinView({
@@ -6,6 +6,12 @@ export function JoinView({
   inputCode,
   joinError,
   setInputCode,
+  spectator = false,
+  onSpectatorChange,
+  onNicknameChange,
+  passcodeRequired = false,
+  passcode = '',
+  setPasscode,
   onJoin,
   onBack,
 }: {
@@ -13,17 +19,47 @@ export function JoinView({
   inputCode: string;
   joinError: string;
   setInputCode: (code: string) => void;
+  // Set for invite links, which skip the menu: the nickname is entered here
+  onNicknameChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  spectator?: boolean;
+  onSpectatorChange?: (spectator: boolean) => void;
+  // Shown once the server asked for the room's passcode
+  passcodeRequired?: boolean;
+  passcode?: string;
+  setPasscode?: (passcode: string) => void;
   onJoin: () => void;
   onBack: () => void;
 }) {
-  const isNicknameInvalid = !!validateNickname(nickname);
+  const nicknameError = validateNickname(nickname);
+  const isNicknameInvalid = !!nicknameError;
   const isCodeInvalid = inputCode.trim().length !== 5;
+  const isPasscodeMissing = passcodeRequired && !passcode;
+  const joinDisabled = isNicknameInvalid || isCodeInvalid || isPasscodeMissing;
   return (
     <div className="w-full max-w-[560px] mx-auto text-center">
       <h2 className="text-[clamp(24px,3.5vw,32px)] font-bold mb-2">Join Room</h2>
-      <div className="text-slate-500">
-        Playing as: <b>{nickname}</b>
-      </div>
+      {onNicknameChange ? (
+        <>
+          <div className="text-slate-500">You were invited to a room. Pick a nickname to join.</div>
+          <div className="label mb-2 mt-4">Nickname</div>
+          <input
+            className="input"
+            placeholder="Enter your nickname"
+            value={nickname}
+            onChange={onNicknameChange}
+            maxLength={15}
+            aria-label="Nickname"
+            aria-invalid={!!nickname && isNicknameInvalid}
+            aria-describedby={nickname && nicknameError ? 'join-nickname-error' : undefined}
+            autoFocus
+          />
+          {nickname && nicknameError && <div id="join-nickname-error" className="error">{nicknameError}</div>}
+        </>
+      ) : (
+        <div className="text-slate-500">
+          Playing as: <b>{nickname}</b>
+        </div>
+      )}
       <div className="label mb-2 mt-4">Room code</div>
       <input
         className="input"
@@ -32,9 +68,33 @@ export function JoinView({
         onChange={(e) => setInputCode(e.target.value.toUpperCase())}
         maxLength={5}
       />
+      {passcodeRequired && (
+        <>
+          <div className="label mb-2 mt-4">Passcode</div>
+          <input
+            className="input"
+            type="password"
+            placeholder="Room passcode"
+            value={passcode}
+            onChange={(e) => setPasscode?.(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !joinDisabled) onJoin();
+            }}
+            maxLength={20}
+            aria-label="Room passcode"
+            autoFocus
+          />
+        </>
+      )}
+      {onSpectatorChange && (
+        <label className="mt-2 flex items-center justify-center gap-2 text-sm text-slate-600" title="Watch and chat without drawing">
+          <input type="checkbox" checked={spectator} onChange={(e) => onSpectatorChange(e.target.checked)} />
+          Join as spectator
+        </label>
+      )}
       {joinError && <div className="error">{joinError}</div>}
       <div className="flex justify-center gap-2 flex-wrap mt-2">
-        <button className="btn primary" onClick={onJoin} disabled={isNicknameInvalid || isCodeInvalid} aria-disabled={isNicknameInvalid || isCodeInvalid}>
+        <button className="btn primary" onClick={onJoin} disabled={joinDisabled} aria-disabled={joinDisabled}>
           Join
         </button>
         <button className="btn secondary" onClick={onBack}>
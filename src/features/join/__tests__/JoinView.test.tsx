@@ -136,6 +136,35 @@ describe('JoinView', () => {
     expect(onBack).toHaveBeenCalledTimes(1);
   });
 
+  it('offers a spectator toggle when the parent handles it', async () => {
+    const user = userEvent.setup();
+    const onSpectatorChange = vi.fn();
+    render(
+      <JoinView nickname="Alex" inputCode="" joinError="" setInputCode={vi.fn()} onJoin={vi.fn()} onBack={vi.fn()} onSpectatorChange={onSpectatorChange} />
+    );
+    const toggle = screen.getByRole('checkbox', { name: /join as spectator/i });
+    expect(toggle).not.toBeChecked();
+    await user.click(toggle);
+    expect(onSpectatorChange).toHaveBeenCalledWith(true);
+  });
+
+  it('asks for the passcode once required and keeps Join disabled until it is entered', async () => {
+    const user = userEvent.setup();
+    const onJoin = vi.fn();
+    function WithPasscode() {
+      const [passcode, setPasscode] = useState('');
+      return (
+        <JoinView nickname="Alex" inputCode="ABCDE" joinError="This room needs a passcode" setInputCode={vi.fn()} onJoin={onJoin} onBack={vi.fn()} passcodeRequired passcode={passcode} setPasscode={setPasscode} />
+      );
+    }
+    render(<WithPasscode />);
+    const join = screen.getByRole('button', { name: /^join$/i });
+    expect(join).toBeDisabled();
+    await user.type(screen.getByLabelText(/room passcode/i), 'secret{Enter}');
+    expect(onJoin).toHaveBeenCalledTimes(1);
+    expect(join).toBeEnabled();
+  });
+
   // Error rendering
   it('renders joinError message when provided', () => {
     setup({ nickname: 'Alex', joinError: 'Room not found' });
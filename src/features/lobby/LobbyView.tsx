@@ -1,38 +1,87 @@
 // No React import needed for react-jsx runtime
 import { useMemo, useState } from 'react';
+import { Ban, Crown, UserX } from 'lucide-react';
 import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
-import type { Player } from '../../types';
+import type { DeckStatus, Difficulty, GameMode, Player, PromptPackSummary } from '../../types';
 import GameSettingsPanel from '../settings/GameSettingsPanel';
+import { inviteLink } from '../../lib/invite';
 
 export function LobbyView({
-  players,
+  players: allMembers,
   roomCode,
   isHost,
   roundDuration,
-  category,
+  categories,
+  totalRounds,
+  mode,
   onRoundDurationChange,
-  onCategoryChange,
+  onCategoriesChange,
+  onTotalRoundsChange,
+  onModeChange,
+  difficulties,
+  onDifficultiesChange,
+  promptChoice,
+  onPromptChoiceChange,
+  hasPasscode,
+  locked,
+  onPasscodeChange,
+  onLockedChange,
+  isPublic,
+  onPublicChange,
+  promptPack,
+  onPromptPackChange,
+  deck,
+  onResetDeck,
   onStart,
   onToggleReady,
   onQuit,
   myId,
   hostId: hostIdProp,
+  onKick,
+  onBan,
+  onMakeHost,
 }: {
   players: Player[];
   roomCode: string;
   isHost: boolean;
   roundDuration: number;
-  category?: string | null;
+  categories?: string[];
   onRoundDurationChange: (val: number) => void;
-  onCategoryChange?: (cat: string | null) => void;
+  onCategoriesChange?: (categories: string[]) => void;
+  totalRounds?: number;
+  onTotalRoundsChange?: (rounds: number) => void;
+  mode?: GameMode;
+  onModeChange?: (mode: GameMode) => void;
+  difficulties?: Difficulty[];
+  onDifficultiesChange?: (difficulties: Difficulty[]) => void;
+  promptChoice?: boolean;
+  onPromptChoiceChange?: (promptChoice: boolean) => void;
+  hasPasscode?: boolean;
+  locked?: boolean;
+  onPasscodeChange?: (passcode: string | null) => void;
+  onLockedChange?: (locked: boolean) => void;
+  isPublic?: boolean;
+  onPublicChange?: (isPublic: boolean) => void;
+  promptPack?: PromptPackSummary | null;
+  onPromptPackChange?: (text: string | null) => void;
+  deck?: DeckStatus | null;
+  onResetDeck?: () => void;
   onStart: () => void;
   onToggleReady: () => void;
   onQuit: () => void;
   myId?: string;
   hostId?: string;
+  // Host moderation; the actions show on other players' rows when provided
+  onKick?: (playerId: string) => void;
+  onBan?: (playerId: string) => void;
+  onMakeHost?: (playerId: string) => void;
 }) {
   // Use explicit hostId from server, fallback to players[0] for backwards compatibility
-  const hostId = hostIdProp ?? (players.length > 0 ? players[0].id : undefined);
+  const hostId = hostIdProp ?? (allMembers.length > 0 ? allMembers[0].id : undefined);
+  // Spectators are listed apart and never need to be ready
+  const spectators = useMemo(() => allMembers.filter(p => p.role === 'spectator'), [allMembers]);
+  const players = useMemo(() => allMembers.filter(p => p.role !== 'spectator'), [allMembers]);
+  const amSpectator = spectators.some(p => p.id === myId);
   const allNonHostReady = useMemo(() => players.filter(p => p.id !== hostId).every(p => p.isReady), [players, hostId]);
   const totalPlayers = players.length;
   const readyIncludingHost = useMemo(() => {
@@ -42,7 +91,9 @@ export function LobbyView({
   }, [players, hostId]);
 
   const [copied, setCopied] = useState<boolean>(false);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   const [confirmOpen, setConfirmOpen] = useState<boolean>(false);
+  const [pendingRemoval, setPendingRemoval] = useState<{ player: Player; ban: boolean } | null>(null);
 
   const sortedPlayers = useMemo(() => {
     // Stable sort: host first, then ready users, then by nickname
@@ -109,6 +160,38 @@ export function LobbyView({
     }
   }
 
+  // Kick/ban ask for confirmation first; "make host" hands over right away
+  function renderHostActions(p: Player) {
+    if (!isHost || p.id === myId) return null;
+    return (
+      <div className="flex gap-1" role="group" aria-label={`Host actions for ${p.nickname}`}>
+        {onMakeHost && p.role !== 'spectator' && (
+          <button className="btn small" title="Make host" aria-label={`Make ${p.nickname} host`} onClick={() => onMakeHost(p.id)}>
+            <Crown size={14} aria-hidden />
+          </button>
+        )}
+        {onKick && (
+          <button className="btn small" title="Kick" aria-label={`Kick ${p.nickname}`} onClick={() => setPendingRemoval({ player: p, ban: false })}>
+            <UserX size={14} aria-hidden />
+          </button>
+        )}
+        {onBan && (
+          <button className="btn small danger" title="Kick and ban" aria-label={`Ban ${p.nickname}`} onClick={() => setPendingRemoval({ player: p, ban: true })}>
+            <Ban size={14} aria-hidden />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  async function handleCopyInviteLink() {
+    const ok = await copyText(inviteLink(roomCode));
+    if (ok) {
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 1500);
+    }
+  }
+
   return (
     <div className="w-full text-center">
       <div className="mx-auto max-w-[640px]">
@@ -130,6 +213,9 @@ export function LobbyView({
           <button className="copy-btn" title="Copy room code" onClick={handleCopyRoomCode}>
             {copied ? 'Copied!' : 'Copy'}
           </button>
+          <button className="copy-btn" title="Copy a link that opens this room" onClick={handleCopyInviteLink}>
+            {linkCopied ? 'Link copied!' : 'Copy invite link'}
+          </button>
         </div>
       </div>
 
@@ -149,14 +235,38 @@ export function LobbyView({
                     {p.id === myId ? ' (you)' : ''}
                   </div>
                 </div>
-                {p.id === hostId ? (
-                  <div className="badge host">Host</div>
-                ) : (
-                  <div className={p.isReady ? 'badge ready' : 'badge waiting'}>{p.isReady ? 'Ready' : 'Not ready'}</div>
-                )}
+                <div className="flex items-center gap-2">
+                  {renderHostActions(p)}
+                  {p.waiting ? (
+                    <div className="badge waiting">Waiting for next round</div>
+                  ) : p.id === hostId ? (
+                    <div className="badge host">Host</div>
+                  ) : (
+                    <div className={p.isReady ? 'badge ready' : 'badge waiting'}>{p.isReady ? 'Ready' : 'Not ready'}</div>
+                  )}
+                </div>
               </div>
             ))}
           </div>
+          {spectators.length > 0 && (
+            <>
+              <h3 className="m-0 mt-4 mb-2">Spectators</h3>
+              <div className="players spectators">
+                {spectators.map((p) => (
+                  <div key={p.id} className="player-row">
+                    <div className="truncate max-w-[200px]">
+                      {p.nickname}
+                      {p.id === myId ? ' (you)' : ''}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {renderHostActions(p)}
+                      {p.id === hostId ? <div className="badge host">Host</div> : <div className="badge waiting">Watching</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </div>
 
         {/* Game settings */}
@@ -164,9 +274,27 @@ export function LobbyView({
           <GameSettingsPanel
             isHost={isHost}
             roundDuration={roundDuration}
-            category={category}
+            categories={categories}
+            totalRounds={totalRounds}
+            mode={mode}
             onRoundDurationChange={onRoundDurationChange}
-            onCategoryChange={onCategoryChange}
+            onCategoriesChange={onCategoriesChange}
+            onTotalRoundsChange={onTotalRoundsChange}
+            onModeChange={onModeChange}
+            difficulties={difficulties}
+            onDifficultiesChange={onDifficultiesChange}
+            promptChoice={promptChoice}
+            onPromptChoiceChange={onPromptChoiceChange}
+            hasPasscode={hasPasscode}
+            locked={locked}
+            onPasscodeChange={onPasscodeChange}
+            onLockedChange={onLockedChange}
+            isPublic={isPublic}
+            onPublicChange={onPublicChange}
+            promptPack={promptPack}
+            onPromptPackChange={onPromptPackChange}
+            deck={deck}
+            onResetDeck={onResetDeck}
           />
         </div>
       </div>
@@ -189,7 +317,7 @@ export function LobbyView({
               <button
                 className="btn danger cta flex-1 min-w-[160px]"
                 onClick={() => {
-                  const othersPresent = players.length > 1;
+                  const othersPresent = allMembers.length > 1;
                   if (othersPresent) setConfirmOpen(true); else onQuit();
                 }}
               >
@@ -198,9 +326,13 @@ export function LobbyView({
               <div className="label self-center min-w-[88px] text-center" aria-live="polite">
                 {readyIncludingHost}/{totalPlayers} ready
               </div>
-              <button className="btn primary cta flex-1 min-w-[160px]" onClick={onToggleReady}>
-                {players.find((p) => p.id === myId)?.isReady ? 'Not ready' : "I'm ready"}
-              </button>
+              {amSpectator ? (
+                <div className="label self-center flex-1 min-w-[160px] text-center">Spectating</div>
+              ) : (
+                <button className="btn primary cta flex-1 min-w-[160px]" onClick={onToggleReady}>
+                  {players.find((p) => p.id === myId)?.isReady ? 'Not ready' : "I'm ready"}
+                </button>
+              )}
             </>
           )}
       </div>
@@ -222,7 +354,7 @@ export function LobbyView({
             <>
               <button className="btn danger cta flex-1 shrink"
                 onClick={() => {
-                  const othersPresent = players.length > 1;
+                  const othersPresent = allMembers.length > 1;
                   if (othersPresent) setConfirmOpen(true); else onQuit();
                 }}
               >
@@ -231,9 +363,13 @@ export function LobbyView({
               <div className="label self-center min-w-0 text-center truncate" aria-live="polite">
                 {readyIncludingHost}/{totalPlayers} ready
               </div>
-              <button className="btn primary cta flex-1 shrink" onClick={onToggleReady}>
-                {players.find((p) => p.id === myId)?.isReady ? 'Not ready' : "I'm ready"}
-              </button>
+              {amSpectator ? (
+                <div className="label self-center flex-1 shrink text-center">Spectating</div>
+              ) : (
+                <button className="btn primary cta flex-1 shrink" onClick={onToggleReady}>
+                  {players.find((p) => p.id === myId)?.isReady ? 'Not ready' : "I'm ready"}
+                </button>
+              )}
             </>
           )}
         </div>
@@ -252,6 +388,19 @@ export function LobbyView({
           onQuit();
         }}
       />
+      <ConfirmDialog
+        open={!!pendingRemoval}
+        title={pendingRemoval?.ban ? `Ban ${pendingRemoval.player.nickname}?` : `Kick ${pendingRemoval?.player.nickname ?? ''}?`}
+        description={pendingRemoval?.ban ? 'They will not be able to rejoin this room.' : 'They can rejoin with the room code.'}
+        confirmLabel={pendingRemoval?.ban ? 'Kick & Ban' : 'Kick'}
+        cancelLabel="Cancel"
+        tone="danger"
+        onCancel={() => setPendingRemoval(null)}
+        onConfirm={() => {
+          if (pendingRemoval) (pendingRemoval.ban ? onBan : onKick)?.(pendingRemoval.player.id);
+          setPendingRemoval(null);
+        }}
+      />
     </div>
   );
 }
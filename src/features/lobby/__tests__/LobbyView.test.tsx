@@ -28,7 +28,7 @@ function setup(overrides?: Partial<React.ComponentProps<typeof LobbyView>>) {
   const onToggleReady = vi.fn();
   const onQuit = vi.fn();
   const onRoundDurationChange = vi.fn();
-  const onCategoryChange = vi.fn();
+  const onCategoriesChange = vi.fn();
 
   const result = render(
     <LobbyView
@@ -36,17 +36,26 @@ function setup(overrides?: Partial<React.ComponentProps<typeof LobbyView>>) {
       roomCode={overrides?.roomCode ?? 'ABCD'}
       isHost={overrides?.isHost ?? true}
       roundDuration={overrides?.roundDuration ?? 60}
-      category={overrides?.category ?? null}
+      categories={overrides?.categories ?? []}
       onRoundDurationChange={overrides?.onRoundDurationChange ?? onRoundDurationChange}
-      onCategoryChange={overrides?.onCategoryChange ?? onCategoryChange}
+      onCategoriesChange={overrides?.onCategoriesChange ?? onCategoriesChange}
       onStart={overrides?.onStart ?? onStart}
       onToggleReady={overrides?.onToggleReady ?? onToggleReady}
       onQuit={overrides?.onQuit ?? onQuit}
       myId={overrides?.myId ?? 'h1'}
       hostId={overrides?.hostId ?? 'h1'}
+      onKick={overrides?.onKick}
+      onBan={overrides?.onBan}
+      onMakeHost={overrides?.onMakeHost}
+      promptPack={overrides?.promptPack}
+      onPromptPackChange={overrides?.onPromptPackChange}
+      difficulties={overrides?.difficulties}
+      onDifficultiesChange={overrides?.onDifficultiesChange}
+      deck={overrides?.deck}
+      onResetDeck={overrides?.onResetDeck}
     />
   );
-  return { ...result, onStart, onToggleReady, onQuit, onRoundDurationChange, onCategoryChange };
+  return { ...result, onStart, onToggleReady, onQuit, onRoundDurationChange, onCategoriesChange };
 }
 
 describe('LobbyView', () => {
@@ -93,6 +102,77 @@ describe('LobbyView', () => {
     expect(within(rows[3]).getByText(/not ready/i)).toBeInTheDocument();
   });
 
+  it('shows players who joined mid-round as waiting for the next round', () => {
+    const { container } = setup({
+      players: [
+        { id: 'h1', nickname: 'Hosty', isReady: false },
+        { id: 'l1', nickname: 'Latecomer', isReady: false, waiting: true },
+      ],
+    });
+    const rows = Array.from(container.querySelectorAll('.players .player-row')) as HTMLElement[];
+    const late = rows.find((r) => r.textContent?.includes('Latecomer')) as HTMLElement;
+    expect(within(late).getByText('Waiting for next round')).toBeInTheDocument();
+    expect(within(late).queryByText('Not ready')).not.toBeInTheDocument();
+  });
+
+  it('lists spectators in their own section and leaves them out of the ready count', () => {
+    const { container } = setup({
+      players: [
+        { id: 'h1', nickname: 'Hosty', isReady: true },
+        { id: 'a1', nickname: 'Alice', isReady: true },
+        { id: 's1', nickname: 'Watcher', isReady: false, role: 'spectator' },
+      ],
+    });
+    const playerRows = container.querySelectorAll('.players:not(.spectators) .player-row');
+    expect(playerRows).toHaveLength(2);
+    const spectatorSection = container.querySelector('.players.spectators') as HTMLElement;
+    expect(within(spectatorSection).getByText('Watcher')).toBeInTheDocument();
+    expect(screen.getAllByText('2/2 ready').length).toBeGreaterThan(0);
+    expect(screen.getAllByRole('button', { name: /start game/i })[0]).toBeEnabled();
+  });
+
+  it('shows spectators a label instead of the ready toggle', () => {
+    setup({
+      players: [
+        { id: 'h1', nickname: 'Hosty', isReady: true },
+        { id: 's1', nickname: 'Watcher', isReady: false, role: 'spectator' },
+      ],
+      myId: 's1',
+      isHost: false,
+    });
+    expect(screen.queryByRole('button', { name: /i'm ready/i })).not.toBeInTheDocument();
+    expect(screen.getAllByText('Spectating').length).toBe(2);
+  });
+
+  it('host can kick or ban after confirming, and hand over host right away', async () => {
+    const user = userEvent.setup();
+    const onKick = vi.fn();
+    const onBan = vi.fn();
+    const onMakeHost = vi.fn();
+    setup({ onKick, onBan, onMakeHost });
+    // No actions on the host's own row
+    expect(screen.queryByRole('group', { name: /host actions for hosty/i })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Make Alice host' }));
+    expect(onMakeHost).toHaveBeenCalledWith('a1');
+
+    await user.click(screen.getByRole('button', { name: 'Kick Bob' }));
+    const kickDialog = screen.getByRole('dialog', { name: /kick bob/i });
+    await user.click(within(kickDialog).getByRole('button', { name: /^kick$/i }));
+    expect(onKick).toHaveBeenCalledWith('b1');
+
+    await user.click(screen.getByRole('button', { name: 'Ban Bob' }));
+    const banDialog = screen.getByRole('dialog', { name: /ban bob/i });
+    await user.click(within(banDialog).getByRole('button', { name: /kick & ban/i }));
+    expect(onBan).toHaveBeenCalledWith('b1');
+    expect(onKick).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not show host actions to other players', () => {
+    setup({ isHost: false, myId: 'a1', onKick: vi.fn(), onBan: vi.fn(), onMakeHost: vi.fn() });
+    expect(screen.queryByRole('button', { name: /^kick /i })).not.toBeInTheDocument();
+  });
+
   it('marks the current user with (you)', () => {
     const players = [
       { id: 'h1', nickname: 'Hosty', isReady: false },
@@ -328,9 +408,9 @@ describe('LobbyView', () => {
     // Single component rendered; first 60 s is the only one
     const preset60Disabled = screen.getByRole('button', { name: /60 s/i });
     expect(preset60Disabled).toBeDisabled();
-    // Category radios are role="radio"; ensure aria-disabled/disabled present
-    const radios = screen.getAllByRole('radio');
-    for (const r of radios) {
+    // Category options are role="checkbox"; ensure aria-disabled/disabled present
+    const options = screen.getAllByRole('checkbox');
+    for (const r of options) {
       expect(r).toHaveAttribute('aria-disabled', 'true');
       expect(r).toBeDisabled();
     }
@@ -348,6 +428,18 @@ describe('LobbyView', () => {
     expect(copyBtn).toHaveTextContent(/copied!/i);
   });
 
+  it('copies an invite link that opens the join screen with the code', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    setup({ roomCode: 'ABCDE' });
+    const linkBtn = screen.getByRole('button', { name: /copy invite link/i });
+    await user.click(linkBtn);
+    expect(writeText).toHaveBeenCalledWith(`${window.location.origin}/join?code=ABCDE`);
+    expect(linkBtn).toHaveTextContent(/link copied!/i);
+  });
+
   it('copies room code from the room chip via Enter and Space keys', async () => {
     const user = userEvent.setup();
     const writeText = vi.fn().mockResolvedValue(undefined);
@@ -379,6 +471,103 @@ describe('LobbyView', () => {
     await user.click(copyBtn);
     expect(execMock).toHaveBeenCalledWith('copy');
   });
+
+  it('lets the host paste custom prompts after checking them', async () => {
+    const onPromptPackChange = vi.fn();
+    setup({ onPromptPackChange });
+    const input = screen.getByRole('textbox', { name: /custom prompts/i });
+
+    await userEvent.type(input, 'cat{enter}bad!{enter}dog');
+    await userEvent.click(screen.getByRole('button', { name: /use prompts/i }));
+    expect(screen.getByRole('alert')).toHaveTextContent(/invalid characters/i);
+    expect(onPromptPackChange).not.toHaveBeenCalled();
+
+    await userEvent.clear(input);
+    await userEvent.type(input, 'cat{enter}bird{enter}dog');
+    expect(screen.getByText('3 prompts')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /use prompts/i }));
+    expect(onPromptPackChange).toHaveBeenCalledWith('cat\nbird\ndog');
+  });
+
+  it('offers the custom categories of the prompt pack', async () => {
+    const onCategoriesChange = vi.fn();
+    const onPromptPackChange = vi.fn();
+    setup({ onCategoriesChange, onPromptPackChange, promptPack: { categories: ['Movies', 'Food'], count: 12 } });
+    expect(screen.getByText(/12 custom prompts in 2 categories/i)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('checkbox', { name: /movies/i }));
+    expect(onCategoriesChange).toHaveBeenCalledWith(['custom:Movies']);
+    await userEvent.click(screen.getByRole('checkbox', { name: /^custom$/i }));
+    expect(onCategoriesChange).toHaveBeenCalledWith(['custom']);
+    await userEvent.click(screen.getByRole('button', { name: /remove prompts/i }));
+    expect(onPromptPackChange).toHaveBeenCalledWith(null);
+  });
+
+  it('lets the host tick several categories, with Random clearing them', async () => {
+    const onCategoriesChange = vi.fn();
+    setup({ onCategoriesChange, categories: ['animals'] });
+    expect(screen.getByRole('checkbox', { name: /animals/i })).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getByRole('checkbox', { name: /random/i })).toHaveAttribute('aria-checked', 'false');
+    await userEvent.click(screen.getByRole('checkbox', { name: /food/i }));
+    expect(onCategoriesChange).toHaveBeenLastCalledWith(['animals', 'food']);
+    await userEvent.click(screen.getByRole('checkbox', { name: /animals/i }));
+    expect(onCategoriesChange).toHaveBeenLastCalledWith([]);
+    await userEvent.click(screen.getByRole('checkbox', { name: /random/i }));
+    expect(onCategoriesChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('lets the host choose the prompt difficulties but keeps at least one', async () => {
+    const onDifficultiesChange = vi.fn();
+    const { rerender } = setup({ difficulties: ['easy', 'medium', 'hard'], onDifficultiesChange });
+    await userEvent.click(screen.getByRole('button', { name: 'Easy' }));
+    expect(onDifficultiesChange).toHaveBeenLastCalledWith(['medium', 'hard']);
+
+    rerender(
+      <LobbyView
+        players={makePlayers()}
+        roomCode="ABCD"
+        isHost
+        roundDuration={60}
+        onRoundDurationChange={vi.fn()}
+        onStart={vi.fn()}
+        onToggleReady={vi.fn()}
+        onQuit={vi.fn()}
+        myId="h1"
+        hostId="h1"
+        difficulties={['hard']}
+        onDifficultiesChange={onDifficultiesChange}
+      />
+    );
+    expect(screen.getByRole('button', { name: 'Hard' })).toHaveAttribute('aria-pressed', 'true');
+    await userEvent.click(screen.getByRole('button', { name: 'Hard' }));
+    expect(onDifficultiesChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the prompts left in the deck and lets the host reset it', async () => {
+    const onResetDeck = vi.fn();
+    const { rerender } = setup({ deck: { remaining: 8, total: 10 }, onResetDeck });
+    expect(screen.getByText('8 of 10 prompts left')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /reset deck/i }));
+    expect(onResetDeck).toHaveBeenCalled();
+
+    // Nothing to reset on a full deck
+    rerender(
+      <LobbyView
+        players={makePlayers()}
+        roomCode="ABCD"
+        isHost
+        roundDuration={60}
+        onRoundDurationChange={vi.fn()}
+        onStart={vi.fn()}
+        onToggleReady={vi.fn()}
+        onQuit={vi.fn()}
+        myId="h1"
+        hostId="h1"
+        deck={{ remaining: 10, total: 10 }}
+        onResetDeck={onResetDeck}
+      />
+    );
+    expect(screen.queryByRole('button', { name: /reset deck/i })).not.toBeInTheDocument();
+  });
 });
 
 describe('LobbyView - socket updates', () => {
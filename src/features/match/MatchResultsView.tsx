@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Crown } from 'lucide-react';
+import type { MatchStanding } from '../../types';
+import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
+import Scoreboard from '../results/components/Scoreboard';
+
+export function MatchResultsView({
+  standings,
+  totalRounds,
+  isHost,
+  myId,
+  onStartNext,
+  onBackToLobby,
+  onQuit,
+}: {
+  standings: MatchStanding[];
+  totalRounds: number;
+  isHost: boolean;
+  myId?: string;
+  onStartNext: () => void;
+  onBackToLobby?: () => void; // host only; moves everyone to the lobby
+  onQuit: () => void;
+}) {
+  const [confirmQuit, setConfirmQuit] = useState(false);
+  // Podium order: 2nd, 1st, 3rd so the winner stands in the middle
+  const top = standings.slice(0, 3);
+  const podium = [top[1], top[0], top[2]];
+  const heights = ['h-20', 'h-28', 'h-14'];
+  const places = [2, 1, 3];
+
+  return (
+    <div className="w-full text-center">
+      <h2 className="text-[clamp(24px,3.5vw,32px)] font-bold">Match results</h2>
+      <div className="text-slate-500">{totalRounds} rounds played</div>
+
+      <div className="flex items-end justify-center gap-3 mt-6 mb-4" role="list" aria-label="Podium">
+        {podium.map((s, i) => (s ? (
+          <div key={s.id} role="listitem" className="flex flex-col items-center w-[120px]" aria-label={`Place ${places[i]}: ${s.nickname}`}>
+            {places[i] === 1 && <Crown size={28} className="text-amber-500 mb-1" aria-hidden />}
+            <div className="font-semibold truncate max-w-full">{s.nickname}</div>
+            <div className="text-slate-500 text-sm mb-1">{s.score} pts</div>
+            <div className={`w-full ${heights[i]} rounded-t-[12px] border border-slate-200 bg-slate-50 grid place-items-center text-xl font-bold`}>
+              {places[i]}
+            </div>
+          </div>
+        ) : null))}
+      </div>
+
+      <Scoreboard standings={standings} myId={myId} />
+
+      <div className="flex flex-col items-center mt-4 gap-2">
+        {!isHost && (
+          <div className="text-slate-500 text-sm mb-1" aria-live="polite">Waiting for the host to start a new match</div>
+        )}
+        {isHost && (
+          <button className="btn primary cta min-w-[220px]" onClick={onStartNext}>Start New Match</button>
+        )}
+        {isHost && onBackToLobby && (
+          <button className="btn cta min-w-[220px]" onClick={onBackToLobby}>Back to Lobby</button>
+        )}
+        <button className="btn danger cta min-w-[220px]" onClick={() => setConfirmQuit(true)}>Quit</button>
+      </div>
+      <ConfirmDialog
+        open={confirmQuit}
+        title="Leave game?"
+        description="You can rejoin with the room code."
+        confirmLabel="Leave"
+        cancelLabel="Cancel"
+        tone="danger"
+        onCancel={() => setConfirmQuit(false)}
+        onConfirm={() => { setConfirmQuit(false); onQuit(); }}
+      />
+    </div>
+  );
+}
+
+export default MatchResultsView;
@@ -7,12 +7,14 @@ export function MenuView({
   onNicknameChange,
   onCreate,
   onJoin,
+  onBrowse,
 }: {
   nickname: string;
   nicknameError: string;
   onNicknameChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onCreate: () => void;
   onJoin: () => void;
+  onBrowse?: () => void;
 }) {
   const isNicknameInvalid = !!validateNickname(nickname);
   return (
@@ -41,6 +43,9 @@ export function MenuView({
 
           <div className="flex flex-col items-stretch gap-4 mt-6">
             <button className="btn primary cta" onClick={onCreate} disabled={isNicknameInvalid} aria-disabled={isNicknameInvalid}>Create Room</button>
+            {onBrowse && (
+              <button className="btn cta" onClick={onBrowse}>Browse rooms</button>
+            )}
             <div className="flex justify-center">
               <button className="bg-transparent border-0 text-slate-500 px-2 py-1 hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-300 rounded" onClick={onJoin}>Have a code? Join room</button>
             </div>
@@ -22,6 +22,7 @@ function setup(overrides?: Partial<React.ComponentProps<typeof MenuView>>) {
       onNicknameChange={overrides?.onNicknameChange ?? onNicknameChange}
       onCreate={overrides?.onCreate ?? onCreate}
       onJoin={overrides?.onJoin ?? onJoin}
+      onBrowse={overrides?.onBrowse}
     />
   );
   return { onCreate, onJoin, onNicknameChange };
@@ -115,4 +116,12 @@ describe('MenuView', () => {
     const button = screen.getByRole('button', { name: /create room/i });
     expect(button).toBeEnabled();
   });
+
+  // The room browser is offered when the handler is provided
+  it('calls onBrowse when clicking Browse rooms', async () => {
+    const onBrowse = vi.fn();
+    setup({ nickname: 'Sam', onBrowse });
+    await userEvent.click(screen.getByRole('button', { name: /browse rooms/i }));
+    expect(onBrowse).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,33 +1,81 @@
 import ResultsGrid from './components/ResultsGrid';
-import type { Player } from '../../types';
-import { useMemo, useState } from 'react';
+import Scoreboard from './components/Scoreboard';
+import GuessSummary from './components/GuessSummary';
+import type { DeckStatus, Difficulty, GameMode, GuessResult, MatchStanding, Player, PromptPackSummary } from '../../types';
+import type { DrawnStroke } from '../../lib/strokes';
+import { useEffect, useMemo, useState } from 'react';
 import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
 import GameSettingsPanel from '../settings/GameSettingsPanel';
 
 export function ResultsView({
   drawings,
   players,
+  votes,
+  winnerIds = [],
+  guessResult = null,
+  strokes = [],
   prompt,
+  prompts = {},
   isHost,
+  myId,
+  matchRound = 0,
+  matchTotalRounds = 1,
+  standings = [],
+  nextRoundAtMs = null,
   roundDuration,
-  category,
+  categories,
+  totalRounds,
+  mode,
+  promptPack = null,
+  deck = null,
+  onResetDeck,
   onRoundDurationChange,
-  onCategoryChange,
+  onCategoriesChange,
+  onTotalRoundsChange,
+  onModeChange,
+  difficulties,
+  onDifficultiesChange,
+  promptChoice,
+  onPromptChoiceChange,
   onStartNext,
+  onBackToLobby,
   onQuit,
 }: {
   drawings: Record<string, string>;
   players: Player[];
+  votes?: Record<string, number>;
+  winnerIds?: string[];
+  guessResult?: GuessResult | null;
+  strokes?: DrawnStroke[];
   prompt: string;
+  prompts?: Record<string, string>; // prompt choice: each drawing's own prompt
   isHost: boolean;
+  myId?: string;
+  matchRound?: number;
+  matchTotalRounds?: number;
+  standings?: MatchStanding[];
+  nextRoundAtMs?: number | null;
   roundDuration: number;
-  category: string | null;
+  categories: string[];
   onRoundDurationChange: (val: number) => void;
-  onCategoryChange?: (cat: string | null) => void;
+  onCategoriesChange?: (categories: string[]) => void;
+  totalRounds?: number;
+  onTotalRoundsChange?: (rounds: number) => void;
+  mode?: GameMode;
+  onModeChange?: (mode: GameMode) => void;
+  difficulties?: Difficulty[];
+  onDifficultiesChange?: (difficulties: Difficulty[]) => void;
+  promptChoice?: boolean;
+  onPromptChoiceChange?: (promptChoice: boolean) => void;
+  promptPack?: PromptPackSummary | null; // lists the custom categories in the settings
+  deck?: DeckStatus | null;
+  onResetDeck?: () => void;
   onStartNext: () => void;
+  onBackToLobby?: () => void; // host only; moves everyone to the lobby
   onQuit: () => void;
 }) {
   const [confirmQuit, setConfirmQuit] = useState(false);
+  const [confirmLobby, setConfirmLobby] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const funPhrase = useMemo(() => {
     const options = [
@@ -41,13 +89,53 @@ export function ResultsView({
     ];
     return options[Math.floor(Math.random() * options.length)];
   }, []);
+  const isMatch = matchTotalRounds > 1;
+  const [nextRoundIn, setNextRoundIn] = useState<number | null>(null);
+  useEffect(() => {
+    if (!nextRoundAtMs) {
+      setNextRoundIn(null);
+      return;
+    }
+    const tick = () => setNextRoundIn(Math.max(0, Math.ceil((nextRoundAtMs - Date.now()) / 1000)));
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [nextRoundAtMs]);
+  const winnerNames = winnerIds
+    .map((id) => players.find((p) => p.id === id)?.nickname)
+    .filter((n): n is string => !!n);
   return (
     <div className="w-full text-center">
       <h2 className="text-[clamp(24px,3.5vw,32px)] font-bold">Results</h2>
-      <div className="text-slate-500">Prompt: <b>{prompt}</b></div>
-      <ResultsGrid drawings={drawings} players={players} />
+      {isMatch && matchRound > 0 && (
+        <div className="text-slate-500 text-sm">Round {matchRound} of {matchTotalRounds}</div>
+      )}
+      {Object.keys(prompts).length === 0 && (
+        <div className="text-slate-500">{guessResult ? 'The word was' : 'Prompt'}: <b>{prompt}</b></div>
+      )}
+      {winnerNames.length > 0 && (
+        <div className="mt-1 font-semibold" aria-live="polite">
+          {winnerNames.length === 1 ? `Winner: ${winnerNames[0]}` : `Tie: ${winnerNames.join(', ')}`}
+        </div>
+      )}
+      {guessResult ? (
+        <GuessSummary result={guessResult} strokes={strokes} players={players} />
+      ) : (
+        <ResultsGrid drawings={drawings} players={players} votes={votes} winnerIds={winnerIds} prompts={prompts} />
+      )}
+      {isMatch && (
+        <div className="mt-4">
+          <Scoreboard standings={standings} myId={myId} />
+        </div>
+      )}
       <div className="flex flex-col items-center mt-2 gap-2">
-        {!isHost && (
+        {nextRoundIn !== null && (
+          <div className="text-slate-500 text-sm mb-1" aria-live="polite">Next round in {nextRoundIn}s</div>
+        )}
+        {isMatch && nextRoundIn === null && matchRound >= matchTotalRounds && (
+          <div className="text-slate-500 text-sm mb-1" aria-live="polite">Final round complete. Tallying the match…</div>
+        )}
+        {!isHost && nextRoundIn === null && !(isMatch && matchRound >= matchTotalRounds) && (
           <div className="text-slate-500 text-sm mb-1" aria-live="polite">
             <div className="font-medium">
               {funPhrase}
@@ -58,8 +146,19 @@ export function ResultsView({
             </div>
           </div>
         )}
-        {isHost && (
-          <button className="btn primary cta min-w-[220px]" onClick={onStartNext}>Start Next Round</button>
+        {isHost && !(isMatch && matchRound >= matchTotalRounds) && (
+          <button className="btn primary cta min-w-[220px]" onClick={onStartNext}>
+            {nextRoundIn !== null ? 'Start Next Round Now' : 'Start Next Round'}
+          </button>
+        )}
+        {isHost && onBackToLobby && (
+          <button
+            className="btn cta min-w-[220px]"
+            // Leaving mid-match ends the match, so ask first
+            onClick={() => (isMatch && matchRound < matchTotalRounds ? setConfirmLobby(true) : onBackToLobby())}
+          >
+            Back to Lobby
+          </button>
         )}
         {isHost && (
           <button className="btn cta min-w-[220px]" onClick={() => setSettingsOpen(true)}>Edit Settings</button>
@@ -76,9 +175,20 @@ export function ResultsView({
               <GameSettingsPanel
                 isHost={isHost}
                 roundDuration={roundDuration}
-                category={category}
+                categories={categories}
+                totalRounds={totalRounds}
+                mode={mode}
                 onRoundDurationChange={onRoundDurationChange}
-                onCategoryChange={onCategoryChange}
+                onCategoriesChange={onCategoriesChange}
+                onTotalRoundsChange={onTotalRoundsChange}
+                onModeChange={onModeChange}
+                difficulties={difficulties}
+                onDifficultiesChange={onDifficultiesChange}
+                promptChoice={promptChoice}
+                onPromptChoiceChange={onPromptChoiceChange}
+                promptPack={promptPack}
+                deck={deck}
+                onResetDeck={onResetDeck}
                 hideHeader
               />
             </div>
@@ -88,6 +198,16 @@ export function ResultsView({
           </div>
         </div>
       )}
+      <ConfirmDialog
+        open={confirmLobby}
+        title="End the match?"
+        description="Everyone goes back to the lobby and the match scores are cleared."
+        confirmLabel="Back to Lobby"
+        cancelLabel="Cancel"
+        tone="primary"
+        onCancel={() => setConfirmLobby(false)}
+        onConfirm={() => { setConfirmLobby(false); onBackToLobby?.(); }}
+      />
       <ConfirmDialog
         open={confirmQuit}
         title="Leave game?"
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { Check } from 'lucide-react';
+import { renderStrokes } from '../../../lib/strokes';
+import type { DrawnStroke } from '../../../lib/strokes';
+import type { GuessResult, Player } from '../../../types';
+
+// Guess-mode round recap: the replayed drawing and who guessed the word
+export default function GuessSummary({
+  result,
+  strokes,
+  players,
+}: {
+  result: GuessResult;
+  strokes: DrawnStroke[];
+  players: Player[];
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) renderStrokes(ctx, strokes);
+  }, [strokes]);
+  const nameOf = (id: string) => players.find((p) => p.id === id)?.nickname || 'Player';
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div style={{ width: '100%', maxWidth: 480 }}>
+        <canvas
+          ref={canvasRef}
+          width={800}
+          height={600}
+          aria-label={`Drawing by ${nameOf(result.drawerId)}`}
+          style={{ width: '100%', height: 'auto', display: 'block', border: '1px solid var(--line)', background: '#fff' }}
+        />
+        <div className="text-center mt-2" style={{ fontWeight: 600 }}>
+          {nameOf(result.drawerId)}
+          {result.points[result.drawerId] ? <span className="badge ml-2">+{result.points[result.drawerId]}</span> : null}
+        </div>
+      </div>
+      <div className="card text-left w-full max-w-[420px]">
+        <h3 className="m-0 mb-2">Guessed it</h3>
+        {result.guessedIds.length === 0 ? (
+          <div className="text-slate-500 text-sm">Nobody guessed the word.</div>
+        ) : (
+          <ol className="m-0 p-0 list-none" aria-label="Correct guesses">
+            {result.guessedIds.map((id) => (
+              <li key={id} className="player-row">
+                <span className="flex items-center gap-2 min-w-0">
+                  <Check size={16} className="text-green-600" aria-hidden />
+                  <span className="truncate max-w-[220px]">{nameOf(id)}</span>
+                </span>
+                <span className="font-semibold">+{result.points[id] ?? 0}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,27 @@
 import { useState } from 'react';
+import { Crown } from 'lucide-react';
 import type { Player } from '../../../types';
 
-export default function ResultsGrid({ drawings, players }: { drawings: Record<string, string>; players: Player[] }) {
+export default function ResultsGrid({
+  drawings,
+  players,
+  votes,
+  winnerIds = [],
+  prompts = {},
+}: {
+  drawings: Record<string, string>;
+  players: Player[];
+  votes?: Record<string, number>;
+  winnerIds?: string[];
+  prompts?: Record<string, string>; // prompt choice: playerId -> the prompt they drew
+}) {
   const [page, setPage] = useState(0);
   const PAGE_SIZE = 9;
-  const entries = Object.entries(drawings);
+  const hasVotes = !!votes && Object.keys(votes).length > 0;
+  // Most voted first once votes are in; otherwise keep submission order
+  const entries = hasVotes
+    ? Object.entries(drawings).sort(([a], [b]) => (votes?.[b] ?? 0) - (votes?.[a] ?? 0))
+    : Object.entries(drawings);
   const pagedEntries = entries.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
   const totalPages = Math.ceil(entries.length / PAGE_SIZE);
 
@@ -13,6 +30,8 @@ export default function ResultsGrid({ drawings, players }: { drawings: Record<st
       <div className="results-grid" style={{ width: '100%', display: 'flex', flexWrap: 'wrap', gap: 16 }}>
         {pagedEntries.map(([id, url], idx) => {
           const player = players.find((p) => p.id === id);
+          const isWinner = winnerIds.includes(id);
+          const count = votes?.[id] ?? 0;
           return (
             <div key={id} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: '100%', maxWidth: 380 }}>
               <img
@@ -26,9 +45,18 @@ export default function ResultsGrid({ drawings, players }: { drawings: Record<st
                   border: '1px solid var(--line)',
                 }}
               />
-              <div className="text-center mt-2">
+              <div className="text-center mt-2 inline-flex items-center gap-2">
+                {isWinner && (
+                  <span className="inline-flex items-center text-amber-500" aria-label="Round winner" title="Round winner">
+                    <Crown size={18} />
+                  </span>
+                )}
                 <span style={{ fontWeight: 600 }}>{player?.nickname || `Player ${idx + 1 + page * PAGE_SIZE}`}</span>
+                {hasVotes && (
+                  <span className="badge">{count} {count === 1 ? 'vote' : 'votes'}</span>
+                )}
               </div>
+              {prompts[id] && <div className="text-slate-500 text-sm">Prompt: <b>{prompts[id]}</b></div>}
             </div>
           );
         })}
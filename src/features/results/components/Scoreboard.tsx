@@ -0,0 +1,24 @@
+import type { MatchStanding } from '../../../types';
+
+export default function Scoreboard({ standings, myId }: { standings: MatchStanding[]; myId?: string }) {
+  if (standings.length === 0) return null;
+  return (
+    <div className="card text-left w-full max-w-[420px] mx-auto">
+      <h3 className="m-0 mb-2">Scoreboard</h3>
+      <ol className="m-0 p-0 list-none" aria-label="Scoreboard">
+        {standings.map((s, idx) => (
+          <li key={s.id} className="player-row">
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="text-slate-500 w-6 text-right">{idx + 1}.</span>
+              <span className="truncate max-w-[220px]">
+                {s.nickname}
+                {s.id === myId ? ' (you)' : ''}
+              </span>
+            </span>
+            <span className="font-semibold">{s.score} pts</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -1,28 +1,84 @@
 // No React import needed for react-jsx runtime
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { Lock } from 'lucide-react';
-import { categories } from '../../lib/category';
+import { Globe, ListChecks, ListPlus, Lock, Shuffle, Upload } from 'lucide-react';
+import { categories, customCategories } from '../../lib/category';
+import { difficulties as difficultyOptions } from '../../lib/difficulty';
+import { MAX_PROMPT_PACK_CHARS, parsePromptPack, summarizePromptPack } from '../../lib/promptPack';
+import { validateDifficulties, validatePasscode, validatePromptPack } from '../../lib/validation';
+import type { DeckStatus, Difficulty, GameMode, PromptPackSummary } from '../../types';
+
+const modeOptions: { key: GameMode; label: string; description: string }[] = [
+  { key: 'classic', label: 'Classic', description: 'Everyone draws the prompt, then votes for a favorite.' },
+  { key: 'guess', label: 'Guess the drawing', description: 'One player draws live while the others guess in chat. The drawer rotates each round.' },
+];
 
 export function GameSettingsPanel({
   isHost,
   roundDuration,
-  category,
+  categories: selectedCategories = [],
+  totalRounds = 1,
+  mode = 'classic',
   onRoundDurationChange,
-  onCategoryChange,
+  onCategoriesChange,
+  onTotalRoundsChange,
+  onModeChange,
+  difficulties = ['easy', 'medium', 'hard'],
+  onDifficultiesChange,
+  promptChoice = false,
+  onPromptChoiceChange,
+  hasPasscode = false,
+  locked = false,
+  isPublic = false,
+  onPasscodeChange,
+  onLockedChange,
+  onPublicChange,
+  promptPack = null,
+  onPromptPackChange,
+  deck = null,
+  onResetDeck,
   hideHeader = false,
 }: {
   isHost: boolean;
   roundDuration: number;
-  category?: string | null;
+  categories?: string[]; // empty means random
+  totalRounds?: number;
   onRoundDurationChange: (val: number) => void;
-  onCategoryChange?: (cat: string | null) => void;
+  onCategoriesChange?: (categories: string[]) => void;
+  onTotalRoundsChange?: (rounds: number) => void;
+  mode?: GameMode;
+  onModeChange?: (mode: GameMode) => void;
+  // Built-in prompts are dealt only from these; custom prompts are not rated
+  difficulties?: Difficulty[];
+  onDifficultiesChange?: (difficulties: Difficulty[]) => void;
+  // Classic rounds: each player picks one of three prompts; the toggle shows when the handler is provided
+  promptChoice?: boolean;
+  onPromptChoiceChange?: (promptChoice: boolean) => void;
+  // Room access; the section shows when the handlers are provided
+  hasPasscode?: boolean;
+  locked?: boolean;
+  onPasscodeChange?: (passcode: string | null) => void; // null removes it
+  onLockedChange?: (locked: boolean) => void;
+  isPublic?: boolean;
+  onPublicChange?: (isPublic: boolean) => void;
+  // Custom prompts; the editor shows when the handler is provided
+  promptPack?: PromptPackSummary | null;
+  onPromptPackChange?: (text: string | null) => void; // raw word list; null removes it
+  // Prompts left before the selected categories' deck reshuffles; the host can reshuffle early
+  deck?: DeckStatus | null;
+  onResetDeck?: () => void;
   hideHeader?: boolean;
 }) {
   const durationPresets = useMemo(() => [30, 60, 90, 120] as number[], []);
+  const roundPresets = useMemo(() => [1, 3, 5, 10] as number[], []);
   const isCustomDuration = !durationPresets.includes(roundDuration);
   const [showCustomDuration, setShowCustomDuration] = useState<boolean>(isHost && isCustomDuration);
   const timersRef = useRef<number[]>([]);
   const [isAutoClosing, setIsAutoClosing] = useState<boolean>(false);
+  const [passcodeDraft, setPasscodeDraft] = useState('');
+  const [passcodeError, setPasscodeError] = useState('');
+  const [packDraft, setPackDraft] = useState('');
+  const [packError, setPackError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   function clearTimers() {
     for (const id of timersRef.current) clearTimeout(id);
@@ -47,7 +103,59 @@ export function GameSettingsPanel({
     return () => clearTimers();
   }, [showCustomDuration, roundDuration, isHost, durationPresets]);
 
-  const selectedKey = category ?? 'random';
+  // Random clears the selection; any other category toggles in or out of it
+  function toggleCategory(key: string) {
+    if (key === 'random') return onCategoriesChange?.([]);
+    onCategoriesChange?.(
+      selectedCategories.includes(key) ? selectedCategories.filter((c) => c !== key) : [...selectedCategories, key]
+    );
+  }
+
+  function submitPasscode() {
+    const error = validatePasscode(passcodeDraft);
+    if (error) {
+      setPasscodeError(error);
+      return;
+    }
+    setPasscodeError('');
+    setPasscodeDraft('');
+    onPasscodeChange?.(passcodeDraft);
+  }
+
+  function submitPromptPack() {
+    if (packDraft.length > MAX_PROMPT_PACK_CHARS) {
+      setPackError(`The prompt list must be ${MAX_PROMPT_PACK_CHARS} characters or less`);
+      return;
+    }
+    const error = validatePromptPack(parsePromptPack(packDraft));
+    if (error) {
+      setPackError(error);
+      return;
+    }
+    setPackError('');
+    setPackDraft('');
+    onPromptPackChange?.(packDraft);
+  }
+
+  async function loadPromptFile(file: File | undefined) {
+    if (!file) return;
+    if (file.size > MAX_PROMPT_PACK_CHARS * 4) {
+      setPackError('That file is too large for a prompt list');
+      return;
+    }
+    try {
+      setPackDraft(await file.text());
+      setPackError('');
+    } catch {
+      setPackError('Could not read that file');
+    }
+  }
+
+  const packPreview = useMemo(() => {
+    if (!packDraft.trim()) return null;
+    const pack = parsePromptPack(packDraft);
+    return pack ? summarizePromptPack(pack) : null;
+  }, [packDraft]);
 
   function clampDuration(value: number): number {
     if (Number.isNaN(value)) return roundDuration;
@@ -74,8 +182,47 @@ export function GameSettingsPanel({
       )}
       {!isHost && <div className="text-slate-500">Only hosts can change game settings.</div>}
 
+      {/* Mode */}
+      <div className="label mt-2 mb-2">Game mode</div>
+      <div className="flex flex-wrap gap-2 mb-1" role="group" aria-label="Game mode">
+        {modeOptions.map((m) => {
+          const selected = mode === m.key;
+          return (
+            <button
+              key={m.key}
+              className={`rounded-[12px] border px-2.5 py-1 ${selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={selected}
+              onClick={() => {
+                if (!isHost) return;
+                onModeChange?.(m.key);
+              }}
+              disabled={!isHost}
+            >
+              {m.label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="text-slate-500 text-sm mb-2">{modeOptions.find((m) => m.key === mode)?.description}</div>
+      {mode === 'classic' && onPromptChoiceChange && (
+        <>
+          <button
+            className={`rounded-[12px] border px-2.5 py-1 mb-1 ${promptChoice ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+            aria-pressed={promptChoice}
+            onClick={() => {
+              if (!isHost) return;
+              onPromptChoiceChange(!promptChoice);
+            }}
+            disabled={!isHost}
+          >
+            <span className="inline-flex items-center gap-1.5"><ListChecks size={14} aria-hidden /> Choose prompts</span>
+          </button>
+          {promptChoice && <div className="text-slate-500 text-sm mb-2">Each player picks one of three prompts at the start of the round.</div>}
+        </>
+      )}
+
       {/* Duration */}
-      <div className="label mt-2 mb-2">Game duration</div>
+      <div className="label mt-4 mb-2">Game duration</div>
       <div className="flex flex-wrap gap-2 mb-2" role="group" aria-label="Game duration presets">
         {durationPresets.map((v) => {
           const isSelectedPreset = !isCustomDuration && roundDuration === v;
@@ -129,22 +276,170 @@ export function GameSettingsPanel({
         </div>
       )}
 
+      {/* Match length */}
+      <div className="label mt-4 mb-2">Rounds per match</div>
+      <div className="flex flex-wrap gap-2 mb-2" role="group" aria-label="Rounds per match">
+        {roundPresets.map((v) => {
+          const selected = totalRounds === v;
+          return (
+            <button
+              key={v}
+              className={`rounded-[12px] border px-2.5 py-1 ${selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={selected}
+              onClick={() => {
+                if (!isHost) return;
+                onTotalRoundsChange?.(v);
+              }}
+              disabled={!isHost}
+            >
+              {v === 1 ? '1 round' : `${v} rounds`}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Room access */}
+      {(onPasscodeChange || onLockedChange || onPublicChange) && (
+        <>
+          <div className="label mt-4 mb-2">Room access</div>
+          {!isHost && (
+            <div className="text-slate-500 text-sm mb-2" aria-live="polite">
+              {locked ? 'Lobby locked: no new players can join.' : hasPasscode ? 'New players need the passcode to join.' : 'Anyone with the room code can join.'}
+              {isPublic && !hasPasscode ? ' Listed in the room browser.' : ''}
+            </div>
+          )}
+          {isHost && onPublicChange && (
+            <button
+              className={`rounded-[12px] border px-2.5 py-1 mb-2 mr-2 ${isPublic ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={isPublic}
+              onClick={() => onPublicChange(!isPublic)}
+            >
+              <span className="inline-flex items-center gap-1.5"><Globe size={14} aria-hidden /> {isPublic ? 'Public room' : 'Make public'}</span>
+            </button>
+          )}
+          {isHost && onLockedChange && (
+            <button
+              className={`rounded-[12px] border px-2.5 py-1 mb-2 ${locked ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={locked}
+              onClick={() => onLockedChange(!locked)}
+            >
+              <span className="inline-flex items-center gap-1.5"><Lock size={14} aria-hidden /> {locked ? 'Lobby locked' : 'Lock lobby'}</span>
+            </button>
+          )}
+          {isHost && onPasscodeChange && (
+            <form
+              className="flex flex-wrap items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitPasscode();
+              }}
+            >
+              <input
+                className="input max-w-[200px]"
+                type="text"
+                value={passcodeDraft}
+                onChange={(e) => {
+                  setPasscodeDraft(e.target.value);
+                  setPasscodeError('');
+                }}
+                placeholder={hasPasscode ? 'New passcode' : 'Passcode (optional)'}
+                aria-label="Room passcode"
+                aria-invalid={!!passcodeError}
+                maxLength={20}
+                autoComplete="off"
+              />
+              <button type="submit" className="btn small" disabled={!passcodeDraft}>{hasPasscode ? 'Change' : 'Set'}</button>
+              {hasPasscode && (
+                <button type="button" className="btn small" onClick={() => onPasscodeChange(null)}>Remove passcode</button>
+              )}
+              {hasPasscode && <span className="text-slate-500 text-sm">Passcode set</span>}
+            </form>
+          )}
+          {passcodeError && <div className="error" role="alert">{passcodeError}</div>}
+          {isHost && isPublic && hasPasscode && (
+            <div className="text-slate-500 text-sm mt-1">Rooms with a passcode are not listed in the room browser.</div>
+          )}
+        </>
+      )}
+
+      {/* Custom prompts */}
+      {onPromptPackChange && (isHost || promptPack) && (
+        <>
+          <div className="label mt-4 mb-2">Custom prompts</div>
+          {promptPack && (
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-slate-500">
+              <ListPlus size={14} aria-hidden />
+              <span>
+                {promptPack.count} custom prompts
+                {promptPack.categories.length > 1 ? ` in ${promptPack.categories.length} categories` : ''}
+              </span>
+              {isHost && (
+                <button type="button" className="btn small" onClick={() => onPromptPackChange(null)}>Remove prompts</button>
+              )}
+            </div>
+          )}
+          {isHost && (
+            <form
+              className="grid gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitPromptPack();
+              }}
+            >
+              <textarea
+                className="input min-h-[96px] font-mono text-sm"
+                value={packDraft}
+                onChange={(e) => {
+                  setPackDraft(e.target.value);
+                  setPackError('');
+                }}
+                placeholder={'One prompt per line, or JSON: {"Movies": ["jaws", "up"]}'}
+                aria-label="Custom prompts"
+                aria-invalid={!!packError}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <button type="submit" className="btn small" disabled={!packDraft.trim()}>{promptPack ? 'Replace prompts' : 'Use prompts'}</button>
+                <button type="button" className="btn small" onClick={() => fileInputRef.current?.click()}>
+                  <span className="inline-flex items-center gap-1.5"><Upload size={14} aria-hidden /> Upload file</span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,.json,text/plain,application/json"
+                  className="hidden"
+                  aria-label="Prompt file"
+                  onChange={(e) => {
+                    void loadPromptFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                {packPreview && !packError && (
+                  <span className="text-slate-500 text-sm">
+                    {packPreview.count} prompts{packPreview.categories.length > 1 ? ` in ${packPreview.categories.length} categories` : ''}
+                  </span>
+                )}
+              </div>
+            </form>
+          )}
+          {packError && <div className="error" role="alert">{packError}</div>}
+        </>
+      )}
+
       {/* Category */}
-      <div className="label mt-4 mb-2" id="category-label">Category</div>
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 fill-gap-last-in-2col" role="radiogroup" aria-labelledby="category-label">
-        {categories.map((c) => {
-          const checked = selectedKey === c.key;
+      <div className="label mt-4 mb-2" id="category-label">Categories</div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 fill-gap-last-in-2col" role="group" aria-labelledby="category-label">
+        {[...categories, ...customCategories(promptPack)].map((c) => {
+          const checked = c.key === 'random' ? selectedCategories.length === 0 : selectedCategories.includes(c.key);
           const disabled = !isHost;
           return (
             <button
               key={c.key}
               className={`inline-flex flex-col items-center justify-center gap-2 min-h-[72px] border rounded-[12px] px-2 py-2 ${checked ? 'border-blue-500 ring-2 ring-sky-300' : 'border-slate-200'} ${disabled ? 'opacity-75 cursor-not-allowed' : ''}`}
-              role="radio"
+              role="checkbox"
               aria-checked={checked}
               aria-disabled={disabled}
               disabled={disabled}
-              tabIndex={checked ? 0 : -1}
-              onClick={() => onCategoryChange?.(c.key === 'random' ? null : c.key)}
+              onClick={() => toggleCategory(c.key)}
             >
               <span aria-hidden className="[&>*]:w-5 [&>*]:h-5">{c.icon}</span>
               <span className="text-sm">{c.label}</span>
@@ -152,6 +447,42 @@ export function GameSettingsPanel({
           );
         })}
       </div>
+
+      {/* Difficulty */}
+      <div className="label mt-4 mb-2">Difficulty</div>
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Difficulty">
+        {difficultyOptions.map((d) => {
+          const selected = difficulties.includes(d.key);
+          return (
+            <button
+              key={d.key}
+              className={`rounded-[12px] border px-2.5 py-1 ${selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+              aria-pressed={selected}
+              onClick={() => {
+                if (!isHost) return;
+                const next = difficultyOptions.map((o) => o.key).filter((k) => (k === d.key ? !selected : difficulties.includes(k)));
+                // The last allowed difficulty stays on
+                if (validateDifficulties(next)) return;
+                onDifficultiesChange?.(next);
+              }}
+              disabled={!isHost}
+            >
+              {d.label}
+            </button>
+          );
+        })}
+      </div>
+      {deck && deck.total > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-slate-500">
+          <Shuffle size={14} aria-hidden />
+          <span>
+            {deck.remaining > 0 ? `${deck.remaining} of ${deck.total} prompts left` : 'All prompts used; the deck reshuffles next round'}
+          </span>
+          {isHost && onResetDeck && deck.remaining < deck.total && (
+            <button type="button" className="btn small" onClick={onResetDeck}>Reset deck</button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
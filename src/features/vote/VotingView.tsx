@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import type { Player } from '../../types';
+import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
+
+export function VotingView({
+  drawings,
+  players,
+  prompt,
+  prompts = {},
+  myId,
+  myVote,
+  votingEndsAtMs,
+  onVote,
+  onQuit,
+  spectating = false,
+}: {
+  drawings: Record<string, string>;
+  players: Player[];
+  prompt: string;
+  prompts?: Record<string, string>; // prompt choice: playerId -> the prompt they drew
+  myId?: string;
+  myVote: string | null;
+  votingEndsAtMs: number | null;
+  onVote: (targetId: string) => void;
+  onQuit: () => void;
+  spectating?: boolean; // spectators see the drawings but cannot vote
+}) {
+  const [confirmQuit, setConfirmQuit] = useState(false);
+  const [remaining, setRemaining] = useState<number>(() => (
+    votingEndsAtMs ? Math.max(0, Math.ceil((votingEndsAtMs - Date.now()) / 1000)) : 0
+  ));
+
+  // Countdown derived from the server deadline to avoid drift
+  useEffect(() => {
+    if (!votingEndsAtMs) return;
+    const tick = () => setRemaining(Math.max(0, Math.ceil((votingEndsAtMs - Date.now()) / 1000)));
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [votingEndsAtMs]);
+
+  const entries = Object.entries(drawings);
+  const canVote = !!myId && !spectating && entries.some(([id]) => id !== myId);
+  const perPlayerPrompts = Object.keys(prompts).length > 0;
+
+  return (
+    <div className="w-full text-center">
+      <h2 className="text-[clamp(24px,3.5vw,32px)] font-bold">Vote</h2>
+      {!perPlayerPrompts && <div className="text-slate-500">Prompt: <b>{prompt}</b></div>}
+      <div className="mt-2 flex justify-center gap-2 items-center">
+        <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-1 text-xs text-slate-700" aria-label={`${remaining} seconds left to vote`}>
+          <Clock size={16} /> {remaining}s
+        </div>
+        <div className="text-slate-500 text-sm" aria-live="polite">
+          {canVote ? (myVote ? 'Vote cast. You can still change it.' : 'Pick your favorite drawing.') : 'Waiting for votes'}
+        </div>
+      </div>
+      <div className="results-grid mt-4">
+        {entries.map(([id, url], idx) => {
+          const player = players.find((p) => p.id === id);
+          const name = player?.nickname || `Player ${idx + 1}`;
+          const isMine = id === myId;
+          const selected = myVote === id;
+          return (
+            <div key={id} className="flex flex-col items-center w-full max-w-[380px]">
+              <img
+                src={url}
+                alt={`Drawing by ${name}`}
+                className={`w-full h-auto block border ${selected ? 'border-blue-500 ring-2 ring-sky-300' : 'border-slate-200'}`}
+              />
+              {prompts[id] && <div className="mt-1 text-slate-500 text-sm">Prompt: <b>{prompts[id]}</b></div>}
+              <div className="mt-2 flex items-center gap-2">
+                <span className="font-semibold">{name}</span>
+                {isMine ? (
+                  <span className="badge waiting">Your drawing</span>
+                ) : spectating ? null : (
+                  <button
+                    className={`btn small ${selected ? 'primary' : ''}`}
+                    aria-pressed={selected}
+                    aria-label={`Vote for ${name}`}
+                    disabled={!canVote || remaining <= 0}
+                    onClick={() => onVote(id)}
+                  >
+                    {selected ? 'Voted' : 'Vote'}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-col items-center mt-4 gap-2">
+        <button className="btn danger cta min-w-[220px]" onClick={() => setConfirmQuit(true)}>Quit</button>
+      </div>
+      <ConfirmDialog
+        open={confirmQuit}
+        title="Leave game?"
+        description="You can rejoin with the room code."
+        confirmLabel="Leave"
+        cancelLabel="Cancel"
+        tone="danger"
+        onCancel={() => setConfirmQuit(false)}
+        onConfirm={() => { setConfirmQuit(false); onQuit(); }}
+      />
+    </div>
+  );
+}
+
+export default VotingView;
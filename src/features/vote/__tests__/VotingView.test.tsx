@@ -0,0 +1,82 @@
+/**
+ * VotingView component tests
+ *
+ * Covers the drawing list with vote buttons, the self-vote guard,
+ * selected vote state, and the countdown label.
+ */
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { VotingView } from '../VotingView';
+
+function setup(overrides?: Partial<React.ComponentProps<typeof VotingView>>) {
+  const onVote = vi.fn();
+  const onQuit = vi.fn();
+  render(
+    <VotingView
+      drawings={overrides?.drawings ?? { me: 'data:image/png;base64,AAA', a1: 'data:image/png;base64,BBB' }}
+      players={overrides?.players ?? [
+        { id: 'me', nickname: 'Mia' },
+        { id: 'a1', nickname: 'Alice' },
+      ]}
+      prompt={overrides?.prompt ?? 'Cat'}
+      prompts={overrides?.prompts}
+      myId={overrides?.myId ?? 'me'}
+      myVote={overrides?.myVote ?? null}
+      votingEndsAtMs={overrides?.votingEndsAtMs ?? Date.now() + 20000}
+      onVote={overrides?.onVote ?? onVote}
+      onQuit={overrides?.onQuit ?? onQuit}
+      spectating={overrides?.spectating}
+    />
+  );
+  return { onVote, onQuit };
+}
+
+describe('VotingView', () => {
+  it('renders heading, prompt and remaining time', () => {
+    setup();
+    expect(screen.getByRole('heading', { name: /^vote$/i })).toBeInTheDocument();
+    expect(screen.getByText('Cat')).toBeInTheDocument();
+    expect(screen.getByLabelText(/seconds left to vote/i)).toBeInTheDocument();
+  });
+
+  it('offers a vote button for other drawings but not for my own', () => {
+    setup();
+    expect(screen.getByRole('button', { name: /vote for alice/i })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /vote for mia/i })).not.toBeInTheDocument();
+    expect(screen.getByText(/your drawing/i)).toBeInTheDocument();
+  });
+
+  it('calls onVote with the target player id', async () => {
+    const { onVote } = setup();
+    await userEvent.click(screen.getByRole('button', { name: /vote for alice/i }));
+    expect(onVote).toHaveBeenCalledWith('a1');
+  });
+
+  it('marks the current vote as pressed', () => {
+    setup({ myVote: 'a1' });
+    const btn = screen.getByRole('button', { name: /vote for alice/i });
+    expect(btn).toHaveAttribute('aria-pressed', 'true');
+    expect(btn).toHaveTextContent(/voted/i);
+  });
+
+  it('shows spectators the drawings without vote buttons', () => {
+    setup({ myId: 's1', spectating: true });
+    expect(screen.getAllByRole('img')).toHaveLength(2);
+    expect(screen.queryByRole('button', { name: /vote for/i })).not.toBeInTheDocument();
+    expect(screen.getByText(/waiting for votes/i)).toBeInTheDocument();
+  });
+
+  it('disables voting once time is up', () => {
+    setup({ votingEndsAtMs: Date.now() - 1000 });
+    expect(screen.getByRole('button', { name: /vote for alice/i })).toBeDisabled();
+  });
+
+  it('labels each drawing with its own prompt when players chose them', () => {
+    setup({ prompts: { me: 'Cat', a1: 'Lighthouse' } });
+    // One label per drawing and no shared prompt line
+    expect(screen.getAllByText(/^prompt:/i)).toHaveLength(2);
+    expect(screen.getByText('Lighthouse')).toBeInTheDocument();
+  });
+});
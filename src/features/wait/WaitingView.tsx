@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import type { ChatMessage, GameMode, Player } from '../../types';
+import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
+
+const secondsUntil = (ms: number) => Math.max(0, Math.ceil((ms - Date.now()) / 1000));
+
+// Shown to players who joined while a round was running, and to spectators during every round.
+// They do not get the prompt, only the countdown and the chat. Late joiners are dealt into the
+// next round by the server.
+export function WaitingView({
+  players,
+  myId,
+  hostId,
+  endsAtMs,
+  round,
+  totalRounds,
+  mode,
+  spectating = false,
+  chatMessages,
+  chatInput,
+  setChatInput,
+  handleSendChat,
+  onQuit,
+}: {
+  players: Player[];
+  myId?: string;
+  hostId?: string;
+  endsAtMs: number;
+  round: number; // 0 when unknown
+  totalRounds: number;
+  mode?: GameMode;
+  spectating?: boolean; // spectators watch every round from here
+  chatMessages: ChatMessage[];
+  chatInput: string;
+  setChatInput: (v: string) => void;
+  handleSendChat: () => void;
+  onQuit: () => void;
+}) {
+  const [remaining, setRemaining] = useState(() => secondsUntil(endsAtMs));
+  const [confirmQuit, setConfirmQuit] = useState(false);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setRemaining(secondsUntil(endsAtMs));
+    const interval = window.setInterval(() => setRemaining(secondsUntil(endsAtMs)), 1000);
+    return () => window.clearInterval(interval);
+  }, [endsAtMs]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [chatMessages]);
+
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+  const roundLabel = round > 0 && totalRounds > 1 ? `Round ${round}/${totalRounds}` : 'Current round';
+  const watchers = players.filter((p) => p.role === 'spectator');
+  const playing = players.filter((p) => p.role !== 'spectator' && !p.waiting);
+  const waiting = players.filter((p) => p.role !== 'spectator' && p.waiting);
+
+  return (
+    <div className="w-full text-center">
+      <div className="mx-auto max-w-[640px]">
+        <Hourglass size={32} className="mx-auto text-slate-400" aria-hidden />
+        <h1 className="font-bold text-[clamp(24px,3.5vw,32px)] leading-tight mt-2">Round in progress</h1>
+        <div className="text-slate-500 mt-1">
+          {roundLabel}{mode === 'guess' ? ' · Guess mode' : ''}. {spectating ? 'You are spectating; results show when the round ends.' : 'You will join the next round automatically.'}
+        </div>
+        <div className="text-3xl font-bold tabular-nums mt-3" aria-live="polite" aria-label={`${remaining} seconds left`}>
+          {minutes}:{String(seconds).padStart(2, '0')}
+        </div>
+      </div>
+
+      <div className="grid gap-4 mx-auto mt-4 max-w-[1120px] md:grid-cols-[360px_1fr] items-stretch">
+        <div className="card text-left flex flex-col h-full">
+          <h3 className="m-0 mb-2">Players</h3>
+          <div className="players">
+            {[...playing, ...waiting, ...watchers].map((p) => (
+              <div key={p.id} className="player-row">
+                <div className="truncate max-w-[200px]">
+                  {p.nickname}
+                  {p.id === myId ? ' (you)' : ''}
+                </div>
+                {p.role === 'spectator' ? (
+                  <div className="badge waiting">Spectator</div>
+                ) : p.waiting ? (
+                  <div className="badge waiting">Waiting for next round</div>
+                ) : p.id === hostId ? (
+                  <div className="badge host">Host</div>
+                ) : (
+                  <div className="badge ready">Playing</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="card text-left flex flex-col gap-2 min-w-0">
+          <h3 className="m-0">Chat</h3>
+          <div className="overflow-auto p-2 flex flex-col gap-1 rounded-md bg-slate-50 h-56">
+            {chatMessages.length === 0 && <div className="text-slate-400 text-center text-sm">No messages yet</div>}
+            {chatMessages.map((msg, i) =>
+              msg.isSystem ? (
+                <div key={i} className="text-slate-400 text-center text-xs py-1">{msg.text}</div>
+              ) : (
+                <div key={i} className={`flex flex-col ${msg.id === myId ? 'items-end' : 'items-start'}`}>
+                  <div className="text-[11px] text-slate-400">{msg.nickname}</div>
+                  <div className={`inline-block rounded-md px-2 py-1 text-[13px] max-w-[240px] ${msg.id === myId ? 'bg-sky-100' : 'bg-slate-100'}`}>{msg.text}</div>
+                </div>
+              )
+            )}
+            <div ref={chatEndRef} />
+          </div>
+          <form
+            className="flex gap-2 min-w-0"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSendChat();
+            }}
+          >
+            <input
+              className="input flex-1 min-w-0 w-0"
+              type="text"
+              value={chatInput}
+              onChange={(e) => setChatInput(e.target.value)}
+              placeholder="Type a message..."
+              aria-label="Chat message"
+              maxLength={120}
+              disabled={!myId}
+              autoComplete="off"
+            />
+            <button type="submit" className="btn primary small shrink-0" disabled={!chatInput.trim() || !myId}>Send</button>
+          </form>
+        </div>
+      </div>
+
+      <div className="flex justify-center mt-6">
+        <button className="btn danger cta min-w-[220px]" onClick={() => setConfirmQuit(true)}>Quit</button>
+      </div>
+      <ConfirmDialog
+        open={confirmQuit}
+        title="Leave game?"
+        description="You can rejoin with the room code."
+        confirmLabel="Leave"
+        cancelLabel="Cancel"
+        tone="danger"
+        onCancel={() => setConfirmQuit(false)}
+        onConfirm={() => {
+          setConfirmQuit(false);
+          onQuit();
+        }}
+      />
+    </div>
+  );
+}
+
+export default WaitingView;
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for color parsing, HSV conversion and the recent colors list.
+ */
+import { describe, it, expect } from 'vitest';
+import { hexToHsv, hsvToHex, parseColor, pushRecentColor } from '../color';
+
+describe('parseColor', () => {
+  // Hex with or without '#', short and long forms, normalized to lowercase
+  it('accepts hex colors', () => {
+    expect(parseColor('#FF8800')).toBe('#ff8800');
+    expect(parseColor('ff8800')).toBe('#ff8800');
+    expect(parseColor('#f80')).toBe('#ff8800');
+    expect(parseColor('  #abc  ')).toBe('#aabbcc');
+  });
+
+  it('accepts rgb triples', () => {
+    expect(parseColor('rgb(255, 136, 0)')).toBe('#ff8800');
+    expect(parseColor('0,0,0')).toBe('#000000');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseColor('')).toBeNull();
+    expect(parseColor('#ff88')).toBeNull();
+    expect(parseColor('#gg0000')).toBeNull();
+    expect(parseColor('256, 0, 0')).toBeNull();
+    expect(parseColor('red')).toBeNull();
+  });
+});
+
+describe('hsv', () => {
+  it('round-trips hex colors', () => {
+    for (const hex of ['#000000', '#ffffff', '#ff0000', '#2563eb', '#8b5cf6', '#808080']) {
+      expect(hsvToHex(hexToHsv(hex))).toBe(hex);
+    }
+  });
+
+  it('maps primaries to their hue', () => {
+    expect(hexToHsv('#00ff00')).toEqual({ h: 120, s: 1, v: 1 });
+    expect(hsvToHex({ h: 240, s: 1, v: 1 })).toBe('#0000ff');
+  });
+});
+
+describe('pushRecentColor', () => {
+  // Re-picking a color moves it to the front instead of duplicating it
+  it('keeps the most recent first without duplicates', () => {
+    const list = pushRecentColor(pushRecentColor(['#111111'], '#222222'), '#111111');
+    expect(list).toEqual(['#111111', '#222222']);
+    expect(pushRecentColor(['#aabbcc'], '#AABBCC')).toEqual(['#aabbcc']);
+  });
+
+  it('caps the list', () => {
+    const list = ['#000001', '#000002', '#000003'];
+    expect(pushRecentColor(list, '#000004', 3)).toEqual(['#000004', '#000001', '#000002']);
+  });
+});
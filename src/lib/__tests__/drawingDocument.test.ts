@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the vector drawing document (commit/undo/redo stacks).
+ */
+import { describe, it, expect } from 'vitest';
+import { commitOp, emptyDocument, redoOp, undoOp } from '../drawingDocument';
+import type { DrawnStroke } from '../strokes';
+
+const line = (id: string): DrawnStroke => ({ t: 'line', id, c: '#000000', w: 0.01, p: [0.1, 0.1, 0.2, 0.2] });
+const fill = (id: string): DrawnStroke => ({ t: 'fill', id, c: '#ff0000', x: 0.5, y: 0.5 });
+
+describe('drawing document', () => {
+  // Operations are kept in drawing order
+  it('commits operations in order', () => {
+    const doc = commitOp(commitOp(emptyDocument(), line('a')), fill('b'));
+    expect(doc.ops.map((o) => o.id)).toEqual(['a', 'b']);
+    expect(doc.undone).toEqual([]);
+  });
+
+  // Undo moves the last operation to the redo stack; redo brings it back
+  it('undoes and redoes in LIFO order', () => {
+    let doc = commitOp(commitOp(emptyDocument(), line('a')), fill('b'));
+    doc = undoOp(undoOp(doc));
+    expect(doc.ops).toEqual([]);
+    expect(doc.undone.map((o) => o.id)).toEqual(['b', 'a']);
+    doc = redoOp(doc);
+    expect(doc.ops.map((o) => o.id)).toEqual(['a']);
+    doc = redoOp(doc);
+    expect(doc.ops.map((o) => o.id)).toEqual(['a', 'b']);
+  });
+
+  // There is no history cap: every operation can be undone
+  it('keeps more than 20 steps of history', () => {
+    let doc = emptyDocument();
+    for (let i = 0; i < 50; i++) doc = commitOp(doc, line(`l${i}`));
+    for (let i = 0; i < 50; i++) doc = undoOp(doc);
+    expect(doc.ops).toEqual([]);
+    expect(doc.undone).toHaveLength(50);
+  });
+
+  // A new operation after undo clears the redo stack
+  it('drops redo history on a new commit', () => {
+    let doc = undoOp(commitOp(emptyDocument(), line('a')));
+    doc = commitOp(doc, fill('b'));
+    expect(doc.undone).toEqual([]);
+    expect(redoOp(doc)).toBe(doc);
+  });
+
+  // Undo/redo on empty stacks are no-ops
+  it('ignores undo and redo with nothing to apply', () => {
+    const doc = emptyDocument();
+    expect(undoOp(doc)).toBe(doc);
+    expect(redoOp(doc)).toBe(doc);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the scanline bucket fill (tolerance and edge expansion).
+ */
+import { describe, it, expect } from 'vitest';
+import { scanlineFill } from '../floodFill';
+
+const RED = { r: 255, g: 0, b: 0 };
+
+// Transparent w x h image with an opaque black vertical wall at column `wallX`
+function canvasWithWall(w: number, h: number, wallX: number) {
+  const data = new Uint8ClampedArray(w * h * 4);
+  for (let y = 0; y < h; y++) {
+    const pos = (y * w + wallX) * 4;
+    data[pos + 3] = 255;
+  }
+  return data;
+}
+const pixel = (data: Uint8ClampedArray, w: number, x: number, y: number) => Array.from(data.slice((y * w + x) * 4, (y * w + x) * 4 + 4));
+
+describe('scanlineFill', () => {
+  // The fill covers the connected region and stops at the wall
+  it('fills up to a boundary', () => {
+    const data = canvasWithWall(8, 4, 4);
+    expect(scanlineFill(data, 8, 4, 0, 0, RED)).toBe(true);
+    expect(pixel(data, 8, 3, 3)).toEqual([255, 0, 0, 255]);
+    expect(pixel(data, 8, 4, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(data, 8, 5, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  // Transparent and opaque white look the same on the canvas, so both get filled
+  it('treats transparent pixels as white', () => {
+    const data = canvasWithWall(8, 1, 7);
+    data.set([255, 255, 255, 255], 2 * 4);
+    scanlineFill(data, 8, 1, 0, 0, RED);
+    expect(pixel(data, 8, 2, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  // Pixels further than the tolerance from the start color act as boundaries
+  it('respects the tolerance', () => {
+    const data = canvasWithWall(8, 1, 7);
+    data.set([200, 200, 200, 255], 3 * 4);
+    scanlineFill(data, 8, 1, 0, 0, RED, { tolerance: 32 });
+    expect(pixel(data, 8, 3, 0)).toEqual([200, 200, 200, 255]);
+    expect(pixel(data, 8, 4, 0)).toEqual([0, 0, 0, 0]);
+    scanlineFill(data, 8, 1, 4, 0, { r: 0, g: 0, b: 255 }, { tolerance: 64 });
+    expect(pixel(data, 8, 3, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  // Expansion paints under a translucent edge pixel but leaves opaque strokes as they are
+  it('fills under anti-aliased edges when expanding', () => {
+    const data = canvasWithWall(8, 1, 4);
+    data.set([0, 0, 0, 128], 3 * 4);
+    scanlineFill(data, 8, 1, 0, 0, RED, { tolerance: 0, expand: 2 });
+    const [r, g, b, a] = pixel(data, 8, 3, 0);
+    expect(a).toBe(255);
+    expect(r).toBeGreaterThan(100);
+    expect(r).toBeLessThan(140);
+    expect([g, b]).toEqual([0, 0]);
+    expect(pixel(data, 8, 4, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  // Filling with the color already under the cursor is a no-op
+  it('returns false when nothing would change', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255]);
+    expect(scanlineFill(data, 2, 1, 0, 0, RED)).toBe(false);
+  });
+
+  // Large regions fill without a per-pixel stack
+  it('fills a large canvas', () => {
+    const w = 1800;
+    const h = 1350;
+    const data = new Uint8ClampedArray(w * h * 4);
+    expect(scanlineFill(data, w, h, w - 1, h - 1, RED)).toBe(true);
+    expect(pixel(data, w, 0, 0)).toEqual([255, 0, 0, 255]);
+  });
+});
+
+describe('scanlineFill with a separate sample', () => {
+  // The region comes from the merged pixels, the paint goes to the target layer
+  it('picks the region from the sample and paints the target', () => {
+    const merged = canvasWithWall(8, 1, 4);
+    const layer = new Uint8ClampedArray(8 * 4);
+    scanlineFill(layer, 8, 1, 0, 0, RED, {}, merged);
+    expect(pixel(layer, 8, 3, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(layer, 8, 5, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixel(merged, 8, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+});
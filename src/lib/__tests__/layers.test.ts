@@ -0,0 +1,32 @@
+/**
+ * Unit tests for the layer stack helpers (visibility and ordering).
+ */
+import { describe, it, expect } from 'vitest';
+import { BACKGROUND_LAYER_ID, defaultLayers, moveLayer, toggleLayer } from '../layers';
+
+const ids = (layers: { id: number }[]) => layers.map((l) => l.id);
+
+describe('layers', () => {
+  // A background plus two drawing layers, bottom to top
+  it('starts with a background and two drawing layers', () => {
+    const layers = defaultLayers();
+    expect(layers[0].id).toBe(BACKGROUND_LAYER_ID);
+    expect(layers).toHaveLength(3);
+    expect(layers.every((l) => l.visible)).toBe(true);
+  });
+
+  it('toggles visibility of one layer', () => {
+    const layers = toggleLayer(defaultLayers(), 2);
+    expect(layers.find((l) => l.id === 2)?.visible).toBe(false);
+    expect(layers.find((l) => l.id === 1)?.visible).toBe(true);
+  });
+
+  // Drawing layers swap places; nothing moves below or out of the background slot
+  it('reorders drawing layers above the background', () => {
+    const layers = defaultLayers();
+    expect(ids(moveLayer(layers, 1, 1))).toEqual([0, 2, 1]);
+    expect(moveLayer(layers, 1, -1)).toBe(layers);
+    expect(moveLayer(layers, 2, 1)).toBe(layers);
+    expect(moveLayer(layers, BACKGROUND_LAYER_ID, 1)).toBe(layers);
+  });
+});
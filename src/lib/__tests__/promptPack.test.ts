@@ -0,0 +1,44 @@
+/**
+ * Unit tests for reading custom prompt packs (plain lists and JSON).
+ */
+import { describe, it, expect } from 'vitest';
+import { parsePromptPack, summarizePromptPack } from '../promptPack';
+import { validatePromptPack } from '../validation';
+
+describe('parsePromptPack', () => {
+  it('reads one prompt per line into a single category', () => {
+    const pack = parsePromptPack(' cat \n\nhot  dog\r\nCat\n');
+    expect(pack && { ...pack }).toEqual({ Custom: ['cat', 'hot dog'] });
+  });
+
+  it('reads a JSON array and a JSON object of categories', () => {
+    expect({ ...parsePromptPack('["jaws", "up"]') }).toEqual({ Custom: ['jaws', 'up'] });
+    const pack = parsePromptPack('{"Movies": ["jaws", "up"], "Food": ["taco"]}');
+    expect(pack && summarizePromptPack(pack)).toEqual({ categories: ['Movies', 'Food'], count: 3 });
+  });
+
+  it('returns null for unreadable input', () => {
+    expect(parsePromptPack('{"Movies": ')).toBeNull();
+    expect(parsePromptPack('{"Movies": "jaws"}')).toBeNull();
+    expect(parsePromptPack('[1, 2, 3]')).toBeNull();
+  });
+});
+
+describe('validatePromptPack', () => {
+  it('accepts a valid pack', () => {
+    expect(validatePromptPack(parsePromptPack('cat\ndog\nbird'))).toBeNull();
+  });
+
+  it('enforces the prompt count', () => {
+    expect(validatePromptPack(parsePromptPack('cat\ndog'))).toMatch(/at least 3/i);
+    const many = Array.from({ length: 201 }, (_, i) => `word${i}`).join('\n');
+    expect(validatePromptPack(parsePromptPack(many))).toMatch(/at most 200/i);
+  });
+
+  it('rejects long prompts, invalid characters and bad category names', () => {
+    expect(validatePromptPack(parsePromptPack(`cat\ndog\n${'a'.repeat(31)}`))).toMatch(/30 characters/i);
+    expect(validatePromptPack(parsePromptPack('cat\ndog\ncafé'))).toMatch(/invalid characters/i);
+    expect(validatePromptPack(parsePromptPack('{"!!": ["cat", "dog", "bird"]}'))).toMatch(/category names/i);
+    expect(validatePromptPack(null)).toMatch(/could not read/i);
+  });
+});
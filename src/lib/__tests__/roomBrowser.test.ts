@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the room browser's quick-join pick.
+ */
+import { describe, it, expect } from 'vitest';
+import { pickQuickJoinRoom } from '../roomBrowser';
+import type { PublicRoom } from '../../types';
+
+const room = (code: string, players: number, extra?: Partial<PublicRoom>): PublicRoom => ({
+  code,
+  hostNickname: 'Host',
+  players,
+  maxPlayers: 12,
+  category: [],
+  phase: 'lobby',
+  roundDuration: 60,
+  mode: 'classic',
+  locked: false,
+  ...extra,
+});
+
+describe('pickQuickJoinRoom', () => {
+  it('returns null when there is no room', () => {
+    expect(pickQuickJoinRoom([])).toBeNull();
+  });
+
+  it('picks the fullest room', () => {
+    expect(pickQuickJoinRoom([room('AAAAA', 2), room('BBBBB', 5), room('CCCCC', 3)])?.code).toBe('BBBBB');
+  });
+
+  it('skips locked and full rooms', () => {
+    const picked = pickQuickJoinRoom([
+      room('AAAAA', 2),
+      room('BBBBB', 8, { locked: true }),
+      room('CCCCC', 12),
+    ]);
+    expect(picked?.code).toBe('AAAAA');
+  });
+
+  it('returns null when every room is locked', () => {
+    expect(pickQuickJoinRoom([room('AAAAA', 2, { locked: true })])).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for folding streamed stroke messages into the drawn stroke list.
+ */
+import { describe, it, expect } from 'vitest';
+import { isTranslucent, mergeStroke, pressureScale, quantize, strokeMessages } from '../strokes';
+import type { DrawnStroke, StrokeMessage } from '../strokes';
+
+const fold = (msgs: StrokeMessage[]) => msgs.reduce(mergeStroke, [] as DrawnStroke[]);
+
+describe('mergeStroke', () => {
+  // Follow-up batches of the same line extend it instead of starting a new stroke
+  it('appends points to the line with the same id', () => {
+    const list = fold([
+      { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.1, 0.1] },
+      { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.2, 0.2, 0.3, 0.3] },
+    ]);
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ t: 'line', id: 'a', p: [0.1, 0.1, 0.2, 0.2, 0.3, 0.3] });
+  });
+
+  // A new id, or a fill in between, starts a separate stroke
+  it('keeps separate strokes in order', () => {
+    const list = fold([
+      { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.1, 0.1] },
+      { t: 'fill', id: 'b', c: '#ff0000', x: 0.5, y: 0.5 },
+      { t: 'line', id: 'c', c: '#000000', w: 0.01, p: [0.4, 0.4] },
+    ]);
+    expect(list.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  // Undo drops the most recent stroke; clear drops everything
+  it('handles undo and clear', () => {
+    const base: StrokeMessage[] = [
+      { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.1, 0.1] },
+      { t: 'fill', id: 'b', c: '#ff0000', x: 0.5, y: 0.5 },
+    ];
+    expect(fold([...base, { t: 'undo', id: 'u' }]).map((s) => s.id)).toEqual(['a']);
+    expect(fold([...base, { t: 'clear', id: 'x' }])).toEqual([]);
+    expect(fold([{ t: 'undo', id: 'u' }])).toEqual([]);
+  });
+
+  // Merging never mutates the previous list (store updates rely on new references)
+  it('does not mutate the input list', () => {
+    const first = fold([{ t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.1, 0.1] }]);
+    const next = mergeStroke(first, { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.2, 0.2] });
+    expect(first[0]).toMatchObject({ p: [0.1, 0.1] });
+    expect(next).not.toBe(first);
+  });
+});
+
+describe('quantize', () => {
+  it('clamps to 0..1 and rounds to 4 decimals', () => {
+    expect(quantize(-0.5)).toBe(0);
+    expect(quantize(1.5)).toBe(1);
+    expect(quantize(0.123456)).toBe(0.1235);
+  });
+});
+
+describe('strokeMessages', () => {
+  // Long lines are split into chunks that share the stroke id, so merging them rebuilds the line
+  it('chunks long lines and round-trips through mergeStroke', () => {
+    const p = Array.from({ length: 300 }, (_, i) => (i % 100) / 100);
+    const line: DrawnStroke = { t: 'line', id: 'a', c: '#000000', w: 0.01, p };
+    const msgs = strokeMessages(line, 64);
+    expect(msgs).toHaveLength(3);
+    expect(msgs.every((m) => m.id === 'a')).toBe(true);
+    expect(fold(msgs)).toEqual([line]);
+  });
+
+  it('sends fills and short lines as a single message', () => {
+    const fill: DrawnStroke = { t: 'fill', id: 'f', c: '#ff0000', x: 0.5, y: 0.5 };
+    expect(strokeMessages(fill)).toEqual([fill]);
+  });
+});
+
+describe('eraser and shapes', () => {
+  // Eraser chunks keep their flag; shapes are single self-contained operations
+  it('merges eraser lines and appends shapes', () => {
+    const list = fold([
+      { t: 'line', id: 'e', c: '#000000', w: 0.02, p: [0.1, 0.1], e: true },
+      { t: 'line', id: 'e', c: '#000000', w: 0.02, p: [0.2, 0.2], e: true },
+      { t: 'shape', id: 's', k: 'rect', c: '#ff0000', w: 0.01, p: [0.1, 0.1, 0.5, 0.5], f: true },
+    ]);
+    expect(list).toHaveLength(2);
+    expect(list[0]).toMatchObject({ t: 'line', e: true, p: [0.1, 0.1, 0.2, 0.2] });
+    expect(list[1]).toMatchObject({ t: 'shape', k: 'rect', f: true });
+  });
+});
+
+describe('pressure-sensitive lines', () => {
+  // Pressure samples stay aligned with their points when streamed in chunks and merged back
+  it('keeps pressures aligned through chunking and merging', () => {
+    const p = Array.from({ length: 20 }, (_, i) => i / 20);
+    const r = Array.from({ length: 10 }, (_, i) => i / 10);
+    const line: DrawnStroke = { t: 'line', id: 'a', c: '#000000', w: 0.01, p, s: true, r };
+    const msgs = strokeMessages(line, 4);
+    expect(msgs).toHaveLength(3);
+    msgs.forEach((m) => {
+      if (m.t === 'line') expect(m.r).toHaveLength(m.p.length / 2);
+    });
+    expect(fold(msgs)).toEqual([line]);
+  });
+
+  it('maps the default pressure to the base width', () => {
+    expect(pressureScale(0.5)).toBeCloseTo(1);
+    expect(pressureScale(0)).toBeLessThan(pressureScale(1));
+  });
+});
+
+describe('opacity', () => {
+  // Only lines and shapes with an opacity below 1 need whole-stroke rendering
+  it('detects translucent strokes', () => {
+    expect(isTranslucent({ t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0, 0], a: 0.5 })).toBe(true);
+    expect(isTranslucent({ t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0, 0], a: 1 })).toBe(false);
+    expect(isTranslucent({ t: 'shape', id: 'b', k: 'rect', c: '#000000', w: 0.01, p: [0, 0, 1, 1], a: 0.3 })).toBe(true);
+    expect(isTranslucent({ t: 'fill', id: 'c', c: '#000000', x: 0, y: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Autosave/restore tests for in-progress drawings (IndexedDB access is mocked).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { DrawingDraft } from '../drawingDrafts';
+import type { DocumentOp } from '../drawingDocument';
+import { defaultLayers } from '../layers';
+
+const drafts = new Map<string, DrawingDraft>();
+vi.mock('../drawingDrafts', () => ({
+  draftKey: (code: string, playerId: string, roundId: string) => `${code}|${playerId}|${roundId}`,
+  loadDraft: vi.fn(async (key: string) => drafts.get(key) ?? null),
+  saveDraft: vi.fn(async (draft: DrawingDraft) => { drafts.set(draft.key, draft); }),
+}));
+
+import { useDrawingAutosave } from '../useDrawingAutosave';
+
+const target = { code: 'ABCD', playerId: 'p1', roundId: 'r2' };
+const line: DocumentOp = { t: 'line', id: 'a', c: '#000000', w: 0.01, p: [0.1, 0.1], l: 1 };
+
+function makeDoc(ops: DocumentOp[] = []) {
+  return { ops, layers: defaultLayers(), load: vi.fn() };
+}
+
+beforeEach(() => {
+  drafts.clear();
+  vi.useFakeTimers();
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useDrawingAutosave', () => {
+  // A draft for the same round (same round id) is loaded back into the document
+  it('restores a draft of the same round', async () => {
+    drafts.set('ABCD|p1|r2', { key: 'ABCD|p1|r2', ...target, ops: [line], layers: defaultLayers(), savedAt: 1 });
+    const doc = makeDoc();
+    renderHook(() => useDrawingAutosave(doc, target, () => true));
+    await act(async () => {});
+    expect(doc.load).toHaveBeenCalledWith([line], expect.any(Array));
+  });
+
+  it('ignores drafts from another round or once the user has drawn', async () => {
+    // A draft left from an earlier round (same round number) has another round id
+    drafts.set('ABCD|p1|r1', { key: 'ABCD|p1|r1', ...target, roundId: 'r1', ops: [line], layers: defaultLayers(), savedAt: 1 });
+    const doc = makeDoc();
+    renderHook(() => useDrawingAutosave(doc, target, () => true));
+    await act(async () => {});
+    expect(doc.load).not.toHaveBeenCalled();
+
+    drafts.set('ABCD|p1|r2', { key: 'ABCD|p1|r2', ...target, ops: [line], layers: defaultLayers(), savedAt: 1 });
+    const touched = makeDoc();
+    renderHook(() => useDrawingAutosave(touched, target, () => false));
+    await act(async () => {});
+    expect(touched.load).not.toHaveBeenCalled();
+  });
+
+  // Saves on the interval only when there is something new
+  it('saves the drawing every few seconds', async () => {
+    const doc = makeDoc();
+    const hook = renderHook(({ d }) => useDrawingAutosave(d, target, () => true), { initialProps: { d: doc } });
+    await act(async () => {});
+    await act(async () => { vi.advanceTimersByTime(3000); });
+    expect(drafts.size).toBe(0);
+
+    hook.rerender({ d: makeDoc([line]) });
+    await act(async () => { vi.advanceTimersByTime(3000); });
+    expect(drafts.get('ABCD|p1|r2')?.ops).toEqual([line]);
+    expect(drafts.get('ABCD|p1|r2')?.roundId).toBe('r2');
+  });
+
+  it('does nothing without a target', async () => {
+    const doc = makeDoc([line]);
+    renderHook(() => useDrawingAutosave(doc, null, () => true));
+    await act(async () => { vi.advanceTimersByTime(10000); });
+    expect(drafts.size).toBe(0);
+  });
+});
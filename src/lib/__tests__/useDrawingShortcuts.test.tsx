@@ -0,0 +1,90 @@
+/**
+ * Keyboard shortcut tests for the drawing tools.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, renderHook } from '@testing-library/react';
+import { useDrawingShortcuts } from '../useDrawingShortcuts';
+import type { DrawingShortcutActions } from '../useDrawingShortcuts';
+
+function setup(enabled = true) {
+  const actions: DrawingShortcutActions = {
+    undo: vi.fn(),
+    redo: vi.fn(),
+    brush: vi.fn(),
+    eraser: vi.fn(),
+    bucket: vi.fn(),
+    line: vi.fn(),
+    rect: vi.fn(),
+    ellipse: vi.fn(),
+    eyedropper: vi.fn(),
+    brushSmaller: vi.fn(),
+    brushLarger: vi.fn(),
+    swatch: vi.fn(),
+    help: vi.fn(),
+  };
+  const hook = renderHook(({ on }) => useDrawingShortcuts(actions, on), { initialProps: { on: enabled } });
+  return { actions, hook };
+}
+
+describe('useDrawingShortcuts', () => {
+  // Ctrl/Cmd+Z undoes; Shift or Y redoes
+  it('maps undo and redo chords', () => {
+    const { actions } = setup();
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(window, { key: 'Z', metaKey: true, shiftKey: true });
+    fireEvent.keyDown(window, { key: 'y', ctrlKey: true });
+    expect(actions.undo).toHaveBeenCalledTimes(1);
+    expect(actions.redo).toHaveBeenCalledTimes(2);
+  });
+
+  // Single keys pick tools, step the brush size and choose palette swatches
+  it('maps tool, size and swatch keys', () => {
+    const { actions } = setup();
+    fireEvent.keyDown(window, { key: 'b' });
+    fireEvent.keyDown(window, { key: 'e' });
+    fireEvent.keyDown(window, { key: 'g' });
+    fireEvent.keyDown(window, { key: 'l' });
+    fireEvent.keyDown(window, { key: 'r' });
+    fireEvent.keyDown(window, { key: 'o' });
+    fireEvent.keyDown(window, { key: 'i' });
+    fireEvent.keyDown(window, { key: '[' });
+    fireEvent.keyDown(window, { key: ']' });
+    fireEvent.keyDown(window, { key: '?' });
+    fireEvent.keyDown(window, { key: '1' });
+    fireEvent.keyDown(window, { key: '0' });
+    expect(actions.brush).toHaveBeenCalled();
+    expect(actions.eraser).toHaveBeenCalled();
+    expect(actions.bucket).toHaveBeenCalled();
+    expect(actions.line).toHaveBeenCalled();
+    expect(actions.rect).toHaveBeenCalled();
+    expect(actions.ellipse).toHaveBeenCalled();
+    expect(actions.eyedropper).toHaveBeenCalled();
+    expect(actions.brushSmaller).toHaveBeenCalled();
+    expect(actions.brushLarger).toHaveBeenCalled();
+    expect(actions.help).toHaveBeenCalled();
+    expect(actions.swatch).toHaveBeenNthCalledWith(1, 0);
+    expect(actions.swatch).toHaveBeenNthCalledWith(2, 9);
+  });
+
+  // Typing in chat must not switch tools or undo
+  it('ignores keys typed into inputs', () => {
+    const { actions } = setup();
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    fireEvent.keyDown(input, { key: 'b' });
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+    expect(actions.brush).not.toHaveBeenCalled();
+    expect(actions.undo).not.toHaveBeenCalled();
+    input.remove();
+  });
+
+  // Disabled while dialogs are open or the player is only watching
+  it('does nothing when disabled', () => {
+    const { actions, hook } = setup(false);
+    fireEvent.keyDown(window, { key: 'b' });
+    expect(actions.brush).not.toHaveBeenCalled();
+    hook.rerender({ on: true });
+    fireEvent.keyDown(window, { key: 'b' });
+    expect(actions.brush).toHaveBeenCalledTimes(1);
+  });
+});
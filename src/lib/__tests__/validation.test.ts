@@ -2,7 +2,7 @@
  * Unit tests for nickname/round validation used by the Menu page.
  */
 import { describe, it, expect } from 'vitest';
-import { validateNickname, validateRoundDuration } from '../validation';
+import { validateDifficulties, validateNickname, validatePasscode, validateRoundDuration, validateTotalRounds } from '../validation';
 
 describe('validateNickname', () => {
   // Empty and 1-char names should return error messages
@@ -45,3 +45,34 @@ describe('validateRoundDuration', () => {
     expect(validateRoundDuration(60)).toBeNull();
   });
 });
+
+describe('validateTotalRounds', () => {
+  // Match length must be a whole number between 1 and 10
+  it('enforces integer rounds within bounds', () => {
+    expect(validateTotalRounds(2.5)).toMatch(/whole number/i);
+    expect(validateTotalRounds(0)).toMatch(/at least 1/i);
+    expect(validateTotalRounds(11)).toMatch(/cannot exceed/i);
+    expect(validateTotalRounds(5)).toBeNull();
+  });
+});
+
+describe('validatePasscode', () => {
+  // 4-20 printable ASCII characters without surrounding spaces
+  it('enforces length and characters', () => {
+    expect(validatePasscode('')).toMatch(/enter a passcode/i);
+    expect(validatePasscode('abc')).toMatch(/at least 4/i);
+    expect(validatePasscode('a'.repeat(21))).toMatch(/20 characters/i);
+    expect(validatePasscode(' abcd')).toMatch(/spaces/i);
+    expect(validatePasscode('pässword')).toMatch(/invalid characters/i);
+    expect(validatePasscode('open sesame!')).toBeNull();
+  });
+});
+
+describe('validateDifficulties', () => {
+  it('needs at least one known difficulty without repeats', () => {
+    expect(validateDifficulties([])).toMatch(/at least one/i);
+    expect(validateDifficulties(['easy', 'extreme'])).toMatch(/unknown/i);
+    expect(validateDifficulties(['hard', 'hard'])).toMatch(/repeat/i);
+    expect(validateDifficulties(['easy', 'hard'])).toBeNull();
+  });
+});
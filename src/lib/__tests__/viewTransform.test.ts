@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the canvas zoom/pan transform and pointer mapping.
+ */
+import { describe, it, expect } from 'vitest';
+import { FIT_VIEW, MAX_ZOOM, clampView, isFitView, panBy, pinchView, toCanvasPoint, zoomAt } from '../viewTransform';
+
+describe('viewTransform', () => {
+  it('maps box points straight through at fit', () => {
+    expect(toCanvasPoint(FIT_VIEW, { x: 0.25, y: 0.75 })).toEqual({ x: 0.25, y: 0.75 });
+  });
+
+  // The canvas point under the cursor stays under the cursor while zooming
+  it('zooms around the given point', () => {
+    const at = { x: 0.3, y: 0.6 };
+    const before = toCanvasPoint(FIT_VIEW, at);
+    const view = zoomAt(FIT_VIEW, 2, at);
+    expect(view.scale).toBe(2);
+    const after = toCanvasPoint(view, at);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+    // The box center now shows a point between the cursor and the old center
+    expect(toCanvasPoint(view, { x: 0.5, y: 0.5 }).x).toBeCloseTo(0.4);
+  });
+
+  it('keeps the zoom in range and the canvas covering the box', () => {
+    expect(zoomAt(FIT_VIEW, 0.5, { x: 0.5, y: 0.5 })).toEqual(FIT_VIEW);
+    expect(zoomAt(FIT_VIEW, 100, { x: 0.5, y: 0.5 }).scale).toBe(MAX_ZOOM);
+    expect(panBy(FIT_VIEW, 0.2, -0.2)).toEqual(FIT_VIEW);
+    expect(clampView({ scale: 2, x: -3, y: 0.5 })).toEqual({ scale: 2, x: -1, y: 0 });
+  });
+
+  it('pans a zoomed view', () => {
+    const view = panBy({ scale: 2, x: -0.5, y: -0.5 }, 0.25, -0.25);
+    expect(view).toEqual({ scale: 2, x: -0.25, y: -0.75 });
+    expect(toCanvasPoint(view, { x: 0, y: 0 })).toEqual({ x: 0.125, y: 0.375 });
+  });
+
+  // Fingers spreading apart zoom in; moving together pans
+  it('follows a two-finger gesture', () => {
+    const mid = { x: 0.5, y: 0.5 };
+    const zoomed = pinchView(FIT_VIEW, mid, mid, 2);
+    expect(zoomed).toEqual({ scale: 2, x: -0.5, y: -0.5 });
+    const moved = pinchView(zoomed, mid, { x: 0.6, y: 0.5 }, 1);
+    expect(moved.x).toBeCloseTo(-0.4);
+    expect(toCanvasPoint(moved, { x: 0.6, y: 0.5 }).x).toBeCloseTo(0.5);
+    expect(isFitView(moved)).toBe(false);
+  });
+});
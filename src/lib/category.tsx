@@ -1,7 +1,8 @@
 import type { JSX } from 'react';
-import { Shuffle, PawPrint, Box, Leaf, Utensils, Car, Wand2, Building2, Trophy } from 'lucide-react';
+import { Shuffle, PawPrint, Box, Leaf, Utensils, Car, Wand2, Building2, Trophy, ListPlus } from 'lucide-react';
+import type { PromptPackSummary } from '../types';
 
-export type CategoryKey =
+export type BuiltInCategoryKey =
   | 'random'
   | 'animals'
   | 'objects'
@@ -12,7 +13,14 @@ export type CategoryKey =
   | 'buildings'
   | 'sports';
 
-export const categories: Array<{ key: CategoryKey; label: string; icon: JSX.Element }> = [
+// Categories of the room's custom prompt pack: 'custom' (any of its prompts) or 'custom:<name>'
+export type CustomCategoryKey = 'custom' | `custom:${string}`;
+
+export type CategoryKey = BuiltInCategoryKey | CustomCategoryKey;
+
+export type CategoryOption = { key: CategoryKey; label: string; icon: JSX.Element };
+
+export const categories: Array<{ key: BuiltInCategoryKey; label: string; icon: JSX.Element }> = [
   { key: 'random', label: 'Random', icon: (<Shuffle size={20} />) },
   { key: 'animals', label: 'Animals', icon: (<PawPrint size={20} />) },
   { key: 'objects', label: 'Objects', icon: (<Box size={20} />) },
@@ -24,7 +32,32 @@ export const categories: Array<{ key: CategoryKey; label: string; icon: JSX.Elem
   { key: 'sports', label: 'Sports', icon: (<Trophy size={20} />) },
 ];
 
+export function isCustomCategory(category: string | null | undefined): category is CustomCategoryKey {
+  return !!category && (category === 'custom' || category.startsWith('custom:'));
+}
+
+// Category picker entries for a prompt pack: "Custom" for the whole pack, plus one per category
+// when it has several
+export function customCategories(pack: PromptPackSummary | null | undefined): CategoryOption[] {
+  if (!pack) return [];
+  const all: CategoryOption = { key: 'custom', label: 'Custom', icon: (<ListPlus size={20} />) };
+  if (pack.categories.length < 2) return [all];
+  return [all, ...pack.categories.map((name): CategoryOption => ({ key: `custom:${name}`, label: name, icon: (<ListPlus size={20} />) }))];
+}
+
+export function categoryLabel(category: string | null | undefined): string {
+  if (category === 'custom') return 'Custom';
+  if (isCustomCategory(category)) return category.slice('custom:'.length);
+  return categories.find((c) => c.key === category)?.label ?? 'Random';
+}
+
+// A room's category selection, e.g. "Animals, Food"; none is random
+export function categoriesLabel(list: string[]): string {
+  return list.length > 0 ? list.map(categoryLabel).join(', ') : 'Random';
+}
+
 export function getCategoryIcon(category: string): JSX.Element {
+  if (isCustomCategory(category)) return (<ListPlus size={32} />);
   switch (category) {
     case 'animals':
       return (<PawPrint size={32} />);
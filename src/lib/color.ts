@@ -0,0 +1,75 @@
+// Color conversions for the color picker and fills. Hex colors are '#rrggbb'.
+
+export type Rgb = { r: number; g: number; b: number };
+export type Hsv = { h: number; s: number; v: number }; // h in 0..360, s/v in 0..1
+
+export function hexToRgb(hex: string): Rgb | null {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) }
+    : null;
+}
+
+export function rgbToHex({ r, g, b }: Rgb): string {
+  const toHex = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+export function rgbToHsv({ r, g, b }: Rgb): Hsv {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const d = max - Math.min(rn, gn, bn);
+  let h = 0;
+  if (d > 0) {
+    if (max === rn) h = ((gn - bn) / d) % 6;
+    else if (max === gn) h = (bn - rn) / d + 2;
+    else h = (rn - gn) / d + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+  return { h, s: max === 0 ? 0 : d / max, v: max };
+}
+
+export function hsvToRgb({ h, s, v }: Hsv): Rgb {
+  const c = v * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const [r1, g1, b1] =
+    hp < 1 ? [c, x, 0] : hp < 2 ? [x, c, 0] : hp < 3 ? [0, c, x] : hp < 4 ? [0, x, c] : hp < 5 ? [x, 0, c] : [c, 0, x];
+  const m = v - c;
+  return { r: (r1 + m) * 255, g: (g1 + m) * 255, b: (b1 + m) * 255 };
+}
+
+export function hexToHsv(hex: string): Hsv {
+  return rgbToHsv(hexToRgb(hex) ?? { r: 0, g: 0, b: 0 });
+}
+
+export function hsvToHex(hsv: Hsv): string {
+  return rgbToHex(hsvToRgb(hsv));
+}
+
+// Parses what a user typed into the color field: '#rgb', '#rrggbb' (the '#' is optional),
+// 'rgb(r, g, b)' or 'r, g, b'. Returns a lowercase '#rrggbb' or null when invalid.
+export function parseColor(input: string): string | null {
+  const text = input.trim().toLowerCase();
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/.exec(text);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, (c) => c + c) : hex[1];
+    return `#${digits}`;
+  }
+  const rgb = /^(?:rgb\()?\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)?$/.exec(text);
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map(Number);
+    if ([r, g, b].some((v) => v > 255)) return null;
+    return rgbToHex({ r, g, b });
+  }
+  return null;
+}
+
+// Most recent first, without duplicates, capped at `max`
+export function pushRecentColor(list: string[], hex: string, max = 8): string[] {
+  const color = hex.toLowerCase();
+  return [color, ...list.filter((c) => c.toLowerCase() !== color)].slice(0, max);
+}
@@ -7,13 +7,32 @@ export const Events = {
   StartRound: 'start-round',
   SubmitDrawing: 'submit-drawing',
   UpdateSettings: 'update-settings',
+  SubmitVote: 'submit-vote',
+  DrawStroke: 'draw-stroke', // both directions: drawer -> server -> guessers
+  ChoosePrompt: 'choose-prompt', // prompt choice: pick one of the candidates
+  // Host moderation
+  KickPlayer: 'kick-player',
+  BanPlayer: 'ban-player',
+  TransferHost: 'transfer-host',
+  ReturnToLobby: 'return-to-lobby', // host: results -> lobby for everyone
+  ResetDeck: 'reset-deck', // host: reshuffle the prompt decks
 
   // Server -> Client
   LobbyUpdate: 'lobby-update',
   SettingsUpdate: 'settings-update',
   RoundStart: 'round-start',
+  RoundInProgress: 'round-in-progress', // to late joiners, who wait for the next round
+  RoomPhase: 'room-phase', // the room's phase changed; the views follow it
   RoundEnd: 'round-end',
+  VotingEnd: 'voting-end',
+  MatchUpdate: 'match-update',
+  MatchEnd: 'match-end',
+  StrokeSync: 'stroke-sync',
+  GuessUpdate: 'guess-update',
+  PromptChosen: 'prompt-chosen', // the prompt this player draws (picked, or picked for them)
   ChatMessage: 'chat-message',
+  Kicked: 'kicked', // to a player the host removed
+  RoomError: 'room-error', // something failed for the whole room, e.g. a round could not start
 } as const;
 
 export type EventKey = keyof typeof Events;
@@ -0,0 +1,30 @@
+// Default swatches for the color picker; the first ten map to the 1-9, 0 drawing shortcuts
+export const DEFAULT_PALETTE: string[] = [
+  // Row 1: Primaries & brights
+  '#DC2626', // Red
+  '#F97316', // Orange
+  '#F59E0B', // Yellow-Orange
+  '#16A34A', // Green
+  '#2563EB', // Blue
+
+  // Row 2: Vibrant cools & purples
+  '#0EA5E9', // Cyan
+  '#14B8A6', // Teal
+  '#8B5CF6', // Violet
+  '#7C3AED', // Deep Purple
+  '#DB2777', // Magenta
+
+  // Row 3: Lights & pastels
+  '#FFFFFF', // White
+  '#FECACA', // Light Pink
+  '#FDBA74', // Peach
+  '#FEF08A', // Light Yellow
+  '#E0F2FE', // Pale Blue
+
+  // Row 4: Neutrals & dark grounding tones
+  '#111827', // Charcoal
+  '#6B7280', // Medium Gray
+  '#1E3A8A', // Navy Blue
+  '#065F46', // Forest Green
+  '#7C2D12', // Dark Brown
+];
@@ -0,0 +1,12 @@
+import type { Difficulty } from '../types';
+
+// Prompt difficulties, easiest first; the server rates every built-in prompt with one of them
+export const difficulties: { key: Difficulty; label: string }[] = [
+  { key: 'easy', label: 'Easy' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'hard', label: 'Hard' },
+];
+
+export function difficultyLabel(difficulty: Difficulty): string {
+  return difficulties.find((d) => d.key === difficulty)?.label ?? difficulty;
+}
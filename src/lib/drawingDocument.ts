@@ -0,0 +1,34 @@
+import type { DrawnStroke } from './strokes';
+
+// Vector document behind the drawing canvas: the committed operations plus the undone ones
+// (most recently undone last) so they can be redone. Operations use the same normalized
+// format as streamed strokes, so any canvas size can replay them.
+export type DrawingDocument = {
+  ops: DocumentOp[];
+  undone: DocumentOp[];
+};
+
+// A stroke plus the layer it was drawn on (see layers.ts). Fills with `sampleAll` pick their
+// region from all visible layers merged instead of only their own layer.
+export type DocumentOp = DrawnStroke & { l?: number; sampleAll?: boolean };
+
+export function emptyDocument(): DrawingDocument {
+  return { ops: [], undone: [] };
+}
+
+// A new operation invalidates anything that could have been redone
+export function commitOp(doc: DrawingDocument, op: DocumentOp): DrawingDocument {
+  return { ops: [...doc.ops, op], undone: [] };
+}
+
+export function undoOp(doc: DrawingDocument): DrawingDocument {
+  if (doc.ops.length === 0) return doc;
+  const op = doc.ops[doc.ops.length - 1];
+  return { ops: doc.ops.slice(0, -1), undone: [...doc.undone, op] };
+}
+
+export function redoOp(doc: DrawingDocument): DrawingDocument {
+  if (doc.undone.length === 0) return doc;
+  const op = doc.undone[doc.undone.length - 1];
+  return { ops: [...doc.ops, op], undone: doc.undone.slice(0, -1) };
+}
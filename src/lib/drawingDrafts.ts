@@ -0,0 +1,79 @@
+// Autosaved in-progress drawings, so a reload or crash mid-round does not lose the canvas.
+// Kept in IndexedDB (documents can outgrow localStorage) and keyed by room code, player id and
+// the server's round id. Storage failures are swallowed: autosave is best effort.
+import type { DocumentOp } from './drawingDocument';
+import type { Layer } from './layers';
+
+export type DrawingDraft = {
+  key: string;
+  code: string;
+  playerId: string;
+  roundId: string; // unique per round, unlike the round number (every single-round match is round 1)
+  ops: DocumentOp[];
+  layers: Layer[];
+  savedAt: number;
+};
+
+const DB_NAME = 'timed-doodle';
+const STORE = 'drafts';
+
+export function draftKey(code: string, playerId: string, roundId: string): string {
+  return `${code}|${playerId}|${roundId}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB unavailable'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Try again next time instead of caching the failure
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+// Runs one request in its own transaction and resolves once the transaction is done
+async function run<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = request(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveDraft(draft: DrawingDraft): Promise<void> {
+  try {
+    await run('readwrite', (store) => store.put(draft));
+  } catch { /* storage unavailable or full */ }
+}
+
+export async function loadDraft(key: string): Promise<DrawingDraft | null> {
+  try {
+    const draft = await run<DrawingDraft | undefined>('readonly', (store) => store.get(key));
+    return draft ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Drops every draft saved for the room, e.g. when its round ends or the player leaves.
+// Keys start with the room code, so they form one contiguous key range.
+export async function clearDrafts(code: string): Promise<void> {
+  if (!code) return;
+  try {
+    await run('readwrite', (store) => store.delete(IDBKeyRange.bound(`${code}|`, `${code}|\uffff`)));
+  } catch { /* storage unavailable */ }
+}
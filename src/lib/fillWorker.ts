@@ -0,0 +1,84 @@
+import { hexToRgb } from './color';
+import { scanlineFill } from './floodFill';
+import type { FillOptions } from './floodFill';
+
+export type FillRequest = {
+  id: number;
+  buffer: ArrayBuffer;
+  w: number;
+  h: number;
+  x: number;
+  y: number;
+  fill: { r: number; g: number; b: number };
+  options: FillOptions;
+  sample?: ArrayBuffer; // pixels that decide the region, when not the target's own
+};
+export type FillResponse = { id: number; buffer: ArrayBuffer; changed: boolean };
+
+// Lazily created; null when workers are unavailable (tests, old browsers) or the worker failed
+let worker: Worker | null | undefined;
+let nextId = 1;
+const pending = new Map<number, (res: FillResponse | null) => void>();
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  try {
+    worker = typeof Worker === 'undefined' ? null : new Worker(new URL('./floodFill.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    worker = null;
+  }
+  if (worker) {
+    worker.onmessage = (e: MessageEvent<FillResponse>) => {
+      const resolve = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      resolve?.(e.data);
+    };
+    worker.onerror = () => {
+      // Fall back to main-thread fills from now on
+      worker?.terminate();
+      worker = null;
+      pending.forEach((resolve) => resolve(null));
+      pending.clear();
+    };
+  }
+  return worker;
+}
+
+// Computes a bucket fill of the current canvas pixels in the worker. Resolves with the filled
+// pixels (or null when nothing changed); the caller decides whether they are still current.
+// With `sampleCtx` the region is picked from that canvas (e.g. the merged layers).
+export function computeFill(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  color: string,
+  options: FillOptions,
+  sampleCtx?: CanvasRenderingContext2D
+): Promise<ImageData | null> {
+  const w = ctx.canvas.width | 0;
+  const h = ctx.canvas.height | 0;
+  const fill = hexToRgb(color);
+  if (!fill || x < 0 || y < 0 || x >= w || y >= h) return Promise.resolve(null);
+  const runHere = () => {
+    const image = ctx.getImageData(0, 0, w, h);
+    const sample = sampleCtx?.getImageData(0, 0, w, h).data;
+    return scanlineFill(image.data, w, h, x, y, fill, options, sample) ? image : null;
+  };
+  const wk = getWorker();
+  if (!wk) return Promise.resolve(runHere());
+  const image = ctx.getImageData(0, 0, w, h);
+  const id = nextId++;
+  return new Promise((resolve) => {
+    pending.set(id, (res) => {
+      // The worker died; the buffer is gone, so read the canvas again
+      if (!res) {
+        resolve(runHere());
+        return;
+      }
+      resolve(res.changed ? new ImageData(new Uint8ClampedArray(res.buffer), w, h) : null);
+    });
+    const sample = sampleCtx?.getImageData(0, 0, w, h).data.buffer;
+    const req: FillRequest = { id, buffer: image.data.buffer, w, h, x, y, fill, options, sample };
+    wk.postMessage(req, sample ? [image.data.buffer, sample] : [image.data.buffer]);
+  });
+}
@@ -0,0 +1,151 @@
+// Scanline flood fill over raw RGBA pixels. Shared by the drawing tools, stroke replay and the
+// fill worker, so it must not touch the DOM.
+import { hexToRgb } from './color';
+
+export type FillOptions = {
+  tolerance?: number; // max per-channel difference (0..255) still counted as the start color
+  expand?: number; // pixels to grow the fill under anti-aliased stroke edges
+};
+
+export const DEFAULT_FILL_TOLERANCE = 32;
+export const MAX_FILL_EXPAND = 3;
+
+// Fills the region around (startX, startY) in place. Colors are compared as they appear on the
+// white canvas background, so transparent and white pixels count as the same color.
+// The region is found in `sample` when given (e.g. all layers merged) but painted into `data`.
+// Returns false when nothing changed.
+export function scanlineFill(
+  data: Uint8ClampedArray,
+  w: number,
+  h: number,
+  startX: number,
+  startY: number,
+  fill: { r: number; g: number; b: number },
+  options: FillOptions = {},
+  sample: Uint8ClampedArray = data
+): boolean {
+  if (startX < 0 || startY < 0 || startX >= w || startY >= h) return false;
+  const tol = Math.max(0, Math.min(255, options.tolerance ?? DEFAULT_FILL_TOLERANCE));
+  const expand = Math.max(0, Math.min(MAX_FILL_EXPAND, Math.round(options.expand ?? 0)));
+
+  // Channel value composited over white
+  const onWhite = (pos: number, c: number) => {
+    const a = sample[pos + 3];
+    return a === 255 ? sample[pos + c] : 255 - ((255 - sample[pos + c]) * a) / 255;
+  };
+  const startPos = (startY * w + startX) * 4;
+  const sr = onWhite(startPos, 0);
+  const sg = onWhite(startPos, 1);
+  const sb = onWhite(startPos, 2);
+  // Filling with the color that is already there would change nothing visible
+  if (Math.abs(fill.r - sr) <= tol && Math.abs(fill.g - sg) <= tol && Math.abs(fill.b - sb) <= tol && sample[startPos + 3] === 255) {
+    return false;
+  }
+
+  const mask = new Uint8Array(w * h);
+  const matches = (i: number) => {
+    if (mask[i]) return false;
+    const pos = i * 4;
+    return Math.abs(onWhite(pos, 0) - sr) <= tol && Math.abs(onWhite(pos, 1) - sg) <= tol && Math.abs(onWhite(pos, 2) - sb) <= tol;
+  };
+
+  let minX = startX;
+  let maxX = startX;
+  let minY = startY;
+  let maxY = startY;
+  // Seeds are (x, y) pairs; each one expands into a whole horizontal span
+  const seeds: number[] = [startX, startY];
+  while (seeds.length) {
+    const y = seeds.pop()!;
+    const x = seeds.pop()!;
+    const row = y * w;
+    if (!matches(row + x)) continue;
+    let lx = x;
+    while (lx > 0 && matches(row + lx - 1)) lx--;
+    let rx = x;
+    while (rx < w - 1 && matches(row + rx + 1)) rx++;
+    mask.fill(1, row + lx, row + rx + 1);
+    if (lx < minX) minX = lx;
+    if (rx > maxX) maxX = rx;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+    // Queue one seed per run of matching pixels in the rows above and below
+    for (const ny of [y - 1, y + 1]) {
+      if (ny < 0 || ny >= h) continue;
+      const nrow = ny * w;
+      let inRun = false;
+      for (let xx = lx; xx <= rx; xx++) {
+        if (matches(nrow + xx)) {
+          if (!inRun) {
+            seeds.push(xx, ny);
+            inRun = true;
+          }
+        } else {
+          inRun = false;
+        }
+      }
+    }
+  }
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let i = y * w + minX, end = y * w + maxX; i <= end; i++) {
+      if (!mask[i]) continue;
+      const pos = i * 4;
+      data[pos] = fill.r;
+      data[pos + 1] = fill.g;
+      data[pos + 2] = fill.b;
+      data[pos + 3] = 255;
+    }
+  }
+
+  // Grow into the surrounding ring and paint the fill *under* those pixels: translucent
+  // anti-aliased edges blend with the fill color instead of leaving a white fringe.
+  for (let step = 0; step < expand; step++) {
+    minX = Math.max(0, minX - 1);
+    maxX = Math.min(w - 1, maxX + 1);
+    minY = Math.max(0, minY - 1);
+    maxY = Math.min(h - 1, maxY + 1);
+    const ring: number[] = [];
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const i = y * w + x;
+        if (mask[i]) continue;
+        if ((x > 0 && mask[i - 1] === 1) || (x < w - 1 && mask[i + 1] === 1) || (y > 0 && mask[i - w] === 1) || (y < h - 1 && mask[i + w] === 1)) {
+          ring.push(i);
+        }
+      }
+    }
+    for (const i of ring) {
+      mask[i] = 1;
+      const pos = i * 4;
+      const a = data[pos + 3] / 255;
+      data[pos] = data[pos] * a + fill.r * (1 - a);
+      data[pos + 1] = data[pos + 1] * a + fill.g * (1 - a);
+      data[pos + 2] = data[pos + 2] * a + fill.b * (1 - a);
+      data[pos + 3] = 255;
+    }
+  }
+  return true;
+}
+
+// Synchronous fill on a canvas context, used when replaying operations in order.
+// `sampleCtx` supplies the pixels that decide the region when it differs from the target.
+export function floodFill(
+  ctx: CanvasRenderingContext2D,
+  startX: number,
+  startY: number,
+  fillColor: string,
+  options?: FillOptions,
+  sampleCtx?: CanvasRenderingContext2D
+): void {
+  const w = ctx.canvas.width | 0;
+  const h = ctx.canvas.height | 0;
+  if (startX < 0 || startY < 0 || startX >= w || startY >= h) return;
+  const fillRgb = hexToRgb(fillColor);
+  if (!fillRgb) return;
+  const imageData = ctx.getImageData(0, 0, w, h);
+  const sample = sampleCtx ? sampleCtx.getImageData(0, 0, w, h).data : undefined;
+  if (scanlineFill(imageData.data, w, h, startX, startY, fillRgb, options, sample)) {
+    ctx.putImageData(imageData, 0, 0);
+  }
+}
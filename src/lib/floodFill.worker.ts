@@ -0,0 +1,11 @@
+// Runs bucket fills off the main thread. The pixel buffer is transferred in and back out.
+import { scanlineFill } from './floodFill';
+import type { FillRequest, FillResponse } from './fillWorker';
+
+self.onmessage = (e: MessageEvent<FillRequest>) => {
+  const { id, buffer, w, h, x, y, fill, options, sample } = e.data;
+  const data = new Uint8ClampedArray(buffer);
+  const changed = scanlineFill(data, w, h, x, y, fill, options, sample ? new Uint8ClampedArray(sample) : data);
+  const response: FillResponse = { id, buffer, changed };
+  self.postMessage(response, { transfer: [buffer] });
+};
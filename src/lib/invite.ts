@@ -0,0 +1,13 @@
+// Invite links deep-link into the join screen with the room code filled in: /join?code=ABCDE
+
+export function inviteLink(code: string, origin: string = window.location.origin): string {
+  return `${origin}/join?code=${encodeURIComponent(code.trim().toUpperCase())}`;
+}
+
+// Room code from a location search string, or null when missing or malformed
+export function inviteCodeFromSearch(search: string): string | null {
+  const raw = new URLSearchParams(search).get('code');
+  if (!raw) return null;
+  const code = raw.trim().toUpperCase();
+  return /^[A-Z0-9]{5}$/.test(code) ? code : null;
+}
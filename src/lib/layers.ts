@@ -0,0 +1,32 @@
+// Layer stack for the drawing canvas, bottom to top. The background layer is always at the
+// bottom and starts out white; drawing layers sit above it and can be reordered and hidden.
+export type Layer = { id: number; name: string; visible: boolean };
+
+export const BACKGROUND_LAYER_ID = 0;
+// Operations without a layer (e.g. restored guess-mode strokes) belong here
+export const DEFAULT_LAYER_ID = 1;
+
+export function defaultLayers(): Layer[] {
+  return [
+    { id: BACKGROUND_LAYER_ID, name: 'Background', visible: true },
+    { id: DEFAULT_LAYER_ID, name: 'Layer 1', visible: true },
+    { id: 2, name: 'Layer 2', visible: true },
+  ];
+}
+
+export function toggleLayer(layers: Layer[], id: number): Layer[] {
+  return layers.map((l) => (l.id === id ? { ...l, visible: !l.visible } : l));
+}
+
+// Moves a drawing layer one step up (+1) or down (-1). The background never moves and
+// nothing can be moved below it.
+export function moveLayer(layers: Layer[], id: number, dir: 1 | -1): Layer[] {
+  const from = layers.findIndex((l) => l.id === id);
+  const to = from + dir;
+  if (from < 0 || id === BACKGROUND_LAYER_ID || to < 0 || to >= layers.length || layers[to].id === BACKGROUND_LAYER_ID) {
+    return layers;
+  }
+  const next = [...layers];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
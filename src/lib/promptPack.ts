@@ -0,0 +1,50 @@
+// Custom prompt packs, read the same way as on the server (server/prompts.js): one prompt per line,
+// a JSON array of prompts, or a JSON object of category name -> prompts. The host sends the raw text;
+// this copy checks it before upload and previews what the room will get.
+import type { PromptPackSummary } from '../types';
+
+export type PromptPack = Record<string, string[]>;
+
+// Larger texts are refused by the server
+export const MAX_PROMPT_PACK_CHARS = 10000;
+
+const DEFAULT_PACK_CATEGORY = 'Custom';
+
+// Prompts are trimmed and de-duplicated; null when the text cannot be read
+export function parsePromptPack(text: string): PromptPack | null {
+  const trimmed = text.trim();
+  let raw: unknown;
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+  } else {
+    raw = trimmed.split(/\r?\n/);
+  }
+  if (Array.isArray(raw)) raw = { [DEFAULT_PACK_CATEGORY]: raw };
+  if (!raw || typeof raw !== 'object') return null;
+  const pack: PromptPack = Object.create(null);
+  for (const [name, list] of Object.entries(raw)) {
+    if (!Array.isArray(list)) return null;
+    const seen = new Set<string>();
+    const words: string[] = [];
+    for (const item of list) {
+      if (typeof item !== 'string') return null;
+      const word = item.trim().replace(/\s+/g, ' ');
+      if (!word || seen.has(word.toLowerCase())) continue;
+      seen.add(word.toLowerCase());
+      words.push(word);
+    }
+    pack[name.trim().replace(/\s+/g, ' ')] = words;
+  }
+  return pack;
+}
+
+export function summarizePromptPack(pack: PromptPack): PromptPackSummary {
+  return {
+    categories: Object.keys(pack),
+    count: Object.values(pack).reduce((n, list) => n + list.length, 0),
+  };
+}
@@ -0,0 +1,20 @@
+// Public room list for the room browser, served by the backend at GET /rooms
+import config from '../config';
+import type { PublicRoom } from '../types';
+
+export async function fetchPublicRooms(signal?: AbortSignal): Promise<PublicRoom[]> {
+  const res = await fetch(`${config.socketUrl}/rooms`, { signal });
+  if (!res.ok) throw new Error(`Room list failed (${res.status})`);
+  const body = (await res.json()) as { rooms?: PublicRoom[] };
+  return Array.isArray(body.rooms) ? body.rooms : [];
+}
+
+// Quick join: the fullest room that still takes players, or null when none does
+export function pickQuickJoinRoom(rooms: PublicRoom[]): PublicRoom | null {
+  let best: PublicRoom | null = null;
+  for (const room of rooms) {
+    if (room.locked || room.players >= room.maxPlayers) continue;
+    if (!best || room.players > best.players) best = room;
+  }
+  return best;
+}
@@ -0,0 +1,205 @@
+import { floodFill } from './floodFill';
+
+// Compact stroke messages streamed from the drawer in guess mode.
+// Coordinates are normalized to 0..1 of the canvas size and widths to the canvas width,
+// so every client can replay them at its own resolution.
+export type StrokeMessage =
+  // p = [x0, y0, x1, y1, ...]; e = eraser; s = smoothed curves; r = per-point stylus pressure (0..1); a = opacity
+  | { t: 'line'; id: string; c: string; w: number; p: number[]; e?: boolean; s?: boolean; r?: number[]; a?: number }
+  | { t: 'fill'; id: string; c: string; x: number; y: number; tol?: number; grow?: number } // tol = color tolerance; grow = edge expansion in px
+  | { t: 'shape'; id: string; k: ShapeKind; c: string; w: number; p: number[]; f?: boolean; a?: number } // p = [x0, y0, x1, y1] corners; f = filled; a = opacity
+  | { t: 'clear'; id: string }
+  | { t: 'undo'; id: string };
+
+export type ShapeKind = 'line' | 'rect' | 'ellipse';
+
+export type DrawnStroke = Extract<StrokeMessage, { t: 'line' | 'fill' | 'shape' }>;
+
+// Rounds normalized coordinates to keep messages small
+export function quantize(v: number): number {
+  return Math.round(Math.max(0, Math.min(1, v)) * 10000) / 10000;
+}
+
+// Width multiplier for a stylus pressure sample; 0.5 (the mouse default) keeps the base width
+export function pressureScale(pressure: number): number {
+  return 0.3 + 1.4 * Math.max(0, Math.min(1, pressure));
+}
+
+// Lines drawn with an opacity below 1 have to be rendered whole: their segments overlap, and
+// drawing them piece by piece would darken every joint.
+export function isTranslucent(stroke: DrawnStroke): boolean {
+  return stroke.t !== 'fill' && stroke.a !== undefined && stroke.a < 1;
+}
+
+export function makeStrokeId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Folds one message into the list of drawn strokes.
+// Line messages with a known id append points; undo drops the last stroke; clear drops all.
+export function mergeStroke(list: DrawnStroke[], msg: StrokeMessage): DrawnStroke[] {
+  switch (msg.t) {
+    case 'clear':
+      return [];
+    case 'undo':
+      return list.slice(0, -1);
+    case 'fill':
+    case 'shape':
+      return [...list, msg];
+    case 'line': {
+      const last = list[list.length - 1];
+      if (last && last.t === 'line' && last.id === msg.id) {
+        const merged = { ...last, p: [...last.p, ...msg.p] };
+        if (last.r) merged.r = [...last.r, ...(msg.r ?? [])];
+        return [...list.slice(0, -1), merged];
+      }
+      return [...list, msg.r ? { ...msg, p: [...msg.p], r: [...msg.r] } : { ...msg, p: [...msg.p] }];
+    }
+    default:
+      return list;
+  }
+}
+
+// Splits a finished stroke into messages small enough to stream (e.g. when redoing a long line)
+export function strokeMessages(stroke: DrawnStroke, maxPoints = 64): StrokeMessage[] {
+  if (stroke.t !== 'line' || stroke.p.length <= maxPoints * 2) return [stroke];
+  const out: StrokeMessage[] = [];
+  for (let i = 0; i < stroke.p.length; i += maxPoints * 2) {
+    const chunk = { ...stroke, p: stroke.p.slice(i, i + maxPoints * 2) };
+    if (stroke.r) chunk.r = stroke.r.slice(i / 2, i / 2 + maxPoints);
+    out.push(chunk);
+  }
+  return out;
+}
+
+// Draws a stroke (or the part of a line starting at point index `fromPoint`) onto the context.
+// Translucent lines are always drawn whole, see isTranslucent.
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: DrawnStroke, fromPoint = 0): void {
+  const W = ctx.canvas.width;
+  const H = ctx.canvas.height;
+  if (stroke.t === 'fill') {
+    floodFill(ctx, Math.floor(stroke.x * W), Math.floor(stroke.y * H), stroke.c, { tolerance: stroke.tol, expand: stroke.grow });
+    return;
+  }
+  if (stroke.t === 'shape') {
+    drawShape(ctx, stroke);
+    return;
+  }
+  const pts = stroke.p;
+  const count = Math.floor(pts.length / 2);
+  if (count === 0) return;
+  if (isTranslucent(stroke) && !stroke.e) {
+    drawTranslucentLine(ctx, stroke);
+    return;
+  }
+  const lineWidth = Math.max(1, stroke.w * W);
+  ctx.save();
+  // The eraser clears pixels back to transparent instead of painting over them
+  if (stroke.e) ctx.globalCompositeOperation = 'destination-out';
+  ctx.strokeStyle = stroke.c;
+  ctx.fillStyle = stroke.c;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (stroke.s || stroke.r) {
+    drawSmoothLine(ctx, stroke, fromPoint);
+  } else if (count === 1) {
+    // A tap without movement renders as a dot
+    ctx.beginPath();
+    ctx.arc(pts[0] * W, pts[1] * H, lineWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    const start = Math.max(0, fromPoint - 1);
+    ctx.beginPath();
+    ctx.moveTo(pts[start * 2] * W, pts[start * 2 + 1] * H);
+    for (let i = start + 1; i < count; i++) {
+      ctx.lineTo(pts[i * 2] * W, pts[i * 2 + 1] * H);
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+let scratch: HTMLCanvasElement | null = null;
+
+// Renders the whole line opaque on a scratch canvas, then lays it down once at its opacity
+function drawTranslucentLine(ctx: CanvasRenderingContext2D, stroke: Extract<DrawnStroke, { t: 'line' }>): void {
+  scratch ??= document.createElement('canvas');
+  if (scratch.width !== ctx.canvas.width || scratch.height !== ctx.canvas.height) {
+    scratch.width = ctx.canvas.width;
+    scratch.height = ctx.canvas.height;
+  }
+  const sctx = scratch.getContext('2d');
+  if (!sctx) return;
+  sctx.clearRect(0, 0, scratch.width, scratch.height);
+  drawStroke(sctx, { ...stroke, a: undefined });
+  ctx.save();
+  ctx.globalAlpha = stroke.a ?? 1;
+  ctx.drawImage(scratch, 0, 0);
+  ctx.restore();
+}
+
+// Quadratic curves through the midpoints between samples (the samples act as control points).
+// Each segment is stroked on its own so its width can follow the pressure at its control point.
+// Incremental draws restart one segment early, because the previous tail was drawn straight.
+function drawSmoothLine(ctx: CanvasRenderingContext2D, stroke: Extract<DrawnStroke, { t: 'line' }>, fromPoint: number): void {
+  const W = ctx.canvas.width;
+  const H = ctx.canvas.height;
+  const pts = stroke.p;
+  const count = Math.floor(pts.length / 2);
+  const x = (i: number) => pts[i * 2] * W;
+  const y = (i: number) => pts[i * 2 + 1] * H;
+  const width = (i: number) => Math.max(1, stroke.w * W * (stroke.r ? pressureScale(stroke.r[i] ?? 0.5) : 1));
+  if (count === 1) {
+    ctx.beginPath();
+    ctx.arc(x(0), y(0), width(0) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  for (let i = Math.max(1, fromPoint - 1); i < count; i++) {
+    // Segment i starts where segment i - 1 ended: the first sample or the previous midpoint
+    const sx = i === 1 ? x(0) : (x(i - 1) + x(i)) / 2;
+    const sy = i === 1 ? y(0) : (y(i - 1) + y(i)) / 2;
+    ctx.lineWidth = width(i);
+    ctx.beginPath();
+    ctx.moveTo(sx, sy);
+    if (i === count - 1) {
+      ctx.lineTo(x(i), y(i));
+    } else {
+      ctx.quadraticCurveTo(x(i), y(i), (x(i) + x(i + 1)) / 2, (y(i) + y(i + 1)) / 2);
+    }
+    ctx.stroke();
+  }
+}
+
+// Straight line, rectangle or ellipse spanning the two corner points
+function drawShape(ctx: CanvasRenderingContext2D, shape: Extract<DrawnStroke, { t: 'shape' }>): void {
+  const W = ctx.canvas.width;
+  const H = ctx.canvas.height;
+  const [x0, y0, x1, y1] = [shape.p[0] * W, shape.p[1] * H, shape.p[2] * W, shape.p[3] * H];
+  ctx.save();
+  if (shape.a !== undefined) ctx.globalAlpha = shape.a;
+  ctx.strokeStyle = shape.c;
+  ctx.fillStyle = shape.c;
+  ctx.lineWidth = Math.max(1, shape.w * W);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = shape.k === 'rect' ? 'miter' : 'round';
+  ctx.beginPath();
+  if (shape.k === 'line') {
+    ctx.moveTo(x0, y0);
+    ctx.lineTo(x1, y1);
+  } else if (shape.k === 'rect') {
+    ctx.rect(Math.min(x0, x1), Math.min(y0, y1), Math.abs(x1 - x0), Math.abs(y1 - y0));
+  } else {
+    ctx.ellipse((x0 + x1) / 2, (y0 + y1) / 2, Math.abs(x1 - x0) / 2, Math.abs(y1 - y0) / 2, 0, 0, Math.PI * 2);
+  }
+  if (shape.f && shape.k !== 'line') ctx.fill();
+  else ctx.stroke();
+  ctx.restore();
+}
+
+// Clears the canvas and replays every stroke in order
+export function renderStrokes(ctx: CanvasRenderingContext2D, strokes: DrawnStroke[]): void {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  for (const stroke of strokes) drawStroke(ctx, stroke);
+}
@@ -1,8 +1,13 @@
-import { useLayoutEffect } from 'react';
+import { useLayoutEffect, useRef } from 'react';
 
+// Sizes the canvas bitmap to its container. When `onResize` is given the caller re-renders
+// the content itself (e.g. from a vector document); otherwise the old bitmap is rescaled.
 export function useAutoSizedCanvas(
-  canvasRef: React.RefObject<HTMLCanvasElement>
+  canvasRef: React.RefObject<HTMLCanvasElement>,
+  onResize?: () => void
 ): void {
+  const onResizeRef = useRef(onResize);
+  onResizeRef.current = onResize;
   useLayoutEffect(() => {
     const resize = () => {
       const canvas = canvasRef.current;
@@ -32,8 +37,9 @@ export function useAutoSizedCanvas(
       }
 
       // Preserve existing bitmap before resizing (resizing clears the canvas)
+      const rerender = onResizeRef.current;
       let backup: HTMLCanvasElement | null = null;
-      if (canvas.width > 0 && canvas.height > 0) {
+      if (!rerender && canvas.width > 0 && canvas.height > 0) {
         backup = document.createElement('canvas');
         backup.width = canvas.width;
         backup.height = canvas.height;
@@ -62,6 +68,8 @@ export function useAutoSizedCanvas(
           ctx.drawImage(backup, 0, 0, backup.width, backup.height, 0, 0, canvas.width, canvas.height);
         }
       }
+      // Re-render at the new resolution instead of scaling (no blur)
+      if (rerender) rerender();
     };
 
     // Initial sizing
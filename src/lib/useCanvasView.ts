@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react';
+import { isEditableTarget } from './useDrawingShortcuts';
+import { FIT_VIEW, isFitView, panBy, pinchView, toCanvasPoint, zoomAt } from './viewTransform';
+import type { ViewTransform } from './viewTransform';
+
+type Point = { x: number; y: number };
+
+// Zoom and pan for the canvas inside `boxRef`: wheel zoom and space-drag (or middle-drag) pan
+// with a mouse, pinch and two-finger pan on touch screens. The pointer handlers return true
+// when they took the event for a gesture, in which case the caller must not draw with it.
+export function useCanvasView(boxRef: React.RefObject<HTMLElement | null>) {
+  const [view, setViewState] = useState<ViewTransform>(FIT_VIEW);
+  const viewRef = useRef(view);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const spaceHeldRef = useRef(false);
+  // Active touch points, in box fractions
+  const touches = useRef(new Map<number, Point>());
+  const pinch = useRef<{ view: ViewTransform; midpoint: Point; distance: number } | null>(null);
+  const drag = useRef<{ pointerId: number; last: Point } | null>(null);
+
+  const setView = (next: ViewTransform) => {
+    viewRef.current = next;
+    setViewState(next);
+  };
+
+  // Client coordinates as fractions of the (untransformed) box
+  const boxPoint = (clientX: number, clientY: number): Point => {
+    const rect = boxRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  };
+  // Finger distance in CSS pixels, so the zoom does not depend on the direction of the pinch
+  const distance = (a: Point, b: Point) => {
+    const rect = boxRef.current?.getBoundingClientRect();
+    return Math.hypot((b.x - a.x) * (rect?.width ?? 1), (b.y - a.y) * (rect?.height ?? 1));
+  };
+  const startPinch = () => {
+    const [a, b] = [...touches.current.values()];
+    pinch.current = { view: viewRef.current, midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, distance: distance(a, b) };
+  };
+
+  // Normalized canvas coordinates of a pointer position at the current zoom
+  const toCanvas = (clientX: number, clientY: number): Point => toCanvasPoint(viewRef.current, boxPoint(clientX, clientY));
+
+  const fit = () => setView(FIT_VIEW);
+
+  const handlePointerDown = (e: React.PointerEvent): boolean => {
+    if (e.pointerType === 'touch') {
+      touches.current.set(e.pointerId, boxPoint(e.clientX, e.clientY));
+      if (touches.current.size === 2) {
+        startPinch();
+        return true;
+      }
+      return touches.current.size > 2;
+    }
+    if (spaceHeldRef.current || e.button === 1) {
+      e.preventDefault();
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+      drag.current = { pointerId: e.pointerId, last: boxPoint(e.clientX, e.clientY) };
+      return true;
+    }
+    return false;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent): boolean => {
+    if (e.pointerType === 'touch' && touches.current.has(e.pointerId)) {
+      touches.current.set(e.pointerId, boxPoint(e.clientX, e.clientY));
+      const start = pinch.current;
+      if (!start) return false;
+      if (touches.current.size === 2) {
+        const [a, b] = [...touches.current.values()];
+        const factor = start.distance > 0 ? distance(a, b) / start.distance : 1;
+        setView(pinchView(start.view, start.midpoint, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, factor));
+      }
+      return true;
+    }
+    const d = drag.current;
+    if (d && d.pointerId === e.pointerId) {
+      const p = boxPoint(e.clientX, e.clientY);
+      setView(panBy(viewRef.current, p.x - d.last.x, p.y - d.last.y));
+      drag.current = { pointerId: e.pointerId, last: p };
+      return true;
+    }
+    return false;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent): boolean => {
+    if (e.pointerType === 'touch') {
+      touches.current.delete(e.pointerId);
+      if (!pinch.current) return false;
+      // The gesture lasts until every finger is lifted, so the last one does not start drawing
+      if (touches.current.size === 0) pinch.current = null;
+      else if (touches.current.size === 2) startPinch();
+      return true;
+    }
+    if (drag.current?.pointerId === e.pointerId) {
+      drag.current = null;
+      return true;
+    }
+    return false;
+  };
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const box = boxRef.current;
+    if (!box) return;
+    const onWheel = (e: WheelEvent) => {
+      const rect = box.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return;
+      e.preventDefault();
+      const lines = e.deltaMode === 1 ? 16 : 1;
+      const at = { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+      setView(zoomAt(viewRef.current, Math.exp(-e.deltaY * lines * 0.002), at));
+    };
+    box.addEventListener('wheel', onWheel, { passive: false });
+    return () => box.removeEventListener('wheel', onWheel);
+  }, [boxRef]);
+
+  // Space held down turns mouse drags into panning. Only while nothing else has focus, so Space
+  // still presses focused buttons and types in fields.
+  useEffect(() => {
+    const set = (held: boolean) => {
+      spaceHeldRef.current = held;
+      setSpaceHeld(held);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isEditableTarget(e.target)) return;
+      if (e.target !== document.body && !(e.target instanceof Node && boxRef.current?.contains(e.target))) return;
+      // Keeps the page from scrolling
+      e.preventDefault();
+      if (!e.repeat) set(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') set(false);
+    };
+    const onBlur = () => set(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [boxRef]);
+
+  return {
+    view,
+    zoomed: !isFitView(view),
+    panning: spaceHeld,
+    fit,
+    toCanvas,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+  };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { draftKey, loadDraft, saveDraft } from './drawingDrafts';
+import type { DocumentOp } from './drawingDocument';
+import type { Layer } from './layers';
+
+// How often a changed drawing is written to IndexedDB
+const AUTOSAVE_MS = 3000;
+
+export type AutosaveTarget = { code: string; playerId: string; roundId: string };
+
+type AutosavedDocument = {
+  ops: DocumentOp[];
+  layers: Layer[];
+  load: (ops: DocumentOp[], layers?: Layer[]) => void;
+};
+
+// Saves the drawing every few seconds while it changes and, when the view mounts for a round that
+// already has a draft (e.g. after a reload and rejoin), restores it. `canRestore` lets the caller
+// refuse once the user has started drawing. Pass a null target to disable.
+export function useDrawingAutosave(doc: AutosavedDocument, target: AutosaveTarget | null, canRestore: () => boolean): void {
+  const docRef = useRef(doc);
+  docRef.current = doc;
+  const canRestoreRef = useRef(canRestore);
+  canRestoreRef.current = canRestore;
+  const code = target?.code ?? '';
+  const playerId = target?.playerId ?? '';
+  const roundId = target?.roundId ?? '';
+  const enabled = target !== null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const key = draftKey(code, playerId, roundId);
+    let cancelled = false;
+    // Nothing is saved until the old draft was looked at, so an empty canvas cannot overwrite it
+    let ready = false;
+    let saved: { ops: DocumentOp[]; layers: Layer[] } | null = null;
+    void loadDraft(key).then((draft) => {
+      if (cancelled) return;
+      if (draft && draft.ops.length > 0 && canRestoreRef.current()) {
+        docRef.current.load(draft.ops, draft.layers);
+        saved = { ops: draft.ops, layers: draft.layers };
+      }
+      ready = true;
+    });
+    const interval = window.setInterval(() => {
+      if (!ready) return;
+      const { ops, layers } = docRef.current;
+      if (saved && saved.ops === ops && saved.layers === layers) return;
+      if (!saved && ops.length === 0) return;
+      saved = { ops, layers };
+      void saveDraft({ key, code, playerId, roundId, ops, layers, savedAt: Date.now() });
+    }, AUTOSAVE_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [enabled, code, playerId, roundId]);
+}
@@ -0,0 +1,314 @@
+import { useRef, useState } from 'react';
+import { commitOp, emptyDocument, redoOp, undoOp } from './drawingDocument';
+import type { DocumentOp, DrawingDocument } from './drawingDocument';
+import { computeFill } from './fillWorker';
+import { floodFill } from './floodFill';
+import { BACKGROUND_LAYER_ID, DEFAULT_LAYER_ID, defaultLayers, moveLayer as moveLayerIn, toggleLayer } from './layers';
+import type { Layer } from './layers';
+import { drawStroke, isTranslucent } from './strokes';
+import type { DrawnStroke } from './strokes';
+
+// Snapshot the layer bitmaps every N operations so undo does not replay the whole document.
+// Each checkpoint holds one bitmap per layer, so only a couple are kept.
+const CHECKPOINT_EVERY = 20;
+const MAX_CHECKPOINTS = 2;
+
+type LineOp = Extract<DrawnStroke, { t: 'line' }> & { l: number };
+type FillOp = Extract<DocumentOp, { t: 'fill' }>;
+
+// Owns the drawing document for a canvas. Every layer is drawn on its own offscreen bitmap and
+// the visible canvas shows their composite; operations are drawn as they are made and the
+// document is re-rendered (starting at the nearest checkpoint) on undo/redo/resize.
+export function useDrawingDocument(canvasRef: React.RefObject<HTMLCanvasElement>) {
+  const [doc, setDoc] = useState<DrawingDocument>(emptyDocument);
+  const docRef = useRef(doc);
+  const [layers, setLayers] = useState<Layer[]>(defaultLayers);
+  const layersRef = useRef(layers);
+  const [activeLayer, setActiveLayerState] = useState(DEFAULT_LAYER_ID);
+  const activeLayerRef = useRef(activeLayer);
+  const activeLine = useRef<LineOp | null>(null);
+  const layerCanvases = useRef(new Map<number, HTMLCanvasElement>());
+  // Layer bitmaps after the first `key` operations, valid only for the canvas size they were taken at
+  const checkpoints = useRef(new Map<number, Map<number, HTMLCanvasElement>>());
+  // Bumped on every canvas change, so a worker fill can tell whether its result is still current
+  const paintSeq = useRef(0);
+  // No checkpoints while a worker fill is outstanding: the bitmap would be missing that fill
+  const pendingFills = useRef(0);
+
+  const update = (next: DrawingDocument) => {
+    docRef.current = next;
+    setDoc(next);
+  };
+
+  // Background starts out white; drawing layers start transparent
+  const resetLayer = (id: number, bitmap: HTMLCanvasElement) => {
+    const ctx = bitmap.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, bitmap.width, bitmap.height);
+    if (id === BACKGROUND_LAYER_ID) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+    }
+  };
+
+  const layerCtx = (id: number): CanvasRenderingContext2D | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    let bitmap = layerCanvases.current.get(id);
+    if (!bitmap) {
+      bitmap = document.createElement('canvas');
+      bitmap.width = canvas.width;
+      bitmap.height = canvas.height;
+      resetLayer(id, bitmap);
+      layerCanvases.current.set(id, bitmap);
+    }
+    return bitmap.getContext('2d');
+  };
+
+  const layerOf = (op: DocumentOp) => op.l ?? DEFAULT_LAYER_ID;
+
+  // A translucent line stays off its layer until it ends and is redrawn whole on every move
+  const floatingLine = () => {
+    const line = activeLine.current;
+    return line && isTranslucent(line) ? line : null;
+  };
+
+  // Draws the visible layers, bottom to top, onto the visible canvas
+  const composite = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const floating = floatingLine();
+    for (const layer of layersRef.current) {
+      // Creates untouched layers on first use (e.g. the white background)
+      const bitmap = layerCtx(layer.id)?.canvas;
+      if (!layer.visible || !bitmap) continue;
+      ctx.drawImage(bitmap, 0, 0);
+      if (floating && floating.l === layer.id) drawStroke(ctx, floating);
+    }
+  };
+
+  // Draws one operation onto its layer bitmap (without compositing)
+  const paintOp = (op: DocumentOp, fromPoint = 0) => {
+    const ctx = layerCtx(layerOf(op));
+    if (!ctx) return;
+    if (op.t === 'fill' && op.sampleAll) {
+      composite();
+      const sample = canvasRef.current?.getContext('2d') ?? undefined;
+      floodFill(ctx, Math.floor(op.x * ctx.canvas.width), Math.floor(op.y * ctx.canvas.height), op.c, { tolerance: op.tol, expand: op.grow }, sample);
+      return;
+    }
+    drawStroke(ctx, op, fromPoint);
+  };
+
+  const maybeCheckpoint = (count: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas || pendingFills.current > 0 || count === 0 || count % CHECKPOINT_EVERY !== 0 || checkpoints.current.has(count)) return;
+    const snapshot = new Map<number, HTMLCanvasElement>();
+    for (const [id, bitmap] of layerCanvases.current) {
+      const copy = document.createElement('canvas');
+      copy.width = bitmap.width;
+      copy.height = bitmap.height;
+      const cctx = copy.getContext('2d');
+      if (!cctx) return;
+      cctx.drawImage(bitmap, 0, 0);
+      snapshot.set(id, copy);
+    }
+    checkpoints.current.set(count, snapshot);
+    // Keep only the most recent checkpoints
+    const keys = [...checkpoints.current.keys()].sort((a, b) => a - b);
+    while (keys.length > MAX_CHECKPOINTS) checkpoints.current.delete(keys.shift()!);
+  };
+
+  // Re-renders the committed operations, e.g. after undo or a canvas resize
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    paintSeq.current++;
+    const ops = docRef.current.ops;
+    let start = 0;
+    let base: Map<number, HTMLCanvasElement> | null = null;
+    for (const [count, snapshot] of [...checkpoints.current]) {
+      const first = snapshot.values().next().value;
+      // Stale after undoing past it or after a resize
+      if (count > ops.length || (first && (first.width !== canvas.width || first.height !== canvas.height))) {
+        checkpoints.current.delete(count);
+        continue;
+      }
+      if (count > start) {
+        start = count;
+        base = snapshot;
+      }
+    }
+    for (const [id, bitmap] of layerCanvases.current) {
+      if (bitmap.width !== canvas.width || bitmap.height !== canvas.height) {
+        bitmap.width = canvas.width;
+        bitmap.height = canvas.height;
+      }
+      resetLayer(id, bitmap);
+      const saved = base?.get(id);
+      if (saved) bitmap.getContext('2d')?.drawImage(saved, 0, 0);
+    }
+    for (let i = start; i < ops.length; i++) {
+      paintOp(ops[i]);
+      maybeCheckpoint(i + 1);
+    }
+    const line = activeLine.current;
+    if (line && !floatingLine()) paintOp(line);
+    composite();
+  };
+
+  const commit = (op: DocumentOp) => {
+    const next = commitOp(docRef.current, op);
+    update(next);
+    maybeCheckpoint(next.ops.length);
+  };
+
+  // Brush strokes: begin with the first point, extend while moving, end on release
+  const beginLine = (op: Extract<DrawnStroke, { t: 'line' }>) => {
+    paintSeq.current++;
+    activeLine.current = { ...op, p: [...op.p], ...(op.r ? { r: [...op.r] } : {}), l: activeLayerRef.current };
+    if (!floatingLine()) paintOp(activeLine.current);
+    composite();
+  };
+  // `pressures` holds one sample per point for pressure-sensitive lines
+  const extendLine = (points: number[], pressures?: number[]) => {
+    const line = activeLine.current;
+    if (!line || points.length === 0) return;
+    const from = line.p.length / 2;
+    paintSeq.current++;
+    line.p.push(...points);
+    if (line.r) line.r.push(...(pressures ?? new Array<number>(points.length / 2).fill(0.5)));
+    if (!floatingLine()) paintOp(line, from);
+    composite();
+  };
+  const endLine = () => {
+    const line = activeLine.current;
+    activeLine.current = null;
+    if (!line) return;
+    if (isTranslucent(line)) {
+      paintOp(line);
+      composite();
+    }
+    commit(line);
+  };
+
+  // Bucket fills run in a worker. If anything was drawn meanwhile, the result is stale and the
+  // document is re-rendered instead (replay fills synchronously, in order).
+  const applyFill = (op: FillOp) => {
+    const canvas = canvasRef.current;
+    const ctx = layerCtx(layerOf(op));
+    if (!canvas || !ctx) {
+      commit(op);
+      return;
+    }
+    // A fill started while another is outstanding reads pixels that are missing the earlier one
+    const startedClean = pendingFills.current === 0;
+    pendingFills.current++;
+    commit(op);
+    const seq = ++paintSeq.current;
+    const x = Math.floor(op.x * canvas.width);
+    const y = Math.floor(op.y * canvas.height);
+    // The visible canvas already shows the merged layers
+    const sample = op.sampleAll ? canvas.getContext('2d') ?? undefined : undefined;
+    void computeFill(ctx, x, y, op.c, { tolerance: op.tol, expand: op.grow }, sample).then((image) => {
+      pendingFills.current--;
+      if (!startedClean || paintSeq.current !== seq) {
+        if (pendingFills.current === 0) redraw();
+        return;
+      }
+      if (image) {
+        ctx.putImageData(image, 0, 0);
+        composite();
+      }
+      maybeCheckpoint(docRef.current.ops.length);
+    });
+  };
+
+  // One-shot operations such as fills and shapes, drawn on the active layer
+  const apply = (stroke: DrawnStroke, options?: { sampleAll?: boolean }) => {
+    const op: DocumentOp = { ...stroke, l: activeLayerRef.current, ...(options?.sampleAll ? { sampleAll: true } : {}) };
+    if (op.t === 'fill') {
+      applyFill(op);
+      return;
+    }
+    paintSeq.current++;
+    paintOp(op);
+    composite();
+    commit(op);
+  };
+
+  const undo = () => {
+    if (docRef.current.ops.length === 0) return;
+    update(undoOp(docRef.current));
+    redraw();
+  };
+
+  // Returns the redone operation so callers can re-broadcast it
+  const redo = (): DrawnStroke | null => {
+    const op = docRef.current.undone[docRef.current.undone.length - 1];
+    if (!op) return null;
+    const next = redoOp(docRef.current);
+    update(next);
+    paintSeq.current++;
+    paintOp(op);
+    composite();
+    maybeCheckpoint(next.ops.length);
+    return op;
+  };
+
+  const clear = () => {
+    activeLine.current = null;
+    checkpoints.current.clear();
+    paintSeq.current++;
+    update(emptyDocument());
+    for (const [id, bitmap] of layerCanvases.current) resetLayer(id, bitmap);
+    composite();
+  };
+
+  // Replaces the document, e.g. when restoring strokes after a reload
+  const load = (ops: DocumentOp[], savedLayers?: Layer[]) => {
+    activeLine.current = null;
+    checkpoints.current.clear();
+    update({ ops: [...ops], undone: [] });
+    if (savedLayers) {
+      layersRef.current = savedLayers;
+      setLayers(savedLayers);
+    }
+    redraw();
+  };
+
+  // Layer changes only affect compositing, not the operations
+  const applyLayers = (next: Layer[]) => {
+    layersRef.current = next;
+    setLayers(next);
+    composite();
+  };
+  const setActiveLayer = (id: number) => {
+    activeLayerRef.current = id;
+    setActiveLayerState(id);
+  };
+  const toggleLayerVisibility = (id: number) => applyLayers(toggleLayer(layersRef.current, id));
+  const moveLayer = (id: number, dir: 1 | -1) => applyLayers(moveLayerIn(layersRef.current, id, dir));
+
+  return {
+    ops: doc.ops,
+    canUndo: doc.ops.length > 0,
+    canRedo: doc.undone.length > 0,
+    layers,
+    activeLayer,
+    setActiveLayer,
+    toggleLayerVisibility,
+    moveLayer,
+    beginLine,
+    extendLine,
+    endLine,
+    apply,
+    undo,
+    redo,
+    clear,
+    load,
+    redraw,
+  };
+}
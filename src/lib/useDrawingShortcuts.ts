@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+
+export type DrawingShortcutActions = {
+  undo: () => void;
+  redo: () => void;
+  brush: () => void;
+  eraser: () => void;
+  bucket: () => void;
+  line: () => void;
+  rect: () => void;
+  ellipse: () => void;
+  eyedropper: () => void;
+  brushSmaller: () => void;
+  brushLarger: () => void;
+  swatch: (index: number) => void; // 0-based palette index
+  help: () => void;
+};
+
+// Shown in the shortcuts help overlay
+export const DRAWING_SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Ctrl+Z', action: 'Undo' },
+  { keys: 'Ctrl+Shift+Z / Ctrl+Y', action: 'Redo' },
+  { keys: 'B', action: 'Brush' },
+  { keys: 'E', action: 'Eraser' },
+  { keys: 'G', action: 'Bucket' },
+  { keys: 'L', action: 'Line' },
+  { keys: 'R', action: 'Rectangle' },
+  { keys: 'O', action: 'Ellipse' },
+  { keys: 'I', action: 'Eyedropper' },
+  { keys: '[ / ]', action: 'Smaller / larger brush' },
+  { keys: '1-9, 0', action: 'Palette colors 1-10' },
+  { keys: 'Wheel', action: 'Zoom' },
+  { keys: 'Space + drag', action: 'Pan' },
+  { keys: '?', action: 'Show shortcuts' },
+];
+
+// True when the key event comes from somewhere the user is typing (chat input, etc.)
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable;
+}
+
+// Binds the drawing keymap on window. Disabled while typing or when `enabled` is false.
+export function useDrawingShortcuts(actions: Partial<DrawingShortcutActions>, enabled = true): void {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || isEditableTarget(e.target)) return;
+      const a = actionsRef.current;
+      const key = e.key.toLowerCase();
+      let handler: (() => void) | undefined;
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'z') handler = e.shiftKey ? a.redo : a.undo;
+        else if (key === 'y') handler = a.redo;
+      } else if (key === 'b') {
+        handler = a.brush;
+      } else if (key === 'e') {
+        handler = a.eraser;
+      } else if (key === 'g') {
+        handler = a.bucket;
+      } else if (key === 'l') {
+        handler = a.line;
+      } else if (key === 'r') {
+        handler = a.rect;
+      } else if (key === 'o') {
+        handler = a.ellipse;
+      } else if (key === 'i') {
+        handler = a.eyedropper;
+      } else if (key === '[') {
+        handler = a.brushSmaller;
+      } else if (key === ']') {
+        handler = a.brushLarger;
+      } else if (key === '?') {
+        handler = a.help;
+      } else if (/^[0-9]$/.test(key) && a.swatch) {
+        // 1 -> first swatch ... 9 -> ninth, 0 -> tenth
+        const index = key === '0' ? 9 : Number(key) - 1;
+        const swatch = a.swatch;
+        handler = () => swatch(index);
+      }
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
@@ -1,6 +1,9 @@
 import { useEffect } from 'react';
 import { Events } from './constants/events';
 import { useGameStore } from '../stores/game';
+import { clearDrafts } from './drawingDrafts';
+import type { KickedPayload, RoomErrorPayload, RoomPhasePayload, RoundInProgressPayload, VotingEndPayload, MatchUpdatePayload, MatchEndPayload, GuessUpdatePayload, PromptChosenPayload } from '../types';
+import type { StrokeMessage } from './strokes';
 
 // Binds socket events to the Zustand store. Call this once where the socket exists.
 export function useGameSocket(socketRef: React.MutableRefObject<any>) {
@@ -12,7 +15,16 @@ export function useGameSocket(socketRef: React.MutableRefObject<any>) {
   const lobbyUpdate = useGameStore((s) => s.lobbyUpdate);
   const applySettingsUpdate = useGameStore((s) => s.applySettingsUpdate);
   const roundStart = useGameStore((s) => s.roundStart);
+  const roundInProgress = useGameStore((s) => s.roundInProgress);
   const roundEnd = useGameStore((s) => s.roundEnd);
+  const roomPhase = useGameStore((s) => s.roomPhase);
+  const votingEnd = useGameStore((s) => s.votingEnd);
+  const matchUpdate = useGameStore((s) => s.matchUpdate);
+  const matchEnd = useGameStore((s) => s.matchEnd);
+  const applyStroke = useGameStore((s) => s.applyStroke);
+  const syncStrokes = useGameStore((s) => s.syncStrokes);
+  const guessUpdate = useGameStore((s) => s.guessUpdate);
+  const promptChosen = useGameStore((s) => s.promptChosen);
   const addChatMessage = useGameStore((s) => s.addChatMessage);
 
   useEffect(() => {
@@ -31,14 +43,15 @@ export function useGameSocket(socketRef: React.MutableRefObject<any>) {
       try {
         const raw = sessionStorage.getItem('td.session');
         if (!raw) return;
-        const session = JSON.parse(raw) as { code: string; myId: string; nickname: string; token: string };
+        const session = JSON.parse(raw) as { code: string; myId: string; nickname: string; token: string; spectator?: boolean };
         if (!session?.code || !session?.myId || !session?.token) return;
         socket.emit(
           Events.RejoinRoom,
-          { code: session.code.trim().toUpperCase(), playerId: session.myId, token: session.token, nickname: session.nickname },
+          { code: session.code.trim().toUpperCase(), playerId: session.myId, token: session.token, nickname: session.nickname, spectator: session.spectator === true },
           (res: { ok: boolean; myId?: string; hostId?: string }) => {
             if (!res?.ok) {
               try { sessionStorage.removeItem('td.session'); } catch {}
+              void clearDrafts(session.code.trim().toUpperCase());
               return;
             }
             const normalized = session.code.trim().toUpperCase();
@@ -62,18 +75,72 @@ export function useGameSocket(socketRef: React.MutableRefObject<any>) {
     function onRoundStart(payload: any) {
       roundStart(payload);
     }
+    function onRoundInProgress(payload: RoundInProgressPayload) {
+      roundInProgress(payload);
+    }
     function onRoundEnd(payload: any) {
       roundEnd(payload);
+      // The round's drawing was submitted (or lost); its autosave is no longer needed
+      void clearDrafts(useGameStore.getState().roomCode);
+    }
+    function onRoomPhase(payload: RoomPhasePayload) {
+      roomPhase(payload);
+    }
+    function onVotingEnd(payload: VotingEndPayload) {
+      votingEnd(payload);
+    }
+    function onMatchUpdate(payload: MatchUpdatePayload) {
+      matchUpdate(payload);
+    }
+    function onMatchEnd(payload: MatchEndPayload) {
+      matchEnd(payload);
+    }
+    function onDrawStroke(msg: StrokeMessage) {
+      applyStroke(msg);
+    }
+    function onStrokeSync(payload: { strokes: StrokeMessage[] }) {
+      syncStrokes(payload?.strokes || []);
+    }
+    function onGuessUpdate(payload: GuessUpdatePayload) {
+      guessUpdate(payload);
+    }
+    function onPromptChosen(payload: PromptChosenPayload) {
+      promptChosen(payload);
     }
     function onChatMessage(msg: any) {
       addChatMessage(msg);
     }
+    function onKicked(payload: KickedPayload) {
+      const code = useGameStore.getState().roomCode;
+      try { sessionStorage.removeItem('td.session'); } catch { /* storage unavailable */ }
+      void clearDrafts(code);
+      useGameStore.getState().clearOnLeave();
+      setToast(payload?.banned ? 'You were banned from the room.' : 'You were removed from the room.');
+      window.setTimeout(() => setToast(null), 3000);
+    }
 
     socket.on(Events.LobbyUpdate, onLobbyUpdate);
     socket.on(Events.SettingsUpdate, onSettingsUpdate);
     socket.on(Events.RoundStart, onRoundStart);
+    socket.on(Events.RoundInProgress, onRoundInProgress);
     socket.on(Events.RoundEnd, onRoundEnd);
+    socket.on(Events.RoomPhase, onRoomPhase);
+    socket.on(Events.VotingEnd, onVotingEnd);
+    socket.on(Events.MatchUpdate, onMatchUpdate);
+    socket.on(Events.MatchEnd, onMatchEnd);
+    socket.on(Events.DrawStroke, onDrawStroke);
+    socket.on(Events.StrokeSync, onStrokeSync);
+    socket.on(Events.GuessUpdate, onGuessUpdate);
+    socket.on(Events.PromptChosen, onPromptChosen);
     socket.on(Events.ChatMessage, onChatMessage);
+    function onRoomError(payload: RoomErrorPayload) {
+      if (!payload?.message) return;
+      setToast(payload.message);
+      window.setTimeout(() => setToast(null), 3000);
+    }
+
+    socket.on(Events.Kicked, onKicked);
+    socket.on(Events.RoomError, onRoomError);
 
     return () => {
       socket.off('connect', onConnect);
@@ -82,9 +149,20 @@ export function useGameSocket(socketRef: React.MutableRefObject<any>) {
       socket.off(Events.LobbyUpdate, onLobbyUpdate);
       socket.off(Events.SettingsUpdate, onSettingsUpdate);
       socket.off(Events.RoundStart, onRoundStart);
+      socket.off(Events.RoundInProgress, onRoundInProgress);
       socket.off(Events.RoundEnd, onRoundEnd);
+      socket.off(Events.RoomPhase, onRoomPhase);
+      socket.off(Events.VotingEnd, onVotingEnd);
+      socket.off(Events.MatchUpdate, onMatchUpdate);
+      socket.off(Events.MatchEnd, onMatchEnd);
+      socket.off(Events.DrawStroke, onDrawStroke);
+      socket.off(Events.StrokeSync, onStrokeSync);
+      socket.off(Events.GuessUpdate, onGuessUpdate);
+      socket.off(Events.PromptChosen, onPromptChosen);
       socket.off(Events.ChatMessage, onChatMessage);
+      socket.off(Events.Kicked, onKicked);
+      socket.off(Events.RoomError, onRoomError);
     };
-  }, [socketRef, setConnection, setRoomCode, setMyId, setHostId, lobbyUpdate, roundStart, roundEnd, addChatMessage, applySettingsUpdate, setToast]);
+  }, [socketRef, setConnection, setRoomCode, setMyId, setHostId, lobbyUpdate, roundStart, roundInProgress, roundEnd, roomPhase, votingEnd, matchUpdate, matchEnd, applyStroke, syncStrokes, guessUpdate, promptChosen, addChatMessage, applySettingsUpdate, setToast]);
 }
 
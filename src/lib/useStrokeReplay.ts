@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { drawStroke, isTranslucent, renderStrokes } from './strokes';
+import type { DrawnStroke } from './strokes';
+
+// Keeps a canvas in sync with a growing list of streamed strokes.
+// Appended points and new strokes are drawn incrementally; undo/clear trigger a full replay,
+// and so does a growing translucent line, which can only be drawn whole.
+export function useStrokeReplay(
+  canvasRef: React.RefObject<HTMLCanvasElement>,
+  strokes: DrawnStroke[],
+  enabled: boolean
+): void {
+  const rendered = useRef<{ ids: string[]; lastPoints: number }>({ ids: [], lastPoints: 0 });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const prev = rendered.current;
+    const n = prev.ids.length;
+    // Incremental only when the previously drawn strokes are still a prefix of the list
+    const isPrefix = n <= strokes.length && prev.ids.every((id, i) => strokes[i].id === id);
+    const last = isPrefix && n > 0 ? strokes[n - 1] : null;
+    const grown = last && last.t === 'line' && last.p.length > prev.lastPoints ? last : null;
+    if (!isPrefix || (grown && isTranslucent(grown))) {
+      renderStrokes(ctx, strokes);
+    } else {
+      if (grown) drawStroke(ctx, grown, prev.lastPoints / 2);
+      for (let i = n; i < strokes.length; i++) drawStroke(ctx, strokes[i]);
+    }
+    const tail = strokes[strokes.length - 1];
+    rendered.current = {
+      ids: strokes.map((s) => s.id),
+      lastPoints: tail && tail.t === 'line' ? tail.p.length : 0,
+    };
+  }, [canvasRef, strokes, enabled]);
+}
@@ -19,5 +19,49 @@ export function validateRoundDuration(duration: number): string | null {
   return null;
 }
 
+// Same rules as the server; an empty passcode means none and is not checked here
+export function validatePasscode(passcode: string): string | null {
+  if (!passcode) return 'Please enter a passcode';
+  if (passcode !== passcode.trim()) return 'Passcode cannot start or end with spaces';
+  if (passcode.length < 4) return 'Passcode must be at least 4 characters';
+  if (passcode.length > 20) return 'Passcode must be 20 characters or less';
+  if (!/^[\x20-\x7e]+$/.test(passcode)) return 'Passcode contains invalid characters';
+  return null;
+}
+
+// Same limits as the server for custom prompt packs (see parsePromptPack)
+export function validatePromptPack(pack: Record<string, string[]> | null): string | null {
+  if (!pack) return 'Could not read the prompt list';
+  const names = Object.keys(pack);
+  if (names.length === 0) return 'The prompt list is empty';
+  if (names.length > 10) return 'A prompt pack can have at most 10 categories';
+  let total = 0;
+  for (const name of names) {
+    if (!/^[a-zA-Z0-9][a-zA-Z0-9 _-]{0,19}$/.test(name)) return 'Category names must be 1-20 letters, numbers, spaces, hyphens or underscores';
+    const list = pack[name];
+    if (list.length === 0) return `Category "${name}" has no prompts`;
+    for (const prompt of list) {
+      if (prompt.length > 30) return 'Prompts must be 30 characters or less';
+      if (!/^[a-zA-Z0-9][a-zA-Z0-9 '-]*$/.test(prompt)) return `"${prompt}" contains invalid characters`;
+    }
+    total += list.length;
+  }
+  if (total < 3) return 'Add at least 3 prompts';
+  if (total > 200) return 'A prompt pack can have at most 200 prompts';
+  return null;
+}
 
+export function validateTotalRounds(rounds: number): string | null {
+  if (!Number.isInteger(rounds)) return 'Round count must be a whole number';
+  if (rounds < 1) return 'A match needs at least 1 round';
+  if (rounds > 10) return 'A match cannot exceed 10 rounds';
+  return null;
+}
 
+// Difficulties the host allows; at least one, no repeats
+export function validateDifficulties(list: string[]): string | null {
+  if (list.length === 0) return 'Allow at least one difficulty';
+  if (list.some((d) => d !== 'easy' && d !== 'medium' && d !== 'hard')) return 'Unknown difficulty';
+  if (new Set(list).size !== list.length) return 'Difficulties must not repeat';
+  return null;
+}
@@ -0,0 +1,47 @@
+// Zoom and pan of the drawing canvas inside its fixed-size box. The canvas is scaled by `scale`
+// around the box's top-left corner and then moved by (x, y), i.e. the CSS transform
+// `translate(x, y) scale(scale)` with transform-origin 0 0. Offsets and points are fractions of
+// the box size, so a view survives the box being resized.
+export type ViewTransform = { scale: number; x: number; y: number };
+type Point = { x: number; y: number };
+
+export const FIT_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 8;
+
+export function isFitView(view: ViewTransform): boolean {
+  return view.scale === 1 && view.x === 0 && view.y === 0;
+}
+
+// Keeps the zoom in range and the canvas covering the whole box (no empty margins)
+export function clampView(view: ViewTransform): ViewTransform {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, view.scale));
+  return {
+    scale,
+    x: Math.max(1 - scale, Math.min(0, view.x)),
+    y: Math.max(1 - scale, Math.min(0, view.y)),
+  };
+}
+
+// Zooms by `factor` keeping the box point `at` in place (e.g. under the mouse wheel)
+export function zoomAt(view: ViewTransform, factor: number, at: Point): ViewTransform {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, view.scale * factor));
+  const k = scale / view.scale;
+  return clampView({ scale, x: at.x - (at.x - view.x) * k, y: at.y - (at.y - view.y) * k });
+}
+
+export function panBy(view: ViewTransform, dx: number, dy: number): ViewTransform {
+  return clampView({ ...view, x: view.x + dx, y: view.y + dy });
+}
+
+// Two-finger gesture relative to the view at its start: the canvas point under the starting
+// midpoint follows the fingers to `midpoint`, and the zoom follows the finger distance `factor`
+export function pinchView(start: ViewTransform, startMidpoint: Point, midpoint: Point, factor: number): ViewTransform {
+  const scale = Math.max(1, Math.min(MAX_ZOOM, start.scale * factor));
+  const c = toCanvasPoint(start, startMidpoint);
+  return clampView({ scale, x: midpoint.x - c.x * scale, y: midpoint.y - c.y * scale });
+}
+
+// Maps a box point to normalized canvas coordinates (0..1 when on the canvas)
+export function toCanvasPoint(view: ViewTransform, at: Point): Point {
+  return { x: (at.x - view.x) / view.scale, y: (at.y - view.y) / view.scale };
+}
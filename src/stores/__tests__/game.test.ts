@@ -0,0 +1,125 @@
+/**
+ * Store tests for round identity (re-sent round-starts vs. new rounds), late joiners, the room phase
+ * and prompt choice.
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useGameStore } from '../game';
+
+const start = (roundId: string, round = 2) =>
+  useGameStore.getState().roundStart({ roundId, prompt: 'Cat', duration: 60, endsAt: Date.now() + 60000, round, totalRounds: 3 });
+
+describe('round identity', () => {
+  beforeEach(() => {
+    useGameStore.getState().clearPerRoomState();
+  });
+
+  it('tracks the server round id', () => {
+    start('r1');
+    expect(useGameStore.getState().roundId).toBe('r1');
+    useGameStore.getState().roundEnd({ roundId: 'r1', drawings: {} });
+    expect(useGameStore.getState().roundId).toBe('r1');
+    start('r2');
+    expect(useGameStore.getState().roundId).toBe('r2');
+  });
+
+  // Reconnecting re-sends the round-start; it must not announce the round again
+  it('does not re-announce a re-sent round', () => {
+    start('r1');
+    start('r1');
+    expect(useGameStore.getState().chatMessages.filter((m) => m.isSystem)).toHaveLength(1);
+    start('r2');
+    expect(useGameStore.getState().chatMessages.filter((m) => m.isSystem)).toHaveLength(2);
+  });
+
+  it('keeps the scoreboard when the first round is re-sent', () => {
+    start('r1', 1);
+    useGameStore.getState().matchUpdate({ round: 1, totalRounds: 3, standings: [{ id: 'p1', nickname: 'A', score: 2 }], nextRoundAt: null });
+    start('r1', 1);
+    expect(useGameStore.getState().standings).toHaveLength(1);
+    start('r9', 1);
+    expect(useGameStore.getState().standings).toHaveLength(0);
+  });
+});
+
+describe('late joiners', () => {
+  beforeEach(() => {
+    useGameStore.getState().clearPerRoomState();
+  });
+
+  it('waits out the running round and plays the next one', () => {
+    const endsAt = Date.now() + 30000;
+    useGameStore.getState().roundInProgress({ roundId: 'r1', endsAt, mode: 'classic', round: 2, totalRounds: 3 });
+    const waiting = useGameStore.getState();
+    expect(waiting.waitingRound?.endsAt).toBe(endsAt);
+    expect(waiting.endsAtMs).toBeNull();
+    expect(waiting.prompt).toBe('');
+    start('r2', 3);
+    expect(useGameStore.getState().waitingRound).toBeNull();
+    expect(useGameStore.getState().prompt).toBe('Cat');
+  });
+
+  it('stops waiting when the round ends', () => {
+    useGameStore.getState().roundInProgress({ roundId: 'r1', endsAt: Date.now() + 30000 });
+    useGameStore.getState().roundEnd({ roundId: 'r1', drawings: {} });
+    expect(useGameStore.getState().waitingRound).toBeNull();
+  });
+});
+
+describe('room phase', () => {
+  beforeEach(() => {
+    useGameStore.getState().clearPerRoomState();
+  });
+
+  it('follows the round from drawing to results', () => {
+    expect(useGameStore.getState().phase).toBe('lobby');
+    start('r1');
+    expect(useGameStore.getState().phase).toBe('drawing');
+    useGameStore.getState().roundEnd({ roundId: 'r1', drawings: { p1: 'data:image/png;base64,AAA' } });
+    expect(useGameStore.getState().phase).toBe('results');
+  });
+
+  it('drops the results but keeps the settings when going back to the lobby', () => {
+    useGameStore.getState().applySettingsUpdate({ roundDuration: 90, totalRounds: 3, category: ['animals', 'food'] });
+    start('r1', 3);
+    useGameStore.getState().roundEnd({ roundId: 'r1', drawings: { p1: 'data:image/png;base64,AAA' } });
+    useGameStore.getState().matchEnd({ standings: [{ id: 'p1', nickname: 'A', score: 1 }] });
+    useGameStore.getState().roomPhase({ phase: 'lobby' });
+    const state = useGameStore.getState();
+    expect(state.phase).toBe('lobby');
+    expect(state.drawings).toEqual({});
+    expect(state.standings).toHaveLength(0);
+    expect(state.matchEnded).toBe(false);
+    expect(state.matchRound).toBe(0);
+    expect(state.roundDuration).toBe(90);
+    expect(state.totalRounds).toBe(3);
+    expect(state.categories).toEqual(['animals', 'food']);
+  });
+});
+
+describe('prompt choice', () => {
+  beforeEach(() => {
+    useGameStore.getState().clearPerRoomState();
+  });
+
+  it('offers the choices until a prompt is chosen, then labels the drawings', () => {
+    const choiceEndsAt = Date.now() + 8000;
+    useGameStore.getState().roundStart({ roundId: 'r1', prompt: '', duration: 60, choices: ['cat', 'dog', 'fish'], choiceEndsAt });
+    expect(useGameStore.getState().promptChoices).toEqual(['cat', 'dog', 'fish']);
+    expect(useGameStore.getState().choiceEndsAtMs).toBe(choiceEndsAt);
+
+    // A choice for another round is ignored
+    useGameStore.getState().promptChosen({ roundId: 'r0', prompt: 'cat' });
+    expect(useGameStore.getState().prompt).toBe('');
+    useGameStore.getState().promptChosen({ roundId: 'r1', prompt: 'dog', category: 'animals', difficulty: 'easy' });
+    let state = useGameStore.getState();
+    expect(state.prompt).toBe('dog');
+    expect(state.roundDifficulty).toBe('easy');
+    expect(state.promptChoices).toEqual([]);
+
+    useGameStore.getState().roundEnd({ roundId: 'r1', drawings: {}, prompts: { me: 'dog', p2: 'lamp' } });
+    state = useGameStore.getState();
+    expect(state.drawingPrompts).toEqual({ me: 'dog', p2: 'lamp' });
+    start('r2');
+    expect(useGameStore.getState().drawingPrompts).toEqual({});
+  });
+});
@@ -1,6 +1,29 @@
 import { create } from 'zustand';
 
-import type { Player, ChatMessage, LobbyUpdate, SettingsUpdate } from '../types';
+import type {
+  Player,
+  ChatMessage,
+  LobbyUpdate,
+  SettingsUpdate,
+  DeckStatus,
+  Difficulty,
+  RoundStartPayload,
+  RoundInProgressPayload,
+  RoundEndPayload,
+  RoomPhase,
+  RoomPhasePayload,
+  VotingEndPayload,
+  MatchStanding,
+  MatchUpdatePayload,
+  MatchEndPayload,
+  GameMode,
+  GuessResult,
+  GuessUpdatePayload,
+  PromptChosenPayload,
+  PromptPackSummary,
+} from '../types';
+import { mergeStroke } from '../lib/strokes';
+import type { DrawnStroke, StrokeMessage } from '../lib/strokes';
 
 type GameState = {
   // Session/room
@@ -11,13 +34,50 @@ type GameState = {
   hostId: string | null;
 
   // Phase data
+  phase: RoomPhase; // server-driven; see RoomPhase
   players: Player[];
   prompt: string;
   roundDuration: number;
-  category: string | null; // lobby preference; null means random
+  totalRounds: number; // lobby preference: rounds per match
+  categories: string[]; // lobby preference; empty means random
   roundCategory: string | null; // active round category
+  roundDifficulty: Difficulty | null; // active round prompt difficulty; null for custom prompts
+  promptChoices: string[]; // prompt choice: candidates until one is picked
+  choiceEndsAtMs: number | null;
+  drawingPrompts: Record<string, string>; // prompt choice: playerId -> prompt drawn, from round-end
+  roundId: string | null; // server id of the current (or last) round
   drawings: Record<string, string>;
   endsAtMs: number | null;
+  waitingRound: RoundInProgressPayload | null; // round running without us (joined late)
+
+  // Voting
+  votingEndsAtMs: number | null;
+  votes: Record<string, number>;
+  winnerIds: string[];
+  myVote: string | null;
+
+  // Match
+  matchRound: number; // 1-based round of the active match; 0 before the first round
+  matchTotalRounds: number;
+  standings: MatchStanding[];
+  nextRoundAtMs: number | null;
+  matchEnded: boolean;
+
+  // Guess mode
+  mode: GameMode; // lobby preference
+  difficulties: Difficulty[]; // prompt difficulties the host allows
+  promptChoice: boolean; // classic rounds: players pick one of three prompts
+  hasPasscode: boolean; // room access
+  locked: boolean;
+  isPublic: boolean;
+  promptPack: PromptPackSummary | null; // host's custom prompts, if any
+  deck: DeckStatus | null; // prompts left in the selected categories' deck
+  roundMode: GameMode; // mode of the active/last round
+  drawerId: string | null;
+  promptHint: string; // masked prompt shown to guessers
+  strokes: DrawnStroke[]; // drawer's strokes so far, replayed on guessers' canvases
+  guessedIds: string[];
+  guessResult: GuessResult | null;
 
   // UI/connection
   isConnected: boolean;
@@ -37,8 +97,18 @@ type GameState = {
 
   lobbyUpdate: (update: LobbyUpdate) => void;
   applySettingsUpdate: (payload: SettingsUpdate) => void;
-  roundStart: (payload: { prompt: string; duration: number; category?: string; endsAt?: number }) => void;
-  roundEnd: (payload: { drawings: Record<string, string> }) => void;
+  roundStart: (payload: RoundStartPayload) => void;
+  roundInProgress: (payload: RoundInProgressPayload) => void;
+  roundEnd: (payload: RoundEndPayload) => void;
+  roomPhase: (payload: RoomPhasePayload) => void;
+  votingEnd: (payload: VotingEndPayload) => void;
+  setMyVote: (targetId: string | null) => void;
+  matchUpdate: (payload: MatchUpdatePayload) => void;
+  matchEnd: (payload: MatchEndPayload) => void;
+  applyStroke: (msg: StrokeMessage) => void;
+  syncStrokes: (msgs: StrokeMessage[]) => void;
+  guessUpdate: (payload: GuessUpdatePayload) => void;
+  promptChosen: (payload: PromptChosenPayload) => void;
   addChatMessage: (msg: ChatMessage) => void;
 
   // Clears ephemeral per-room state but not the roomCode
@@ -55,13 +125,47 @@ export const useGameStore = create<GameState>((set, get) => ({
   myId: null,
   hostId: null,
 
+  phase: 'lobby',
   players: [],
   prompt: '',
   roundDuration: 60,
-  category: null,
+  totalRounds: 1,
+  categories: [],
   roundCategory: null,
+  roundDifficulty: null,
+  promptChoices: [],
+  choiceEndsAtMs: null,
+  drawingPrompts: {},
+  roundId: null,
   drawings: {},
   endsAtMs: null,
+  waitingRound: null,
+
+  votingEndsAtMs: null,
+  votes: {},
+  winnerIds: [],
+  myVote: null,
+
+  matchRound: 0,
+  matchTotalRounds: 1,
+  standings: [],
+  nextRoundAtMs: null,
+  matchEnded: false,
+
+  mode: 'classic',
+  hasPasscode: false,
+  locked: false,
+  isPublic: false,
+  difficulties: ['easy', 'medium', 'hard'],
+  promptChoice: false,
+  promptPack: null,
+  deck: null,
+  roundMode: 'classic',
+  drawerId: null,
+  promptHint: '',
+  strokes: [],
+  guessedIds: [],
+  guessResult: null,
 
   isConnected: false,
   toastMessage: null,
@@ -109,24 +213,73 @@ export const useGameStore = create<GameState>((set, get) => ({
   applySettingsUpdate: (payload) => {
     const patch: Partial<GameState> = {};
     if (typeof payload.roundDuration === 'number') patch.roundDuration = payload.roundDuration;
-    if (typeof payload.category !== 'undefined') patch.category = payload.category ?? null;
+    if (typeof payload.totalRounds === 'number') patch.totalRounds = payload.totalRounds;
+    if (Array.isArray(payload.category)) patch.categories = payload.category;
+    if (payload.mode === 'classic' || payload.mode === 'guess') patch.mode = payload.mode;
+    if (Array.isArray(payload.difficulties)) patch.difficulties = payload.difficulties;
+    if (typeof payload.promptChoice === 'boolean') patch.promptChoice = payload.promptChoice;
+    if (typeof payload.hasPasscode === 'boolean') patch.hasPasscode = payload.hasPasscode;
+    if (typeof payload.locked === 'boolean') patch.locked = payload.locked;
+    if (typeof payload.isPublic === 'boolean') patch.isPublic = payload.isPublic;
+    if (typeof payload.promptPack !== 'undefined') patch.promptPack = payload.promptPack ?? null;
+    if (payload.deck) patch.deck = payload.deck;
     set(patch);
   },
 
-  roundStart: ({ prompt, duration, category, endsAt }) => {
+  roundStart: ({ roundId, prompt, duration, category, difficulty, endsAt, round, totalRounds, mode, drawerId, hint, choices, choiceEndsAt }) => {
     const serverEnds = typeof endsAt === 'number' ? endsAt : (Date.now() + duration * 1000);
     const remainingNow = Math.max(0, Math.ceil((serverEnds - Date.now()) / 1000));
+    // A re-sent round-start (e.g. after a reconnect) is the round already in progress
+    const resent = !!roundId && roundId === get().roundId;
     // Timer value is derived in component; store endsAtMs and other fields
     set({
+      phase: 'drawing',
+      roundId: roundId ?? null,
+      waitingRound: null,
       prompt,
       roundCategory: category || null,
+      roundDifficulty: difficulty ?? null,
+      promptChoices: Array.isArray(choices) ? choices : [],
+      choiceEndsAtMs: Array.isArray(choices) && typeof choiceEndsAt === 'number' ? choiceEndsAt : null,
+      drawingPrompts: {},
       endsAtMs: serverEnds,
+      votingEndsAtMs: null,
+      votes: {},
+      winnerIds: [],
+      myVote: null,
+      matchRound: typeof round === 'number' ? round : 1,
+      matchTotalRounds: typeof totalRounds === 'number' ? totalRounds : 1,
+      nextRoundAtMs: null,
+      matchEnded: false,
+      roundMode: mode === 'guess' ? 'guess' : 'classic',
+      drawerId: drawerId ?? null,
+      promptHint: hint ?? '',
+      strokes: [],
+      guessedIds: [],
+      guessResult: null,
     });
+    if (resent) return;
+    // First round of a new match starts from a blank scoreboard
+    if (typeof round !== 'number' || round <= 1) set({ standings: [] });
     // Also add a system chat message summarizing the round
+    const started = typeof round === 'number' && typeof totalRounds === 'number' && totalRounds > 1
+      ? `Round ${round}/${totalRounds} started!`
+      : 'New round started!';
+    let text = Array.isArray(choices)
+      ? `${started} Pick your prompt (${remainingNow}s)`
+      : `${started} Draw: ${prompt} (${remainingNow}s)`;
+    if (mode === 'guess') {
+      // Guessers never receive the word, so only the drawer's message names it
+      const { myId, players } = get();
+      const drawerName = players.find((p) => p.id === drawerId)?.nickname || 'Someone';
+      text = drawerId && drawerId === myId
+        ? `${started} You are drawing: ${prompt} (${remainingNow}s)`
+        : `${started} ${drawerName} is drawing. Guess the word! (${remainingNow}s)`;
+    }
     const msg: ChatMessage = {
       id: 'system',
       nickname: 'System',
-      text: `New round started! Draw: ${prompt} (${remainingNow}s)`,
+      text,
       time: Date.now(),
       isSystem: true,
     };
@@ -134,31 +287,200 @@ export const useGameStore = create<GameState>((set, get) => ({
     set({ chatMessages: [...prev.slice(-49), msg] });
   },
 
-  roundEnd: ({ drawings }) => {
-    set({ drawings, endsAtMs: null });
+  roundInProgress: (payload) => {
+    // Spectators get this every round, so the previous round's results are dropped like on roundStart
+    set({
+      phase: 'drawing',
+      waitingRound: payload,
+      roundId: payload.roundId ?? null,
+      prompt: '',
+      drawings: {},
+      votingEndsAtMs: null,
+      votes: {},
+      winnerIds: [],
+      myVote: null,
+      matchRound: typeof payload.round === 'number' ? payload.round : 0,
+      matchTotalRounds: typeof payload.totalRounds === 'number' ? payload.totalRounds : 1,
+      nextRoundAtMs: null,
+      matchEnded: false,
+      roundMode: payload.mode === 'guess' ? 'guess' : 'classic',
+      strokes: [],
+      guessedIds: [],
+      guessResult: null,
+    });
+  },
+
+  roundEnd: ({ roundId, drawings, votingEndsAt, guess, prompts }) => {
+    set({
+      phase: 'results',
+      waitingRound: null,
+      ...(roundId ? { roundId } : {}),
+      drawings: drawings || {},
+      // Guess rounds reveal the word to everyone once they end
+      ...(guess ? { prompt: guess.prompt, guessedIds: guess.guessedIds } : {}),
+      guessResult: guess ?? null,
+      drawingPrompts: prompts ?? {},
+      promptChoices: [],
+      choiceEndsAtMs: null,
+      endsAtMs: null,
+      votingEndsAtMs: typeof votingEndsAt === 'number' ? votingEndsAt : null,
+      votes: {},
+      winnerIds: [],
+      myVote: null,
+    });
+  },
+
+  // Back to the lobby (host's choice): the round results and the match are dropped, settings stay
+  roomPhase: ({ phase }) => {
+    if (phase !== 'lobby' && phase !== 'drawing' && phase !== 'results') return;
+    if (phase !== 'lobby' || get().phase === 'lobby') {
+      set({ phase });
+      return;
+    }
+    set({
+      phase,
+      prompt: '',
+      drawings: {},
+      roundCategory: null,
+      roundDifficulty: null,
+      promptChoices: [],
+      choiceEndsAtMs: null,
+      drawingPrompts: {},
+      endsAtMs: null,
+      waitingRound: null,
+      votingEndsAtMs: null,
+      votes: {},
+      winnerIds: [],
+      myVote: null,
+      matchRound: 0,
+      matchTotalRounds: 1,
+      standings: [],
+      nextRoundAtMs: null,
+      matchEnded: false,
+      drawerId: null,
+      promptHint: '',
+      strokes: [],
+      guessedIds: [],
+      guessResult: null,
+    });
+  },
+
+  votingEnd: ({ votes, winnerIds }) => {
+    set({ votes: votes || {}, winnerIds: Array.isArray(winnerIds) ? winnerIds : [], votingEndsAtMs: null });
+  },
+
+  setMyVote: (targetId) => set({ myVote: targetId }),
+
+  matchUpdate: ({ round, totalRounds, standings, nextRoundAt }) => {
+    set({
+      matchRound: round,
+      matchTotalRounds: totalRounds,
+      standings: Array.isArray(standings) ? standings : [],
+      nextRoundAtMs: typeof nextRoundAt === 'number' ? nextRoundAt : null,
+    });
+  },
+
+  matchEnd: ({ standings }) => {
+    set({ standings: Array.isArray(standings) ? standings : [], nextRoundAtMs: null, matchEnded: true });
+  },
+
+  applyStroke: (msg) => set((s) => ({ strokes: mergeStroke(s.strokes, msg) })),
+
+  syncStrokes: (msgs) => set({ strokes: (Array.isArray(msgs) ? msgs : []).reduce(mergeStroke, [] as DrawnStroke[]) }),
+
+  guessUpdate: ({ guessedIds }) => set({ guessedIds: Array.isArray(guessedIds) ? guessedIds : [] }),
+
+  promptChosen: ({ roundId, prompt, category, difficulty }) => {
+    if (roundId !== get().roundId) return;
+    set({
+      prompt,
+      ...(category ? { roundCategory: category } : {}),
+      roundDifficulty: difficulty ?? null,
+      promptChoices: [],
+      choiceEndsAtMs: null,
+    });
+    get().addChatMessage({ id: 'system', nickname: 'System', text: `You are drawing: ${prompt}`, time: Date.now(), isSystem: true });
   },
 
   addChatMessage: (msg) => set((s) => ({ chatMessages: [...s.chatMessages.slice(-49), msg] })),
 
   clearPerRoomState: () => set({
+    phase: 'lobby',
     players: [],
     prompt: '',
     drawings: {},
     roundCategory: null,
+    roundDifficulty: null,
+    promptChoices: [],
+    choiceEndsAtMs: null,
+    drawingPrompts: {},
+    roundId: null,
     endsAtMs: null,
+    waitingRound: null,
+    votingEndsAtMs: null,
+    votes: {},
+    winnerIds: [],
+    myVote: null,
+    matchRound: 0,
+    matchTotalRounds: 1,
+    standings: [],
+    nextRoundAtMs: null,
+    matchEnded: false,
+    roundMode: 'classic',
+    drawerId: null,
+    promptHint: '',
+    strokes: [],
+    guessedIds: [],
+    guessResult: null,
     hostId: null,
+    hasPasscode: false,
+    locked: false,
+    isPublic: false,
+    difficulties: ['easy', 'medium', 'hard'],
+    promptChoice: false,
+    promptPack: null,
+    deck: null,
     chatMessages: [],
   }),
 
   clearOnLeave: () => set({
     roomCode: '',
     inputCode: '',
+    phase: 'lobby',
     players: [],
     prompt: '',
     drawings: {},
     roundCategory: null,
+    roundDifficulty: null,
+    promptChoices: [],
+    choiceEndsAtMs: null,
+    drawingPrompts: {},
+    roundId: null,
     endsAtMs: null,
+    waitingRound: null,
+    votingEndsAtMs: null,
+    votes: {},
+    winnerIds: [],
+    myVote: null,
+    matchRound: 0,
+    matchTotalRounds: 1,
+    standings: [],
+    nextRoundAtMs: null,
+    matchEnded: false,
+    roundMode: 'classic',
+    drawerId: null,
+    promptHint: '',
+    strokes: [],
+    guessedIds: [],
+    guessResult: null,
     hostId: null,
+    hasPasscode: false,
+    locked: false,
+    isPublic: false,
+    difficulties: ['easy', 'medium', 'hard'],
+    promptChoice: false,
+    promptPack: null,
+    deck: null,
     chatMessages: [],
   }),
 }));
@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { pushRecentColor } from '../lib/color';
+
+type RecentColorsState = {
+  colors: string[]; // most recent first
+  addColor: (hex: string) => void;
+};
+
+// Colors recently picked in the color picker, shared by every picker instance and kept across visits
+export const useRecentColors = create<RecentColorsState>()(
+  persist(
+    (set) => ({
+      colors: [],
+      addColor: (hex) => set((state) => ({ colors: pushRecentColor(state.colors, hex) })),
+    }),
+    { name: 'td.recentColors' }
+  )
+);
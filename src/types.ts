@@ -2,8 +2,13 @@ export type Player = {
   id: string;
   nickname: string;
   isReady?: boolean;
+  waiting?: boolean; // joined during a round; plays from the next one
+  role?: PlayerRole; // missing from older servers: a player
 };
 
+// Spectators watch and chat but never draw, vote or score
+export type PlayerRole = 'player' | 'spectator';
+
 export type ChatMessage = {
   id: string; // player id or 'system'
   nickname: string;
@@ -20,10 +25,143 @@ export type LobbyUpdateV2 = {
 };
 export type LobbyUpdate = LobbyUpdateV1 | LobbyUpdateV2;
 
+// 'classic': everyone draws the prompt, then votes. 'guess': one player draws, the rest guess in chat.
+export type GameMode = 'classic' | 'guess';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// What players learn about the host's custom prompt pack; the prompts themselves stay on the server
+export type PromptPackSummary = {
+  categories: string[];
+  count: number;
+};
+
+// How far through its prompt deck the room's current category is; the deck reshuffles once used up
+export type DeckStatus = {
+  remaining: number;
+  total: number;
+};
+
 export type SettingsUpdate = {
   roundDuration?: number;
-  category?: string | null;
+  category?: string[]; // categories prompts are dealt from; empty is random
+  totalRounds?: number;
+  mode?: GameMode;
+  difficulties?: Difficulty[]; // prompt difficulties the host allows
+  promptChoice?: boolean; // classic rounds: each player picks one of three prompts
+  hasPasscode?: boolean; // the passcode itself is never sent
+  locked?: boolean; // no new joins
+  isPublic?: boolean; // listed in the room browser
+  promptPack?: PromptPackSummary | null; // null when the room uses the built-in prompts
+  deck?: DeckStatus;
+};
+
+// One entry of GET /rooms; only public rooms without a passcode that still have room are listed
+export type PublicRoom = {
+  code: string;
+  hostNickname: string | null;
+  players: number;
+  maxPlayers: number;
+  category: string[];
+  phase: 'lobby' | 'drawing' | 'voting' | 'results';
+  roundDuration: number;
+  mode: GameMode;
+  locked: boolean;
 };
 
+export type RoundStartPayload = {
+  roundId?: string; // server-generated; the same id when a round-start is re-sent (e.g. on rejoin)
+  prompt: string;
+  duration: number;
+  category?: string;
+  difficulty?: Difficulty | null; // null for custom prompts
+  endsAt?: number;
+  round?: number; // 1-based round within the match
+  totalRounds?: number;
+  // Guess mode only; guessers receive an empty prompt and a masked hint
+  mode?: GameMode;
+  drawerId?: string;
+  hint?: string;
+  // Prompt choice: candidates to pick from before choiceEndsAt; prompt is empty until prompt-chosen
+  choices?: string[];
+  choiceEndsAt?: number;
+};
 
+export type PromptChosenPayload = {
+  roundId: string;
+  prompt: string;
+  category?: string;
+  difficulty?: Difficulty | null;
+};
 
+// Sent instead of round-start to players who join while a round is running. The prompt is not
+// included; they watch the countdown and play from the next round on.
+export type RoundInProgressPayload = {
+  roundId?: string;
+  endsAt: number;
+  mode?: GameMode;
+  round?: number;
+  totalRounds?: number;
+};
+
+// Outcome of a guess-mode round
+export type GuessResult = {
+  drawerId: string;
+  prompt: string;
+  guessedIds: string[]; // in guessing order
+  points: Record<string, number>; // points earned this round
+};
+
+// Round end payload; votingEndsAt is present when the server opens a voting phase
+export type RoundEndPayload = {
+  roundId?: string;
+  drawings: Record<string, string>;
+  votingEndsAt?: number;
+  guess?: GuessResult;
+  prompts?: Record<string, string>; // prompt choice: playerId -> the prompt they drew
+};
+
+export type GuessUpdatePayload = {
+  guessedIds: string[];
+};
+
+export type VotingEndPayload = {
+  votes: Record<string, number>; // playerId -> votes received
+  winnerIds: string[]; // empty when nobody voted
+};
+
+export type MatchStanding = {
+  id: string;
+  nickname: string;
+  score: number;
+};
+
+// Sent after each round's results are final
+export type MatchUpdatePayload = {
+  round: number;
+  totalRounds: number;
+  standings: MatchStanding[];
+  nextRoundAt: number | null; // null after the last round
+};
+
+// Server-driven room phase: 'lobby' between matches, 'drawing' while a round runs, 'results'
+// from the end of a round (voting included) until the next round or the host returns to the lobby
+export type RoomPhase = 'lobby' | 'drawing' | 'results';
+
+export type RoomPhasePayload = {
+  phase: RoomPhase;
+};
+
+// Sent to a player the host removed; banned players cannot join or rejoin the room
+export type KickedPayload = {
+  banned: boolean;
+};
+
+// Sent to the whole room when the server could not carry on, e.g. a round that failed to start
+export type RoomErrorPayload = {
+  message: string;
+};
+
+export type MatchEndPayload = {
+  standings: MatchStanding[];
+};